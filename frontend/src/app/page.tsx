@@ -6,14 +6,18 @@ import { Navigation } from '@/components/Navigation'
 import { SwapInterface } from '@/components/SwapInterfaceEthers'
 import { LiquidityInterface } from '@/components/LiquidityInterfaceEthers'
 import { RealAnalyticsDashboard } from '@/components/RealAnalyticsDashboard'
+import { PortfolioPositions } from '@/components/PortfolioPositions'
 import { GeometricBackground } from '@/components/ui/GeometricBackground'
 import { ParticleField, NeuralNetwork } from '@/components/ui/PremiumEffects'
 import { FloatingActions } from '@/components/ui/FloatingActions'
 import { Web3Provider } from '@/components/providers/Web3Provider'
+import { RegistryMismatchBanner } from '@/components/ui/RegistryMismatchBanner'
+import { WatchModeBanner } from '@/components/ui/WatchModeBanner'
+import { TransactionTracker } from '@/components/ui/TransactionTracker'
 import { Toaster } from 'react-hot-toast'
 
 export default function Home() {
-  const [activeTab, setActiveTab] = useState<'swap' | 'liquidity' | 'analytics'>('swap')
+  const [activeTab, setActiveTab] = useState<'swap' | 'liquidity' | 'portfolio' | 'analytics'>('swap')
   const [darkMode, setDarkMode] = useState(true)
 
   // Initialize dark mode from localStorage
@@ -47,6 +51,8 @@ export default function Home() {
         return <SwapInterface />
       case 'liquidity':
         return <LiquidityInterface />
+      case 'portfolio':
+        return <PortfolioPositions />
       case 'analytics':
         return <RealAnalyticsDashboard />
       default:
@@ -85,6 +91,9 @@ export default function Home() {
         onDarkModeToggle={handleDarkModeToggle}
       />
 
+      <RegistryMismatchBanner />
+      <WatchModeBanner />
+
       {/* Main Content - Conditional Rendering */}
       {activeTab === 'swap' && (
         <>
@@ -473,6 +482,9 @@ export default function Home() {
 
       {/* Floating Actions */}
       <FloatingActions />
+
+      {/* Transaction progress */}
+      <TransactionTracker />
     </div>
     </Web3Provider>
   )
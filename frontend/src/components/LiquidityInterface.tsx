@@ -8,7 +8,9 @@ import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/Input'
 import { TokenSelector } from '@/components/ui/TokenSelector'
 import { OrbitalSpinner } from '@/components/ui/LoadingSpinner'
+import { RemoveLiquidityPanel } from '@/components/RemoveLiquidityPanel'
 import { TOKENS } from '@/lib/constants'
+import { OrbitalMath } from '@/lib/orbital-math'
 import { useOrbitalAMMEthers, parseTokenAmount, formatTokenAmount } from '@/hooks/useOrbitalAMMEthers'
 import { formatNumber, formatCurrency } from '@/lib/utils'
 import { useWallet } from '@/hooks/useWallet'
@@ -17,7 +19,7 @@ interface LiquidityPosition {
   k: string
   radius: bigint
   planeConstant: bigint
-  reserves: readonly [bigint, bigint, bigint, bigint, bigint]
+  reserves: readonly bigint[]
   liquidity: bigint
   lpShares: bigint
   status: 'Interior' | 'Boundary'
@@ -27,14 +29,13 @@ interface LiquidityPosition {
 export function LiquidityInterface() {
   const { address } = useWallet()
   const [mode, setMode] = useState<'add' | 'remove'>('add')
-  const [selectedTokens, setSelectedTokens] = useState<typeof TOKENS[number][]>([TOKENS[0], TOKENS[1], TOKENS[2], TOKENS[3], TOKENS[4]])
-  const [amounts, setAmounts] = useState(['', '', '', '', ''])
+  const [selectedTokens, setSelectedTokens] = useState<typeof TOKENS[number][]>([...TOKENS])
+  const [amounts, setAmounts] = useState<string[]>(TOKENS.map(() => ''))
   const [kValue, setKValue] = useState('') // User-defined k value for the tick
   const [positions, setPositions] = useState<LiquidityPosition[]>([])
 
   const {
     addLiquidity,
-    removeLiquidity,
     getTickInfo,
     getUserLpShares,
     activeTicks,
@@ -73,7 +74,7 @@ export function LiquidityInterface() {
             liquidity,
             lpShares,
             status: status === 0 ? 'Interior' : 'Boundary',
-            efficiency: 2.5 // Calculate proper efficiency if needed
+            efficiency: OrbitalMath.calculateEfficiency(k, r)
           })
         }
       }
@@ -143,57 +144,40 @@ export function LiquidityInterface() {
     if (!kValue || !address) return
 
     const k = parseTokenAmount(kValue, 18)
-    const reservesArray = amounts.map((amount, index) =>
-      amount ? parseTokenAmount(amount, selectedTokens[index].decimals) : BigInt(0)
-    )
+    // One amount per pool token in contract order; tokens left out deposit zero
+    const reserves = TOKENS.map(token => {
+      const index = selectedTokens.findIndex(selected => selected.symbol === token.symbol)
+      return index >= 0 && amounts[index] ? parseTokenAmount(amounts[index], token.decimals) : BigInt(0)
+    })
 
-    // Ensure we have exactly 5 elements
-    while (reservesArray.length < 5) {
-      reservesArray.push(BigInt(0))
+    try {
+      await addLiquidity(k, reserves)
+    } catch {
+      // The decoded failure is exposed through the hook's error state
     }
-    const reserves = reservesArray.slice(0, 5) as unknown as readonly [bigint, bigint, bigint, bigint, bigint]
-
-    await addLiquidity(k, reserves)
-  }
-
-  const handleRemoveLiquidity = async (positionK: string) => {
-    const position = positions.find(p => p.k === positionK)
-    if (!position || !address) return
-
-    const k = BigInt(positionK)
-    const lpSharesToRemove = position.lpShares // Remove all shares for simplicity
-    const minAmountsOut: readonly [bigint, bigint, bigint, bigint, bigint] = [
-      BigInt(0), BigInt(0), BigInt(0), BigInt(0), BigInt(0)
-    ] // No slippage protection for demo
-
-    await removeLiquidity(k, lpSharesToRemove, minAmountsOut)
   }
 
   // Reset form on successful transaction
   useEffect(() => {
     if (isConfirmed) {
-      setAmounts(['', '', '', '', ''])
+      setAmounts(current => current.map(() => ''))
       setKValue('')
     }
   }, [isConfirmed])
 
   const efficiency = useMemo(() => {
     try {
-      const concentratedReserves = amounts.map((amount, index) =>
-        amount ? parseTokenAmount(amount, selectedTokens[index].decimals) : BigInt(0)
-      )
-
-      if (concentratedReserves.every(r => r === BigInt(0))) return 1
+      const k = parseTokenAmount(kValue, 18)
+      if (!OrbitalMath.isValidK(k, calculatedLiquidity)) return 1
 
-      // Simple efficiency calculation
-      return 2.5
+      return OrbitalMath.calculateEfficiency(k, calculatedLiquidity)
     } catch {
       return 1
     }
-  }, [amounts, selectedTokens])
+  }, [kValue, calculatedLiquidity])
 
   const handleAddToken = () => {
-    if (selectedTokens.length < 5) {
+    if (selectedTokens.length < TOKENS.length) {
       const availableTokens = TOKENS.filter(token =>
         !selectedTokens.some(selected => selected.symbol === token.symbol)
       )
@@ -314,7 +298,7 @@ export function LiquidityInterface() {
                     variant="outline"
                     size="sm"
                     onClick={handleAddToken}
-                    disabled={selectedTokens.length >= 5}
+                    disabled={selectedTokens.length >= TOKENS.length}
                     className="border-orange-500/30 text-orange-300 hover:border-orange-400/50 hover:bg-orange-500/10 disabled:opacity-50"
                     icon={<Plus className="w-3 h-3" />}
                   >
@@ -483,16 +467,7 @@ export function LiquidityInterface() {
                         ))}
                       </div>
 
-                      <Button
-                        variant="danger"
-                        size="sm"
-                        onClick={() => handleRemoveLiquidity(position.k)}
-                        disabled={isLoading}
-                        className="w-full bg-gradient-to-r from-red-500/80 to-orange-500/80 hover:from-red-600/80 hover:to-orange-600/80 border-0"
-                        icon={<Minus className="w-4 h-4" />}
-                      >
-                        Remove Liquidity
-                      </Button>
+                      <RemoveLiquidityPanel k={position.planeConstant} lpShares={position.lpShares} />
                     </motion.div>
                   ))}
                 </div>
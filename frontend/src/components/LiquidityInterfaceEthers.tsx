@@ -10,38 +10,71 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { Droplets, Plus, AlertCircle, Info } from 'lucide-react';
+import { Droplets, Plus, AlertCircle, Info, Target } from 'lucide-react';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { ContractErrorMessage } from '@/components/ui/ContractErrorMessage';
+import { TransactionPreview } from '@/components/ui/TransactionPreview';
+import { EfficiencyCurveChart } from '@/components/ui/EfficiencyCurveChart';
+import { VirtualList } from '@/components/ui/VirtualList';
 import { TOKENS } from '@/lib/constants';
+import { OrbitalMath } from '@/lib/orbital-math';
+import { analyzeContractTick } from '@/lib/capital-efficiency';
+import { toUsd } from '@/lib/pool-metrics';
+import { formatCurrency, formatNumber } from '@/lib/utils';
 import { useOrbitalAMMEthers, parseTokenAmount, formatTokenAmount } from '@/hooks/useOrbitalAMMEthers';
 import { useWallet } from '@/hooks/useWallet';
+import { formatContractError } from '@/lib/contract-errors';
+import type { PoolTokenAmounts, TransactionSimulation } from '@/lib/orbital-pool-client';
 import toast from 'react-hot-toast';
 
+const DEPEG_PRESETS = ['0.99', '0.98', '0.97', '0.95'];
+// Token amount rows: label line, input and the gap below
+const TOKEN_ROW_HEIGHT = 96;
+const TOKEN_LIST_MAX_HEIGHT = 480;
+
+const formatEfficiency = (efficiency: number) =>
+  Number.isFinite(efficiency) ? `${efficiency.toFixed(2)}x` : '∞';
+
 export function LiquidityInterface() {
-  const { isConnected } = useWallet();
+  const { address, isConnected, isSupportedChain, network, switchToSupportedChain } = useWallet();
   const {
     addLiquidity,
+    simulateAddLiquidity,
+    precheckAddLiquidity,
+    getTickInfo,
     getTokenBalance,
     getTokenAllowance,
-    approveToken,
     isLoading,
     error,
+    errorDetails,
     clearError,
     isConfirmed,
     clearTransaction
   } = useOrbitalAMMEthers();
 
   // Form state
+  const [kMode, setKMode] = useState<'depeg' | 'manual'>('depeg');
+  const [depegPrice, setDepegPrice] = useState('0.99');
   const [kValue, setKValue] = useState('');
-  const [amounts, setAmounts] = useState(['', '', '', '', '']);
-  const [balances, setBalances] = useState<(bigint | null)[]>([null, null, null, null, null]);
-  const [allowances, setAllowances] = useState<(bigint | null)[]>([null, null, null, null, null]);
+  const [existingTickReserves, setExistingTickReserves] = useState<PoolTokenAmounts | null>(null);
+  const [amounts, setAmounts] = useState<string[]>(() => TOKENS.map(() => ''));
+  const [balances, setBalances] = useState<(bigint | null)[]>(() => TOKENS.map(() => null));
+  const [allowances, setAllowances] = useState<(bigint | null)[]>(() => TOKENS.map(() => null));
+
+  // Pre-flight simulation shown before the deposit is signed
+  const [depositPreview, setDepositPreview] = useState<{
+    k: bigint;
+    amounts: PoolTokenAmounts;
+    /** Indexes of the tokens whose approvals are queued ahead of the deposit */
+    approvals: number[];
+    simulation: TransactionSimulation<null> | null;
+  } | null>(null);
 
-  // Load balances and allowances
+  // Load balances and allowances (of the watched account in watch mode)
   useEffect(() => {
-    if (!isConnected) return;
+    if (!address) return;
 
     const loadData = async () => {
       try {
@@ -61,24 +94,79 @@ export function LiquidityInterface() {
     };
 
     loadData();
-  }, [isConnected, getTokenBalance, getTokenAllowance, isConfirmed]);
-
-  // Check which tokens need approval
-  const needsApproval = useMemo(() => {
-    return amounts.map((amount, index) => {
-      if (!amount || !allowances[index]) return false;
-      const amountBigInt = parseTokenAmount(amount, TOKENS[index].decimals);
-      return allowances[index]! < amountBigInt;
+  }, [address, getTokenBalance, getTokenAllowance, isConfirmed]);
+
+  const amountsBigInt = useMemo(
+    () =>
+      amounts.map((amount, index) => {
+        try {
+          return amount ? parseTokenAmount(amount, TOKENS[index].decimals) : BigInt(0);
+        } catch {
+          return BigInt(0);
+        }
+      }),
+    [amounts]
+  );
+
+  // A manually entered k may name an existing tick, whose reserves count towards the radius
+  useEffect(() => {
+    setExistingTickReserves(null);
+    if (kMode !== 'manual' || !/^\d+$/.test(kValue)) return;
+
+    let cancelled = false;
+    getTickInfo(BigInt(kValue)).then(tick => {
+      if (!cancelled && tick && tick.r > BigInt(0)) setExistingTickReserves(tick.reserves);
     });
-  }, [amounts, allowances]);
+    return () => {
+      cancelled = true;
+    };
+  }, [kMode, kValue, getTickInfo]);
+
+  // Radius the tick will have after this deposit, as computed by the contract
+  const tickRadius = useMemo(
+    () =>
+      OrbitalMath.calculateRadius(
+        amountsBigInt.map((amount, i) => amount + (existingTickReserves?.[i] ?? BigInt(0)))
+      ),
+    [amountsBigInt, existingTickReserves]
+  );
+
+  const tickK = useMemo(() => {
+    if (kMode === 'manual') return /^\d+$/.test(kValue) ? BigInt(kValue) : null;
+    const price = parseFloat(depegPrice);
+    if (!(price > 0 && price < 1) || tickRadius === BigInt(0)) return null;
+    return OrbitalMath.kForDepegPrice(tickRadius, price, TOKENS.length);
+  }, [kMode, kValue, depegPrice, tickRadius]);
+
+  // Mirrors `_isValidK`, so invalid ticks are caught before simulation
+  const tickGeometry = useMemo(() => {
+    if (tickK === null || tickRadius === BigInt(0)) return null;
+    return {
+      ...analyzeContractTick(tickK, tickRadius, TOKENS.length),
+      isValid: OrbitalMath.isValidK(tickK, tickRadius, TOKENS.length),
+      bounds: OrbitalMath.getKBounds(tickRadius, TOKENS.length),
+    };
+  }, [tickK, tickRadius]);
+
+  const depositUsd = amountsBigInt.reduce((sum, amount, i) => sum + toUsd(i, amount), 0);
+
+  // Tokens whose allowance falls short; their approvals are queued ahead of the deposit
+  const pendingApprovals = useMemo(
+    () =>
+      amountsBigInt.flatMap((amount, index) => {
+        const allowance = allowances[index];
+        return amount > BigInt(0) && allowance !== null && allowance < amount ? [index] : [];
+      }),
+    [amountsBigInt, allowances]
+  );
+  const approvalCount = pendingApprovals.length;
 
   // Check if form is valid
   const canAddLiquidity = useMemo(() => {
-    if (!isConnected || !kValue) return false;
+    if (!isConnected || !isSupportedChain || tickK === null || !tickGeometry?.isValid) return false;
     
-    // Check if at least one amount is entered
-    const hasAmounts = amounts.some(amount => amount && parseFloat(amount) > 0);
-    if (!hasAmounts) return false;
+    // Mirrors `_validateAmounts`: the contract takes every token, each amount above zero
+    if (amountsBigInt.some(amount => amount <= BigInt(0))) return false;
 
     // Check if all entered amounts are within balance
     for (let i = 0; i < amounts.length; i++) {
@@ -88,9 +176,8 @@ export function LiquidityInterface() {
       }
     }
 
-    // Check if no approvals are needed
-    return !needsApproval.some(needs => needs);
-  }, [isConnected, kValue, amounts, balances, needsApproval]);
+    return true;
+  }, [isConnected, isSupportedChain, tickK, tickGeometry, amounts, amountsBigInt, balances]);
 
   const handleAmountChange = (index: number, value: string) => {
     const newAmounts = [...amounts];
@@ -98,51 +185,60 @@ export function LiquidityInterface() {
     setAmounts(newAmounts);
   };
 
-  const handleApprove = async (tokenIndex: number) => {
-    if (!amounts[tokenIndex]) return;
-    
+  // Runs the approvals (if any) and the deposit as one tracked flow
+  const submitDeposit = async (k: bigint, depositAmounts: PoolTokenAmounts) => {
     try {
-      clearError();
-      const amount = parseTokenAmount(amounts[tokenIndex], TOKENS[tokenIndex].decimals);
-      await approveToken(TOKENS[tokenIndex].address, amount);
-      toast.success(`${TOKENS[tokenIndex].symbol} approved successfully!`);
-    } catch (error: any) {
-      console.error('Approval error:', error);
-      toast.error(`Approval failed: ${error.message}`);
-    }
-  };
-
-  const handleAddLiquidity = async () => {
-    if (!canAddLiquidity || !kValue) return;
-
-    try {
-      clearError();
-      
-      // Convert amounts to bigint array
-      const amountsBigInt: [bigint, bigint, bigint, bigint, bigint] = amounts.map((amount, index) => 
-        amount ? parseTokenAmount(amount, TOKENS[index].decimals) : BigInt(0)
-      ) as [bigint, bigint, bigint, bigint, bigint];
-
-      const kBigInt = BigInt(kValue);
-
       console.log('Adding liquidity:', {
-        k: kBigInt.toString(),
-        amounts: amountsBigInt.map(a => a.toString())
+        k: k.toString(),
+        amounts: depositAmounts.map(a => a.toString())
       });
 
-      await addLiquidity(kBigInt, amountsBigInt);
+      await addLiquidity(k, depositAmounts);
       
       // Clear form on success
       setKValue('');
-      setAmounts(['', '', '', '', '']);
+      setAmounts(TOKENS.map(() => ''));
       
       toast.success('Liquidity added successfully!');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Add liquidity error:', error);
-      toast.error(`Failed to add liquidity: ${error.message}`);
+      toast.error(`Failed to add liquidity: ${formatContractError(error)}`);
     }
   };
 
+  const handleAddLiquidity = async () => {
+    if (!canAddLiquidity || tickK === null) return;
+
+    clearError();
+
+    // The node cannot simulate the deposit before the pool may spend every token, so check it locally
+    if (approvalCount > 0) {
+      setDepositPreview({
+        k: tickK,
+        amounts: amountsBigInt,
+        approvals: pendingApprovals,
+        simulation: precheckAddLiquidity(tickK, amountsBigInt),
+      });
+      return;
+    }
+
+    setDepositPreview({ k: tickK, amounts: amountsBigInt, approvals: [], simulation: null });
+    const simulation = await simulateAddLiquidity(tickK, amountsBigInt);
+    setDepositPreview(preview => (preview ? { ...preview, simulation } : preview));
+  };
+
+  const handleConfirmAddLiquidity = async () => {
+    if (!depositPreview?.simulation?.ok) return;
+
+    await submitDeposit(depositPreview.k, depositPreview.amounts);
+    setDepositPreview(null);
+  };
+
+  // Inputs changed: the previous simulation no longer applies
+  useEffect(() => {
+    setDepositPreview(null);
+  }, [tickK, amounts]);
+
   const formatBalance = (balance: bigint | null, decimals: number) => {
     if (!balance) return '0.0000';
     const formatted = formatTokenAmount(balance, decimals);
@@ -167,78 +263,188 @@ export function LiquidityInterface() {
           <motion.div
             initial={{ opacity: 0, y: -10 }}
             animate={{ opacity: 1, y: 0 }}
-            className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/20 flex items-center gap-2"
+            className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/20 flex items-start gap-2"
           >
-            <AlertCircle className="w-4 h-4 text-red-400" />
-            <span className="text-red-400 text-sm">{error}</span>
+            <AlertCircle className="w-4 h-4 mt-0.5 text-red-400 flex-shrink-0" />
+            <ContractErrorMessage error={error} details={errorDetails} />
           </motion.div>
         )}
 
-        {/* K Value Input */}
+        {/* Tick Range */}
         <div className="mb-6">
-          <label className="block text-sm font-medium text-gray-300 mb-2">
-            K Value (Tick Parameter)
-          </label>
-          <Input
-            type="text"
-            placeholder="Enter k value (e.g., 1000000000000000000)"
-            value={kValue}
-            onChange={(e) => setKValue(e.target.value)}
-            className="w-full"
-          />
-          <p className="text-xs text-gray-400 mt-1">
-            K determines the position on the orbital curve
-          </p>
+          <div className="flex justify-between items-center mb-2">
+            <label className="text-sm font-medium text-gray-300">
+              {kMode === 'depeg' ? 'Depeg Tolerance' : 'K Value (Tick Parameter)'}
+            </label>
+            <button
+              type="button"
+              onClick={() => setKMode(kMode === 'depeg' ? 'manual' : 'depeg')}
+              className="text-xs text-orange-400 hover:text-orange-300"
+            >
+              {kMode === 'depeg' ? 'Enter raw k' : 'Use depeg price'}
+            </button>
+          </div>
+
+          {kMode === 'depeg' ? (
+            <>
+              <div className="flex gap-1 mb-2">
+                {DEPEG_PRESETS.map((preset) => (
+                  <Button
+                    key={preset}
+                    size="sm"
+                    variant={depegPrice === preset ? 'primary' : 'ghost'}
+                    onClick={() => setDepegPrice(preset)}
+                    className="flex-1"
+                  >
+                    ${preset}
+                  </Button>
+                ))}
+              </div>
+              <Input
+                type="text"
+                placeholder="Depeg price, e.g. 0.97"
+                value={depegPrice}
+                onChange={(e) => setDepegPrice(e.target.value)}
+                className="w-full"
+              />
+              <p className="text-xs text-gray-400 mt-1">
+                Your liquidity stays active until any coin trades below this price
+              </p>
+            </>
+          ) : (
+            <>
+              <Input
+                type="text"
+                placeholder="Enter k value (e.g., 1000000000000000000)"
+                value={kValue}
+                onChange={(e) => setKValue(e.target.value)}
+                className="w-full"
+              />
+              <p className="text-xs text-gray-400 mt-1">
+                K determines the position on the orbital curve
+              </p>
+            </>
+          )}
+
+          {tickGeometry && tickK !== null && (
+            <div className="mt-3 p-3 rounded-lg bg-black/20 border border-gray-700 space-y-1 text-xs">
+              <div className="flex justify-between">
+                <span className="text-gray-400">Plane constant k</span>
+                <span className="text-white font-mono">{parseFloat(formatTokenAmount(tickK, 18)).toFixed(6)}</span>
+              </div>
+              {tickGeometry.isValid ? (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Active until depeg to</span>
+                    <span className="text-white">${tickGeometry.depegPrice.toFixed(4)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="flex items-center gap-1 text-gray-400">
+                      <Target className="w-3 h-3" />
+                      Capital efficiency
+                    </span>
+                    <span className="text-orange-300 font-medium">{formatEfficiency(tickGeometry.efficiency)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Virtual reserves</span>
+                    <span className="text-white">{formatNumber(tickGeometry.virtualReserve, 2)} per token</span>
+                  </div>
+                  {Number.isFinite(tickGeometry.efficiency) && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Full-range equivalent</span>
+                      <span className="text-white">{formatCurrency(depositUsd * tickGeometry.efficiency)}</span>
+                    </div>
+                  )}
+                  <EfficiencyCurveChart
+                    maxTokenCount={TOKENS.length}
+                    activeTokenCount={TOKENS.length}
+                    highlightPrice={tickGeometry.depegPrice}
+                    height={160}
+                    className="pt-2"
+                  />
+                </>
+              ) : (
+                <p className="flex items-center gap-1 text-red-400">
+                  <AlertCircle className="w-3 h-3" />
+                  k must be between {parseFloat(formatTokenAmount(tickGeometry.bounds.lowerBound, 18)).toFixed(6)} and{' '}
+                  {parseFloat(formatTokenAmount(tickGeometry.bounds.upperBound, 18)).toFixed(6)} for this deposit
+                </p>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Token Amount Inputs */}
         <div className="space-y-4 mb-6">
           <h3 className="text-sm font-medium text-gray-300">Token Amounts</h3>
-          {TOKENS.map((token, index) => (
-            <div key={token.symbol} className="space-y-2">
-              <div className="flex justify-between items-center">
-                <div className="flex items-center gap-2">
-                  <div 
-                    className="w-6 h-6 rounded-full flex items-center justify-center text-white text-xs font-bold"
-                    style={{ backgroundColor: token.color }}
-                  >
-                    {token.symbol[0]}
+          <VirtualList
+            items={TOKENS}
+            itemHeight={TOKEN_ROW_HEIGHT}
+            maxHeight={TOKEN_LIST_MAX_HEIGHT}
+            getKey={(token) => token.address}
+            renderItem={(token, index) => (
+              <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <div className="flex items-center gap-2">
+                    <div 
+                      className="w-6 h-6 rounded-full flex items-center justify-center text-white text-xs font-bold"
+                      style={{ backgroundColor: token.color }}
+                    >
+                      {token.symbol[0]}
+                    </div>
+                    <span className="text-white font-medium">{token.symbol}</span>
                   </div>
-                  <span className="text-white font-medium">{token.symbol}</span>
+                  <span className="text-xs text-gray-400">
+                    Balance: {formatBalance(balances[index], token.decimals)}
+                  </span>
                 </div>
-                <span className="text-xs text-gray-400">
-                  Balance: {formatBalance(balances[index], token.decimals)}
-                </span>
-              </div>
-              
-              <div className="flex gap-2">
+                
                 <Input
                   type="text"
                   placeholder="0.0"
                   value={amounts[index]}
                   onChange={(e) => handleAmountChange(index, e.target.value)}
-                  className="flex-1"
+                  className="w-full"
                 />
-                {needsApproval[index] && amounts[index] && (
-                  <Button
-                    onClick={() => handleApprove(index)}
-                    disabled={isLoading}
-                    size="sm"
-                    variant="outline"
-                    className="whitespace-nowrap"
-                  >
-                    Approve
-                  </Button>
-                )}
               </div>
-            </div>
-          ))}
+            )}
+          />
         </div>
 
+        {/* Transaction Preview */}
+        {depositPreview && (
+          <div className="mb-4">
+            <TransactionPreview
+              title="Review Deposit"
+              simulation={depositPreview.simulation}
+              rows={[
+                ...depositPreview.approvals.map(index => ({
+                  label: `Approve ${TOKENS[index].symbol}`,
+                  value: 'Queued before deposit',
+                })),
+                ...TOKENS.flatMap((token, index) =>
+                  depositPreview.amounts[index] > BigInt(0)
+                    ? [{ label: token.symbol, value: formatTokenAmount(depositPreview.amounts[index], token.decimals) }]
+                    : []
+                ),
+              ]}
+              isSimulating={!depositPreview.simulation}
+              isSubmitting={isLoading}
+              onConfirm={handleConfirmAddLiquidity}
+              onCancel={() => setDepositPreview(null)}
+            />
+          </div>
+        )}
+
         {/* Add Liquidity Button */}
+        {isConnected && !isSupportedChain ? (
+          <Button onClick={switchToSupportedChain} className="w-full">
+            Switch to {network.name}
+          </Button>
+        ) : (
         <Button
           onClick={handleAddLiquidity}
-          disabled={!canAddLiquidity || isLoading}
+          disabled={!canAddLiquidity || isLoading || !!depositPreview}
           className="w-full bg-gradient-to-r from-orange-500 to-amber-500 hover:from-orange-600 hover:to-amber-600"
         >
           {isLoading ? (
@@ -249,10 +455,13 @@ export function LiquidityInterface() {
           ) : (
             <div className="flex items-center gap-2">
               <Plus className="w-4 h-4" />
-              Add Liquidity
+              {approvalCount > 0
+                ? `Review ${approvalCount} Approval${approvalCount === 1 ? '' : 's'} & Deposit`
+                : 'Review Deposit'}
             </div>
           )}
         </Button>
+        )}
 
         {/* Info Box */}
         <div className="mt-4 p-3 rounded-lg bg-orange-500/10 border border-orange-500/20">
@@ -261,9 +470,9 @@ export function LiquidityInterface() {
             <div className="text-xs text-orange-300">
               <p className="font-medium mb-1">How it works:</p>
               <ul className="space-y-1 text-orange-200">
-                <li>• Choose a K value for your liquidity position</li>
-                <li>• Enter amounts for tokens you want to provide</li>
-                <li>• Approve tokens that need permission</li>
+                <li>• Choose the depeg price your position should cover</li>
+                <li>• Enter an amount for every pool token</li>
+                <li>• Any approvals are sent first, one after another</li>
                 <li>• Add liquidity to earn fees from swaps</li>
               </ul>
             </div>
@@ -11,14 +11,16 @@ import {
   Sun, 
   Menu, 
   X,
-  ExternalLink
+  ExternalLink,
+  Wallet
 } from 'lucide-react'
 import { Button } from '@/components/ui/Button'
 import { WalletButton } from '@/components/ui/WalletButton'
+import { NetworkSelector } from '@/components/ui/NetworkSelector'
 
 interface NavigationProps {
-  activeTab: 'swap' | 'liquidity' | 'analytics'
-  onTabChange: (tab: 'swap' | 'liquidity' | 'analytics') => void
+  activeTab: 'swap' | 'liquidity' | 'portfolio' | 'analytics'
+  onTabChange: (tab: 'swap' | 'liquidity' | 'portfolio' | 'analytics') => void
   darkMode: boolean
   onDarkModeToggle: () => void
 }
@@ -29,6 +31,7 @@ export function Navigation({ activeTab, onTabChange, darkMode, onDarkModeToggle
   const tabs = [
     { id: 'swap' as const, label: 'Swap', icon: ArrowLeftRight },
     { id: 'liquidity' as const, label: 'Liquidity', icon: Droplets },
+    { id: 'portfolio' as const, label: 'Portfolio', icon: Wallet },
     { id: 'analytics' as const, label: 'Analytics', icon: BarChart3 },
   ]
 
@@ -134,6 +137,9 @@ export function Navigation({ activeTab, onTabChange, darkMode, onDarkModeToggle
             <Settings className="w-5 h-5" />
           </motion.button>
 
+          {/* Network */}
+          <NetworkSelector />
+
           {/* Wallet Connection */}
           <WalletButton />
         </div>
@@ -219,7 +225,8 @@ export function Navigation({ activeTab, onTabChange, darkMode, onDarkModeToggle
                 </div>
 
                 {/* Wallet Section */}
-                <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
+                <div className="border-t border-gray-200 dark:border-gray-700 pt-6 space-y-3">
+                  <NetworkSelector className="w-full" />
                   <WalletButton className="w-full" />
                 </div>
 
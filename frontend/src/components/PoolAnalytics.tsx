@@ -1,13 +1,19 @@
 'use client'
 
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect } from 'react'
 import { motion } from 'framer-motion'
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line } from 'recharts'
-import { TrendingUp, Activity, Droplets, Zap, Info } from 'lucide-react'
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line } from 'recharts'
+import { TrendingUp, TrendingDown, Activity, Droplets, Zap, Info } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
 import { Button } from '@/components/ui/Button'
 import { TOKENS, CHART_COLORS } from '@/lib/constants'
 import { formatNumber, formatCurrency } from '@/lib/utils'
+import { usePoolHistory } from '@/hooks/usePoolHistory'
+import { buildPoolSeries, getTokenMetrics, groupSmallEntries, toUsd, TIMEFRAME_BUCKETS, type PoolMetricsPoint } from '@/lib/pool-metrics'
+import { createEthersPoolClient } from '@/lib/orbital-pool-client-ethers'
+import { TickStatus } from '@/lib/orbital-math'
+import { analyzeContractTick, weightedEfficiency } from '@/lib/capital-efficiency'
+import { EfficiencyCurveChart } from '@/components/ui/EfficiencyCurveChart'
 
 interface PoolData {
   token: string
@@ -23,44 +29,142 @@ interface VolumeData {
   fees: number
 }
 
-interface EfficiencyData {
+interface TickGroupData {
   position: string
-  efficiency: number
+  ticks: number
   liquidity: number
-  apy: number
+  /** Whitepaper capital efficiency, weighted by tick value */
+  efficiency: number | null
+}
+
+const TIMEFRAMES = { '24h': '1D', '7d': '1W', '30d': '1M' } as const
+const MAX_CURVE_TOKENS = 10
+// Beyond this many tokens the smallest reserves share one "Other" slice
+const MAX_DISTRIBUTION_SLICES = 8
+// Rows past this index animate in together rather than one by one
+const MAX_STAGGERED_ROWS = 10
+
+function ChangeIndicator({ change, label, className }: { change: number | null; label: string; className: string }) {
+  if (change === null) {
+    return (
+      <div className="mt-3 flex items-center text-sm">
+        <span className={className}>No activity in the previous period</span>
+      </div>
+    )
+  }
+
+  const Icon = change >= 0 ? TrendingUp : TrendingDown
+  const color = change >= 0 ? 'text-green-400' : 'text-red-400'
+  return (
+    <div className="mt-3 flex items-center text-sm">
+      <Icon className={`w-4 h-4 ${color} mr-2`} />
+      <span className={`${color} font-semibold`}>{change >= 0 ? '+' : ''}{formatNumber(change, 1)}%</span>
+      <span className={`${className} ml-2`}>{label}</span>
+    </div>
+  )
+}
+
+function percentChange(current: number, previous: number): number | null {
+  return previous > 0 ? ((current - previous) / previous) * 100 : null
 }
 
 export function PoolAnalytics() {
   const [timeframe, setTimeframe] = useState<'24h' | '7d' | '30d'>('24h')
+  const [tickGroups, setTickGroups] = useState<TickGroupData[]>([])
+  const { records } = usePoolHistory()
 
-  // Mock data for demonstration
-  const poolData: PoolData[] = useMemo(() => [
-    { token: 'USDC', reserves: 1000000, volume24h: 125000, fees24h: 375, utilization: 85 },
-    { token: 'USDT', reserves: 950000, volume24h: 110000, fees24h: 330, utilization: 78 },
-    { token: 'DAI', reserves: 800000, volume24h: 95000, fees24h: 285, utilization: 72 },
-    { token: 'FRAX', reserves: 600000, volume24h: 75000, fees24h: 225, utilization: 65 },
-    { token: 'LUSD', reserves: 400000, volume24h: 50000, fees24h: 150, utilization: 58 },
-  ], [])
+  const { bucketSeconds, bucketCount } = TIMEFRAME_BUCKETS[TIMEFRAMES[timeframe]]
+
+  // Two windows of buckets: the previous one backs the "vs previous" comparisons
+  const series = useMemo(
+    () => buildPoolSeries(records, { bucketSeconds, bucketCount: bucketCount * 2 }),
+    [records, bucketSeconds, bucketCount]
+  )
 
-  const volumeData: VolumeData[] = useMemo(() => {
-    const hours = timeframe === '24h' ? 24 : timeframe === '7d' ? 168 : 720
-    return Array.from({ length: Math.min(hours, 24) }, (_, i) => ({
-      time: timeframe === '24h' ? `${i}:00` : `Day ${i + 1}`,
-      volume: Math.random() * 100000 + 50000,
-      fees: Math.random() * 300 + 100,
+  const currentWindow = series.slice(bucketCount)
+  const previousWindow = series.slice(0, bucketCount)
+  const windowStart = currentWindow[0]?.timestamp ?? 0
+
+  const poolData: PoolData[] = useMemo(() => {
+    return getTokenMetrics(records, windowStart).map(token => ({
+      token: token.symbol,
+      reserves: token.reserves,
+      volume24h: token.volume,
+      fees24h: token.fees,
+      utilization: token.reserves > 0 ? Math.min(100, Math.round((token.volume / token.reserves) * 100)) : 0,
     }))
-  }, [timeframe])
+  }, [records, windowStart])
+
+  const distribution: PoolData[] = useMemo(() => groupSmallEntries(
+    poolData,
+    MAX_DISTRIBUTION_SLICES,
+    token => token.reserves,
+    rest => ({
+      token: `Other (${rest.length})`,
+      reserves: rest.reduce((sum, token) => sum + token.reserves, 0),
+      volume24h: rest.reduce((sum, token) => sum + token.volume24h, 0),
+      fees24h: rest.reduce((sum, token) => sum + token.fees24h, 0),
+      utilization: 0,
+    })
+  ), [poolData])
+
+  const volumeData: VolumeData[] = currentWindow.map(point => ({
+    time: timeframe === '24h'
+      ? new Date(point.timestamp * 1000).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
+      : new Date(point.timestamp * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+    volume: point.volume,
+    fees: point.fees,
+  }))
 
-  const efficiencyData: EfficiencyData[] = useMemo(() => [
-    { position: 'Interior Ticks', efficiency: 2.8, liquidity: 2500000, apy: 14.2 },
-    { position: 'Boundary Ticks', efficiency: 4.5, liquidity: 1800000, apy: 22.8 },
-    { position: 'Mixed Positions', efficiency: 3.2, liquidity: 1200000, apy: 16.5 },
-  ], [])
+  // Current tick reserves and efficiency grouped by Interior/Boundary status
+  useEffect(() => {
+    let cancelled = false
+    const loadTickGroups = async () => {
+      try {
+        const client = createEthersPoolClient()
+        const ticks = await Promise.all(
+          (await client.getActiveTicks()).map(async k => {
+            const tick = await client.getTickInfo(k)
+            return {
+              status: tick.status,
+              value: tick.reserves.reduce((total, reserve, i) => total + toUsd(i, reserve), 0),
+              efficiency: analyzeContractTick(k, tick.r).efficiency,
+            }
+          })
+        )
+        const groups = [TickStatus.Interior, TickStatus.Boundary].map(status => {
+          const matching = ticks.filter(tick => tick.status === status)
+          return {
+            position: status === TickStatus.Interior ? 'Interior Ticks' : 'Boundary Ticks',
+            ticks: matching.length,
+            liquidity: matching.reduce((sum, tick) => sum + tick.value, 0),
+            efficiency: weightedEfficiency(matching.map(tick => ({ efficiency: tick.efficiency, weight: tick.value }))),
+          }
+        })
+        if (!cancelled) setTickGroups(groups)
+      } catch (error) {
+        console.error('Error loading tick info:', error)
+      }
+    }
+    loadTickGroups()
+    return () => {
+      cancelled = true
+    }
+  }, [records])
 
-  const totalLiquidity = poolData.reduce((sum, pool) => sum + pool.reserves, 0)
-  const total24hVolume = poolData.reduce((sum, pool) => sum + pool.volume24h, 0)
-  const total24hFees = poolData.reduce((sum, pool) => sum + pool.fees24h, 0)
-  const avgEfficiency = efficiencyData.reduce((sum, eff) => sum + eff.efficiency, 0) / efficiencyData.length
+  const sum = (points: PoolMetricsPoint[], key: 'volume' | 'fees') => points.reduce((total, point) => total + point[key], 0)
+  const totalLiquidity = currentWindow[currentWindow.length - 1]?.tvl ?? 0
+  const total24hVolume = sum(currentWindow, 'volume')
+  const total24hFees = sum(currentWindow, 'fees')
+  const changes = {
+    liquidity: percentChange(totalLiquidity, previousWindow[previousWindow.length - 1]?.tvl ?? 0),
+    volume: percentChange(total24hVolume, sum(previousWindow, 'volume')),
+    fees: percentChange(total24hFees, sum(previousWindow, 'fees')),
+  }
+  const totalTickLiquidity = tickGroups.reduce((total, group) => total + group.liquidity, 0)
+  const avgEfficiency = weightedEfficiency(
+    tickGroups.flatMap(group => (group.efficiency !== null ? [{ efficiency: group.efficiency, weight: group.liquidity }] : []))
+  )
 
   return (
     <div className="space-y-6">
@@ -84,11 +188,7 @@ export function PoolAnalytics() {
               <Droplets className="w-6 h-6 text-blue-400" />
             </motion.div>
           </div>
-          <div className="mt-3 flex items-center text-sm">
-            <TrendingUp className="w-4 h-4 text-green-400 mr-2" />
-            <span className="text-green-400 font-semibold">+5.2%</span>
-            <span className="text-blue-300/50 ml-2">vs yesterday</span>
-          </div>
+          <ChangeIndicator change={changes.liquidity} label={`vs previous ${timeframe}`} className="text-blue-300/50" />
         </motion.div>
 
         <motion.div
@@ -99,7 +199,7 @@ export function PoolAnalytics() {
         >
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-green-300/70">24h Volume</p>
+              <p className="text-sm font-medium text-green-300/70">{timeframe} Volume</p>
               <p className="text-2xl font-bold text-green-400">{formatCurrency(total24hVolume)}</p>
             </div>
             <motion.div
@@ -110,11 +210,7 @@ export function PoolAnalytics() {
               <Activity className="w-6 h-6 text-green-400" />
             </motion.div>
           </div>
-          <div className="mt-3 flex items-center text-sm">
-            <TrendingUp className="w-4 h-4 text-green-400 mr-2" />
-            <span className="text-green-400 font-semibold">+12.8%</span>
-            <span className="text-green-300/50 ml-2">vs yesterday</span>
-          </div>
+          <ChangeIndicator change={changes.volume} label={`vs previous ${timeframe}`} className="text-green-300/50" />
         </motion.div>
 
         <motion.div
@@ -125,7 +221,7 @@ export function PoolAnalytics() {
         >
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-purple-300/70">24h Fees</p>
+              <p className="text-sm font-medium text-purple-300/70">{timeframe} Fees</p>
               <p className="text-2xl font-bold text-purple-400">{formatCurrency(total24hFees)}</p>
             </div>
             <motion.div
@@ -139,11 +235,7 @@ export function PoolAnalytics() {
               <Zap className="w-6 h-6 text-purple-400" />
             </motion.div>
           </div>
-          <div className="mt-3 flex items-center text-sm">
-            <TrendingUp className="w-4 h-4 text-green-400 mr-2" />
-            <span className="text-green-400 font-semibold">+8.4%</span>
-            <span className="text-purple-300/50 ml-2">vs yesterday</span>
-          </div>
+          <ChangeIndicator change={changes.fees} label={`vs previous ${timeframe}`} className="text-purple-300/50" />
         </motion.div>
 
         <motion.div
@@ -155,7 +247,9 @@ export function PoolAnalytics() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-orange-300/70">Avg Efficiency</p>
-              <p className="text-2xl font-bold text-orange-400">{formatNumber(avgEfficiency, 1)}x</p>
+              <p className="text-2xl font-bold text-orange-400">
+                {avgEfficiency !== null ? `${formatNumber(avgEfficiency, 2)}x` : '—'}
+              </p>
             </div>
             <motion.div
               animate={{ 
@@ -170,7 +264,7 @@ export function PoolAnalytics() {
           </div>
           <div className="mt-3 flex items-center text-sm">
             <Info className="w-4 h-4 text-orange-400 mr-2" />
-            <span className="text-orange-300/70">Capital efficiency</span>
+            <span className="text-orange-300/70">vs full-range liquidity, across active ticks</span>
           </div>
         </motion.div>
       </div>
@@ -278,7 +372,7 @@ export function PoolAnalytics() {
               <ResponsiveContainer width="100%" height="100%">
                 <PieChart>
                   <Pie
-                    data={poolData}
+                    data={distribution}
                     cx="50%"
                     cy="50%"
                     innerRadius={60}
@@ -286,7 +380,7 @@ export function PoolAnalytics() {
                     paddingAngle={5}
                     dataKey="reserves"
                   >
-                    {poolData.map((entry, index) => (
+                    {distribution.map((entry, index) => (
                       <Cell key={`cell-${index}`} fill={CHART_COLORS[index % CHART_COLORS.length]} />
                     ))}
                   </Pie>
@@ -297,7 +391,7 @@ export function PoolAnalytics() {
               </ResponsiveContainer>
             </div>
             <div className="mt-6 space-y-3">
-              {poolData.map((token, index) => (
+              {distribution.map((token, index) => (
                 <motion.div 
                   key={token.token} 
                   initial={{ opacity: 0, x: -10 }}
@@ -342,43 +436,12 @@ export function PoolAnalytics() {
             Capital Efficiency
           </h3>
           <div className="chart-container">
-            <div className="h-64">
-              <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={efficiencyData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
-                  <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
-                  <XAxis 
-                    dataKey="position" 
-                    className="text-xs"
-                    tick={{ fontSize: 10 }}
-                    angle={-45}
-                    textAnchor="end"
-                    height={60}
-                  />
-                  <YAxis 
-                    className="text-xs"
-                    tick={{ fontSize: 12 }}
-                  />
-                  <Tooltip
-                    contentStyle={{
-                      backgroundColor: 'rgba(255, 255, 255, 0.95)',
-                      border: '1px solid #e5e7eb',
-                      borderRadius: '8px',
-                      fontSize: '12px'
-                    }}
-                    formatter={(value: number, name: string) => [
-                      name === 'efficiency' ? `${formatNumber(value, 1)}x` : 
-                      name === 'liquidity' ? formatCurrency(value) :
-                      `${formatNumber(value, 1)}%`,
-                      name === 'efficiency' ? 'Efficiency' :
-                      name === 'liquidity' ? 'Liquidity' : 'APY'
-                    ]}
-                  />
-                  <Bar dataKey="efficiency" fill="#f59e0b" radius={[4, 4, 0, 0]} />
-                </BarChart>
-              </ResponsiveContainer>
-            </div>
+            <EfficiencyCurveChart maxTokenCount={MAX_CURVE_TOKENS} activeTokenCount={TOKENS.length} height={256} />
+            <p className="text-xs text-orange-400/70 mt-2">
+              Efficiency vs full-range liquidity for a tick covering each depeg price, n = 2..{MAX_CURVE_TOKENS} assets
+            </p>
             <div className="mt-6 space-y-3">
-              {efficiencyData.map((item, index) => (
+              {tickGroups.map((item, index) => (
                 <motion.div
                   key={item.position}
                   initial={{ opacity: 0, x: -20 }}
@@ -394,11 +457,14 @@ export function PoolAnalytics() {
                   </div>
                   <div className="text-right">
                     <div className="font-bold text-orange-300">
-                      {formatNumber(item.efficiency, 1)}x
+                      {item.ticks} {item.ticks === 1 ? 'tick' : 'ticks'}
                     </div>
                     <div className="text-xs text-green-400 font-semibold">
-                      {formatNumber(item.apy, 1)}% APY
+                      {formatNumber(totalTickLiquidity > 0 ? (item.liquidity / totalTickLiquidity) * 100 : 0, 1)}% of liquidity
                     </div>
+                    {item.efficiency !== null && (
+                      <div className="text-xs text-orange-400/70">{formatNumber(item.efficiency, 2)}x efficiency</div>
+                    )}
                   </div>
                 </motion.div>
               ))}
@@ -431,8 +497,8 @@ export function PoolAnalytics() {
               <tr className="border-b border-orange-500/20">
                 <th className="text-left py-4 px-3 font-semibold text-orange-300">Token</th>
                 <th className="text-right py-4 px-3 font-semibold text-orange-300">Reserves</th>
-                <th className="text-right py-4 px-3 font-semibold text-orange-300">24h Volume</th>
-                <th className="text-right py-4 px-3 font-semibold text-orange-300">24h Fees</th>
+                <th className="text-right py-4 px-3 font-semibold text-orange-300">{timeframe} Volume</th>
+                <th className="text-right py-4 px-3 font-semibold text-orange-300">{timeframe} Fees</th>
                 <th className="text-right py-4 px-3 font-semibold text-orange-300">Utilization</th>
               </tr>
             </thead>
@@ -442,7 +508,7 @@ export function PoolAnalytics() {
                     key={token.token}
                     initial={{ opacity: 0, y: 10 }}
                     animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: index * 0.05 }}
+                    transition={{ delay: Math.min(index, MAX_STAGGERED_ROWS) * 0.05 }}
                     className="border-b border-orange-500/10 hover:bg-gradient-to-r hover:from-orange-500/5 hover:to-amber-500/5 transition-colors"
                   >
                     <td className="py-4 px-3">
@@ -475,7 +541,7 @@ export function PoolAnalytics() {
                             style={{ width: `${token.utilization}%` }}
                             initial={{ width: 0 }}
                             animate={{ width: `${token.utilization}%` }}
-                            transition={{ duration: 1, delay: index * 0.1 }}
+                            transition={{ duration: 1, delay: Math.min(index, MAX_STAGGERED_ROWS) * 0.1 }}
                           />
                         </div>
                         <span className="text-xs font-semibold w-10 text-orange-300">
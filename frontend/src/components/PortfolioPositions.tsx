@@ -0,0 +1,201 @@
+/**
+ * Orbital AMM - Portfolio Positions
+ *
+ * Every tick where the connected wallet holds LP shares, with its pro-rata
+ * reserves, accrued fees, tick status and current value.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+'use client';
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Wallet, RefreshCw, Info, AlertCircle, Droplets, Coins, Minus } from 'lucide-react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { RemoveLiquidityPanel } from '@/components/RemoveLiquidityPanel';
+import { VirtualList } from '@/components/ui/VirtualList';
+import { TOKENS } from '@/lib/constants';
+import { TickStatus } from '@/lib/orbital-math';
+import { formatTokenAmount } from '@/hooks/useOrbitalAMMEthers';
+import { usePortfolio } from '@/hooks/usePortfolio';
+import { useWallet } from '@/hooks/useWallet';
+import { formatCurrency } from '@/lib/utils';
+
+// Per-token reserve lines in a position row scroll past a handful of tokens
+const RESERVE_LINE_HEIGHT = 20;
+const RESERVE_CELL_MAX_HEIGHT = 120;
+
+export function PortfolioPositions() {
+  const { positions, totalUsdValue, totalAccruedFeesUsd, hasAccount, isWatching, isLoading, error, refresh } = usePortfolio();
+  const { isSupportedChain, network } = useWallet();
+  const [withdrawingTick, setWithdrawingTick] = useState<bigint | null>(null);
+
+  if (!hasAccount) {
+    return (
+      <Card className="glass-morphism-dark border border-orange-500/20 p-8 text-center">
+        <Wallet className="w-10 h-10 mx-auto mb-3 text-orange-400 opacity-70" />
+        <p className="text-white font-medium">Connect your wallet</p>
+        <p className="text-sm text-gray-400">Your liquidity positions will appear here</p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-white">{isWatching ? 'Watched Positions' : 'Your Positions'}</h2>
+          <p className="text-gray-400">
+            {isWatching
+              ? 'LP shares across every tick the watched address has provided liquidity to'
+              : 'LP shares across every tick you have provided liquidity to'}
+          </p>
+        </div>
+        <Button
+          onClick={refresh}
+          disabled={isLoading}
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/20 flex items-center gap-2 text-red-400 text-sm">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+          <Card className="glass-morphism-dark border border-orange-500/20 p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-400">Position Value</p>
+                <p className="text-2xl font-bold text-white">{formatCurrency(totalUsdValue)}</p>
+              </div>
+              <Droplets className="w-8 h-8 text-orange-400" />
+            </div>
+          </Card>
+        </motion.div>
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 }}>
+          <Card className="glass-morphism-dark border border-orange-500/20 p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-400">Accrued Fees</p>
+                <p className="text-2xl font-bold text-white">{formatCurrency(totalAccruedFeesUsd)}</p>
+              </div>
+              <Coins className="w-8 h-8 text-green-400" />
+            </div>
+          </Card>
+        </motion.div>
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.2 }}>
+          <Card className="glass-morphism-dark border border-orange-500/20 p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-400">Positions</p>
+                <p className="text-2xl font-bold text-white">{positions.length}</p>
+              </div>
+              <Wallet className="w-8 h-8 text-blue-400" />
+            </div>
+          </Card>
+        </motion.div>
+      </div>
+
+      {/* Positions */}
+      <Card className="glass-morphism-dark border border-orange-500/20 p-6">
+        {positions.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left text-gray-300 py-2">Tick K</th>
+                  <th className="text-left text-gray-300 py-2">Status</th>
+                  <th className="text-right text-gray-300 py-2">Share of Tick</th>
+                  <th className="text-right text-gray-300 py-2">Reserves</th>
+                  <th className="text-right text-gray-300 py-2">Accrued Fees</th>
+                  <th className="text-right text-gray-300 py-2">Value</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {positions.map((position) => (
+                  <React.Fragment key={position.k.toString()}>
+                    <tr className="border-b border-gray-800 align-top">
+                      <td className="py-3 text-white font-mono">
+                        {formatTokenAmount(position.k, 18)}
+                        {!position.isActive && (
+                          <div className="text-xs text-amber-400 font-sans">No longer active</div>
+                        )}
+                      </td>
+                      <td className="py-3">
+                        <span className={`px-2 py-1 rounded text-xs ${
+                          position.status === TickStatus.Interior
+                            ? 'bg-blue-500/20 text-blue-400'
+                            : 'bg-purple-500/20 text-purple-400'
+                        }`}>
+                          {position.status === TickStatus.Interior ? 'Interior' : 'Boundary'}
+                        </span>
+                      </td>
+                      <td className="py-3 text-right text-gray-300">{position.sharePercent.toFixed(4)}%</td>
+                      <td className="py-3 text-right text-gray-300">
+                        <VirtualList
+                          items={TOKENS}
+                          itemHeight={RESERVE_LINE_HEIGHT}
+                          maxHeight={RESERVE_CELL_MAX_HEIGHT}
+                          getKey={(token) => token.symbol}
+                          renderItem={(token, index) => (
+                            <>
+                              {parseFloat(formatTokenAmount(position.reserves[index], token.decimals)).toFixed(2)} {token.symbol}
+                            </>
+                          )}
+                        />
+                      </td>
+                      <td className="py-3 text-right text-green-400">
+                        {parseFloat(formatTokenAmount(position.accruedFees, 18)).toFixed(4)}
+                      </td>
+                      <td className="py-3 text-right text-white font-medium">{formatCurrency(position.usdValue)}</td>
+                      <td className="py-3 pl-4 text-right">
+                        <Button
+                          size="sm"
+                          variant={withdrawingTick === position.k ? 'secondary' : 'outline'}
+                          onClick={() => setWithdrawingTick(withdrawingTick === position.k ? null : position.k)}
+                          disabled={isWatching || !isSupportedChain}
+                          title={!isWatching && !isSupportedChain ? `Switch your wallet to ${network.name} to withdraw` : undefined}
+                          icon={<Minus className="w-3 h-3" />}
+                        >
+                          {withdrawingTick === position.k ? 'Close' : 'Withdraw'}
+                        </Button>
+                      </td>
+                    </tr>
+                    {withdrawingTick === position.k && (
+                      <tr className="border-b border-gray-800">
+                        <td colSpan={7} className="py-4">
+                          <RemoveLiquidityPanel k={position.k} lpShares={position.lpShares} onRemoved={refresh} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-gray-400 text-center py-8">
+            <Info className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p>{isLoading ? 'Loading positions...' : 'No liquidity positions found'}</p>
+            {!isLoading && <p className="text-sm">Add liquidity to see your positions here</p>}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
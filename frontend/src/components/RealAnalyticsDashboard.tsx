@@ -26,6 +26,8 @@ import {
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { TOKENS } from '@/lib/constants';
+import { groupSmallEntries } from '@/lib/pool-metrics';
+import type { PoolTokenAmounts } from '@/lib/orbital-pool-client';
 import { useOrbitalAMMEthers, formatTokenAmount } from '@/hooks/useOrbitalAMMEthers';
 import { useWallet } from '@/hooks/useWallet';
 
@@ -33,7 +35,7 @@ interface TickData {
   k: bigint;
   r: bigint;
   liquidity: bigint;
-  reserves: readonly [bigint, bigint, bigint, bigint, bigint];
+  reserves: PoolTokenAmounts;
   totalLpShares: bigint;
   status: number; // 0 = Interior, 1 = Boundary
 }
@@ -44,14 +46,19 @@ interface TokenReserves {
   reserves: bigint;
   percentage: number;
   usdValue: number; // Assuming 1:1 USD peg for stablecoins
+  color: string;
 }
 
+// Beyond this many tokens the smallest reserves are shown as one "Other" entry
+const MAX_DISTRIBUTION_ENTRIES = 10;
+
 export function RealAnalyticsDashboard() {
-  const { isConnected, address } = useWallet();
+  const { address, isWatching } = useWallet();
   const {
     activeTicks,
-    getTickInfo,
+    tickInfo,
     getUserLpShares,
+    loadContractData,
     totalReserves,
     swapFee,
     isLoading,
@@ -66,37 +73,30 @@ export function RealAnalyticsDashboard() {
 
   // Load real analytics data
   const loadAnalyticsData = async () => {
-    if (!activeTicks || activeTicks.length === 0) return;
+    if (!activeTicks || !tickInfo || activeTicks.length === 0) return;
 
     try {
       setIsLoadingAnalytics(true);
 
-      // Load tick data for all active ticks
-      const tickDataPromises = activeTicks.map(async (k) => {
-        const tickInfo = await getTickInfo(k);
-        if (!tickInfo) return null;
-        
-        return {
+      // Tick info arrives with the live pool state; only the user's shares are read here
+      setTicksData(
+        activeTicks.map((k, index) => ({
           k,
-          r: tickInfo.r,
-          liquidity: tickInfo.liquidity,
-          reserves: tickInfo.reserves,
-          totalLpShares: tickInfo.totalLpShares,
-          status: tickInfo.status
-        };
-      });
-
-      const tickData = (await Promise.all(tickDataPromises)).filter(Boolean) as TickData[];
-      setTicksData(tickData);
-
-      // Load user positions if connected
-      if (isConnected && address) {
-        const userPositionPromises = activeTicks.map(async (k) => {
-          const shares = await getUserLpShares(k);
-          return { k, shares: shares || BigInt(0) };
-        });
-
-        const positions = await Promise.all(userPositionPromises);
+          r: tickInfo[index].r,
+          liquidity: tickInfo[index].liquidity,
+          reserves: tickInfo[index].reserves,
+          totalLpShares: tickInfo[index].totalLpShares,
+          status: tickInfo[index].status
+        }))
+      );
+
+      if (address) {
+        const positions = await Promise.all(
+          activeTicks.map(async (k) => {
+            const shares = await getUserLpShares(k);
+            return { k, shares: shares || BigInt(0) };
+          })
+        );
         setUserPositions(positions.filter(p => p.shares > 0));
       }
 
@@ -108,10 +108,16 @@ export function RealAnalyticsDashboard() {
     }
   };
 
+  // Pool state refreshes itself; the button also re-reads it now and reloads the user's positions
+  const handleRefresh = async () => {
+    await loadContractData();
+    await loadAnalyticsData();
+  };
+
   // Load data on mount and when dependencies change
   useEffect(() => {
     loadAnalyticsData();
-  }, [activeTicks, isConnected, address]);
+  }, [activeTicks, tickInfo, address]);
 
   // Calculate total value locked
   const totalValueLocked = useMemo(() => {
@@ -133,7 +139,7 @@ export function RealAnalyticsDashboard() {
 
     const totalUSD = totalValueLocked;
     
-    return TOKENS.map((token, index) => {
+    const entries = TOKENS.map((token, index) => {
       const reserves = totalReserves[index];
       const tokenAmount = parseFloat(formatTokenAmount(reserves, token.decimals));
       const usdValue = tokenAmount; // 1:1 USD assumption
@@ -144,9 +150,19 @@ export function RealAnalyticsDashboard() {
         address: token.address,
         reserves,
         percentage,
-        usdValue
+        usdValue,
+        color: token.color
       };
     });
+
+    return groupSmallEntries(entries, MAX_DISTRIBUTION_ENTRIES, token => token.usdValue, rest => ({
+      symbol: `Other (${rest.length})`,
+      address: '',
+      reserves: rest.reduce((sum, token) => sum + token.reserves, BigInt(0)),
+      percentage: rest.reduce((sum, token) => sum + token.percentage, 0),
+      usdValue: rest.reduce((sum, token) => sum + token.usdValue, 0),
+      color: '#6b7280'
+    }));
   }, [totalReserves, totalValueLocked]);
 
   // Calculate analytics metrics
@@ -201,7 +217,7 @@ export function RealAnalyticsDashboard() {
             </span>
           )}
           <Button
-            onClick={loadAnalyticsData}
+            onClick={handleRefresh}
             disabled={isLoadingAnalytics}
             size="sm"
             variant="outline"
@@ -302,12 +318,12 @@ export function RealAnalyticsDashboard() {
           Token Distribution
         </h3>
         <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
-          {tokenDistribution.map((token, index) => (
+          {tokenDistribution.map((token) => (
             <div key={token.symbol} className="space-y-2">
               <div className="flex items-center gap-2">
                 <div 
                   className="w-4 h-4 rounded-full"
-                  style={{ backgroundColor: TOKENS[index].color }}
+                  style={{ backgroundColor: token.color }}
                 />
                 <span className="text-white font-medium">{token.symbol}</span>
               </div>
@@ -320,7 +336,7 @@ export function RealAnalyticsDashboard() {
                   className="h-2 rounded-full transition-all duration-1000"
                   style={{ 
                     width: `${token.percentage}%`,
-                    backgroundColor: TOKENS[index].color 
+                    backgroundColor: token.color 
                   }}
                 />
               </div>
@@ -329,12 +345,12 @@ export function RealAnalyticsDashboard() {
         </div>
       </Card>
 
-      {/* User Positions (if connected) */}
-      {isConnected && (
+      {/* User Positions (if connected or watching) */}
+      {address && (
         <Card className="glass-morphism-dark border border-orange-500/20 p-6">
           <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
             <Users className="w-5 h-5 text-blue-400" />
-            Your Positions
+            {isWatching ? 'Watched Positions' : 'Your Positions'}
           </h3>
           {userPositions.length > 0 ? (
             <div className="space-y-3">
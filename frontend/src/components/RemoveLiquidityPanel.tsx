@@ -0,0 +1,236 @@
+/**
+ * Orbital AMM - Remove Liquidity Panel
+ *
+ * Partial or full withdrawal from a tick: pick a percentage or exact share
+ * amount, preview the tokens returned and sign with slippage-protected
+ * `minAmountsOut`.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Minus, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { TransactionPreview } from '@/components/ui/TransactionPreview';
+import { VirtualList } from '@/components/ui/VirtualList';
+import { TOKENS } from '@/lib/constants';
+import { useOrbitalAMMEthers, parseTokenAmount, formatTokenAmount } from '@/hooks/useOrbitalAMMEthers';
+import { ContractActionError, formatContractError } from '@/lib/contract-errors';
+import { quoteRemoval, sharesForPercent, type RemovalQuote } from '@/lib/portfolio';
+import type { PoolTokenAmounts, TickInfo, TransactionSimulation } from '@/lib/orbital-pool-client';
+import toast from 'react-hot-toast';
+
+interface RemoveLiquidityPanelProps {
+  k: bigint;
+  /** Shares the connected account holds in the tick */
+  lpShares: bigint;
+  /** Called after a withdrawal, or when the position turns out to have changed */
+  onRemoved?: () => void;
+}
+
+const PERCENT_PRESETS = [25, 50, 75, 100];
+const SLIPPAGE_PRESETS = [0.1, 0.5, 1];
+// LP shares are issued in radius units, which carry 18 decimals like the pool tokens
+const SHARE_DECIMALS = 18;
+const OUTPUT_ROW_HEIGHT = 24;
+const OUTPUT_LIST_MAX_HEIGHT = 240;
+
+export function RemoveLiquidityPanel({ k, lpShares, onRemoved }: RemoveLiquidityPanelProps) {
+  const { getTickInfo, removeLiquidity, simulateRemoveLiquidity, isLoading } = useOrbitalAMMEthers();
+
+  const [tickInfo, setTickInfo] = useState<TickInfo | null>(null);
+  const [percent, setPercent] = useState(100);
+  const [exactShares, setExactShares] = useState('');
+  const [slippage, setSlippage] = useState(0.5); // 0.5%
+  const [preview, setPreview] = useState<{
+    quote: RemovalQuote;
+    simulation: TransactionSimulation<PoolTokenAmounts> | null;
+  } | null>(null);
+
+  useEffect(() => {
+    getTickInfo(k).then(setTickInfo);
+  }, [k, lpShares, getTickInfo]);
+
+  // Exact share input takes precedence over the percentage slider
+  const lpSharesToRemove = useMemo(() => {
+    if (!exactShares) return sharesForPercent(lpShares, percent);
+    try {
+      return parseTokenAmount(exactShares, SHARE_DECIMALS);
+    } catch {
+      return BigInt(0);
+    }
+  }, [exactShares, percent, lpShares]);
+
+  const exceedsBalance = lpSharesToRemove > lpShares;
+
+  const quote = useMemo(
+    () => (tickInfo ? quoteRemoval(tickInfo, lpSharesToRemove, slippage) : null),
+    [tickInfo, lpSharesToRemove, slippage]
+  );
+
+  // Inputs changed: the previous simulation no longer applies
+  useEffect(() => {
+    setPreview(null);
+  }, [lpSharesToRemove, slippage]);
+
+  const handleReview = async () => {
+    if (!quote || exceedsBalance || lpSharesToRemove === BigInt(0)) return;
+
+    setPreview({ quote, simulation: null });
+    const simulation = await simulateRemoveLiquidity(k, quote.lpSharesToRemove, quote.minAmountsOut);
+    setPreview(current => (current ? { ...current, simulation } : current));
+
+    // Shares moved since the position was loaded; let the parent reload it
+    if (simulation && !simulation.ok && simulation.error.name === 'InsufficientLpShares') {
+      onRemoved?.();
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!preview?.simulation?.ok) return;
+
+    try {
+      await removeLiquidity(k, preview.quote.lpSharesToRemove, preview.quote.minAmountsOut);
+      toast.success('Liquidity removed successfully!');
+      setExactShares('');
+      onRemoved?.();
+    } catch (error) {
+      console.error('Remove liquidity error:', error);
+      toast.error(`Failed to remove liquidity: ${formatContractError(error)}`);
+      if (error instanceof ContractActionError && error.details.name === 'InsufficientLpShares') {
+        onRemoved?.();
+      }
+    } finally {
+      setPreview(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Amount */}
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <span className="text-sm text-gray-300">Amount to remove</span>
+          <span className="text-xs text-gray-400">
+            Your shares: {formatTokenAmount(lpShares, SHARE_DECIMALS)}
+          </span>
+        </div>
+        <input
+          type="range"
+          min={1}
+          max={100}
+          value={exactShares ? 0 : percent}
+          onChange={(e) => {
+            setExactShares('');
+            setPercent(Number(e.target.value));
+          }}
+          className="w-full accent-orange-500"
+        />
+        <div className="flex gap-2 mt-2">
+          {PERCENT_PRESETS.map((preset) => (
+            <Button
+              key={preset}
+              size="sm"
+              variant={!exactShares && percent === preset ? 'primary' : 'outline'}
+              onClick={() => {
+                setExactShares('');
+                setPercent(preset);
+              }}
+              className="flex-1"
+            >
+              {preset === 100 ? 'Max' : `${preset}%`}
+            </Button>
+          ))}
+        </div>
+        <Input
+          type="text"
+          placeholder={`Exact shares (${formatTokenAmount(sharesForPercent(lpShares, percent), SHARE_DECIMALS)})`}
+          value={exactShares}
+          onChange={(e) => setExactShares(e.target.value)}
+          className="w-full mt-2"
+        />
+        {exceedsBalance && (
+          <p className="flex items-center gap-1 text-xs text-red-400 mt-1">
+            <AlertCircle className="w-3 h-3" />
+            Not enough LP shares: you can remove at most {formatTokenAmount(lpShares, SHARE_DECIMALS)}
+          </p>
+        )}
+      </div>
+
+      {/* Slippage Tolerance */}
+      <div className="flex justify-between items-center">
+        <span className="text-sm text-gray-300">Slippage tolerance</span>
+        <div className="flex gap-1">
+          {SLIPPAGE_PRESETS.map((preset) => (
+            <Button
+              key={preset}
+              size="sm"
+              variant={slippage === preset ? 'primary' : 'ghost'}
+              onClick={() => setSlippage(preset)}
+            >
+              {preset}%
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Expected Output */}
+      {quote && !exceedsBalance && (
+        <div className="p-3 rounded-lg bg-black/20 border border-gray-700 space-y-1 text-sm">
+          <div className="flex justify-between text-xs text-gray-400 mb-1">
+            <span>You receive</span>
+            <span>Minimum</span>
+          </div>
+          <VirtualList
+            items={TOKENS}
+            itemHeight={OUTPUT_ROW_HEIGHT}
+            maxHeight={OUTPUT_LIST_MAX_HEIGHT}
+            getKey={(token) => token.symbol}
+            renderItem={(token, index) => (
+              <div className="flex justify-between">
+                <span className="text-gray-300">
+                  {parseFloat(formatTokenAmount(quote.amountsOut[index], token.decimals)).toFixed(4)} {token.symbol}
+                </span>
+                <span className="text-gray-500">
+                  {parseFloat(formatTokenAmount(quote.minAmountsOut[index], token.decimals)).toFixed(4)}
+                </span>
+              </div>
+            )}
+          />
+        </div>
+      )}
+
+      {/* Transaction Preview */}
+      {preview && (
+        <TransactionPreview
+          title="Review Withdrawal"
+          simulation={preview.simulation}
+          rows={TOKENS.map((token, index) => ({
+            label: token.symbol,
+            value: formatTokenAmount(
+              preview.simulation?.ok ? preview.simulation.result[index] : preview.quote.amountsOut[index],
+              token.decimals
+            ),
+          }))}
+          isSimulating={!preview.simulation}
+          isSubmitting={isLoading}
+          onConfirm={handleConfirm}
+          onCancel={() => setPreview(null)}
+        />
+      )}
+
+      <Button
+        variant="danger"
+        onClick={handleReview}
+        disabled={!quote || exceedsBalance || lpSharesToRemove === BigInt(0) || isLoading || !!preview}
+        className="w-full"
+        icon={<Minus className="w-4 h-4" />}
+      >
+        Review Withdrawal
+      </Button>
+    </div>
+  );
+}
@@ -14,20 +14,30 @@ import { Droplets, Plus, AlertCircle, Info } from 'lucide-react';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { ContractErrorMessage } from '@/components/ui/ContractErrorMessage';
+import { TransactionPreview } from '@/components/ui/TransactionPreview';
+import { VirtualList } from '@/components/ui/VirtualList';
 import { TOKENS } from '@/lib/constants';
 import { useOrbitalAMMEthers, parseTokenAmount, formatTokenAmount } from '@/hooks/useOrbitalAMMEthers';
 import { useWallet } from '@/hooks/useWallet';
+import { formatContractError } from '@/lib/contract-errors';
+import type { PoolTokenAmounts, TransactionSimulation } from '@/lib/orbital-pool-client';
 import toast from 'react-hot-toast';
 
+const TOKEN_ROW_HEIGHT = 96;
+const TOKEN_LIST_MAX_HEIGHT = 480;
+
 export function LiquidityInterface() {
-  const { isConnected } = useWallet();
+  const { address, isConnected } = useWallet();
   const {
     addLiquidity,
+    simulateAddLiquidity,
     getTokenBalance,
     getTokenAllowance,
     approveToken,
     isLoading,
     error,
+    errorDetails,
     clearError,
     isConfirmed,
     clearTransaction
@@ -35,13 +45,20 @@ export function LiquidityInterface() {
 
   // Form state
   const [kValue, setKValue] = useState('');
-  const [amounts, setAmounts] = useState(['', '', '', '', '']);
-  const [balances, setBalances] = useState<(bigint | null)[]>([null, null, null, null, null]);
-  const [allowances, setAllowances] = useState<(bigint | null)[]>([null, null, null, null, null]);
+  const [amounts, setAmounts] = useState<string[]>(() => TOKENS.map(() => ''));
+  const [balances, setBalances] = useState<(bigint | null)[]>(() => TOKENS.map(() => null));
+  const [allowances, setAllowances] = useState<(bigint | null)[]>(() => TOKENS.map(() => null));
+
+  // Pre-flight simulation shown before the deposit is signed
+  const [depositPreview, setDepositPreview] = useState<{
+    k: bigint;
+    amounts: PoolTokenAmounts;
+    simulation: TransactionSimulation<null> | null;
+  } | null>(null);
 
-  // Load balances and allowances
+  // Load balances and allowances (of the watched account in watch mode)
   useEffect(() => {
-    if (!isConnected) return;
+    if (!address) return;
 
     const loadData = async () => {
       try {
@@ -61,7 +78,7 @@ export function LiquidityInterface() {
     };
 
     loadData();
-  }, [isConnected, getTokenBalance, getTokenAllowance, isConfirmed]);
+  }, [address, getTokenBalance, getTokenAllowance, isConfirmed]);
 
   // Check which tokens need approval
   const needsApproval = useMemo(() => {
@@ -106,43 +123,58 @@ export function LiquidityInterface() {
       const amount = parseTokenAmount(amounts[tokenIndex], TOKENS[tokenIndex].decimals);
       await approveToken(TOKENS[tokenIndex].address, amount);
       toast.success(`${TOKENS[tokenIndex].symbol} approved successfully!`);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Approval error:', error);
-      toast.error(`Approval failed: ${error.message}`);
+      toast.error(`Approval failed: ${formatContractError(error)}`);
     }
   };
 
   const handleAddLiquidity = async () => {
     if (!canAddLiquidity || !kValue) return;
 
-    try {
-      clearError();
-      
-      // Convert amounts to bigint array
-      const amountsBigInt: [bigint, bigint, bigint, bigint, bigint] = amounts.map((amount, index) => 
-        amount ? parseTokenAmount(amount, TOKENS[index].decimals) : BigInt(0)
-      ) as [bigint, bigint, bigint, bigint, bigint];
+    clearError();
+    
+    // Convert amounts to bigint array
+    const amountsBigInt: PoolTokenAmounts = amounts.map((amount, index) =>
+      amount ? parseTokenAmount(amount, TOKENS[index].decimals) : BigInt(0)
+    );
+
+    const kBigInt = BigInt(kValue);
 
-      const kBigInt = BigInt(kValue);
+    setDepositPreview({ k: kBigInt, amounts: amountsBigInt, simulation: null });
+    const simulation = await simulateAddLiquidity(kBigInt, amountsBigInt);
+    setDepositPreview(preview => (preview ? { ...preview, simulation } : preview));
+  };
 
+  const handleConfirmAddLiquidity = async () => {
+    if (!depositPreview?.simulation?.ok) return;
+
+    try {
       console.log('Adding liquidity:', {
-        k: kBigInt.toString(),
-        amounts: amountsBigInt.map(a => a.toString())
+        k: depositPreview.k.toString(),
+        amounts: depositPreview.amounts.map(a => a.toString())
       });
 
-      await addLiquidity(kBigInt, amountsBigInt);
+      await addLiquidity(depositPreview.k, depositPreview.amounts);
       
       // Clear form on success
       setKValue('');
-      setAmounts(['', '', '', '', '']);
+      setAmounts(TOKENS.map(() => ''));
       
       toast.success('Liquidity added successfully!');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Add liquidity error:', error);
-      toast.error(`Failed to add liquidity: ${error.message}`);
+      toast.error(`Failed to add liquidity: ${formatContractError(error)}`);
+    } finally {
+      setDepositPreview(null);
     }
   };
 
+  // Inputs changed: the previous simulation no longer applies
+  useEffect(() => {
+    setDepositPreview(null);
+  }, [kValue, amounts]);
+
   const formatBalance = (balance: bigint | null, decimals: number) => {
     if (!balance) return '0.0000';
     const formatted = formatTokenAmount(balance, decimals);
@@ -167,10 +199,10 @@ export function LiquidityInterface() {
           <motion.div
             initial={{ opacity: 0, y: -10 }}
             animate={{ opacity: 1, y: 0 }}
-            className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/20 flex items-center gap-2"
+            className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/20 flex items-start gap-2"
           >
-            <AlertCircle className="w-4 h-4 text-red-400" />
-            <span className="text-red-400 text-sm">{error}</span>
+            <AlertCircle className="w-4 h-4 mt-0.5 text-red-400 flex-shrink-0" />
+            <ContractErrorMessage error={error} details={errorDetails} />
           </motion.div>
         )}
 
@@ -194,51 +226,76 @@ export function LiquidityInterface() {
         {/* Token Amount Inputs */}
         <div className="space-y-4 mb-6">
           <h3 className="text-sm font-medium text-gray-300">Token Amounts</h3>
-          {TOKENS.map((token, index) => (
-            <div key={token.symbol} className="space-y-2">
-              <div className="flex justify-between items-center">
-                <div className="flex items-center gap-2">
-                  <div 
-                    className="w-6 h-6 rounded-full flex items-center justify-center text-white text-xs font-bold"
-                    style={{ backgroundColor: token.color }}
-                  >
-                    {token.symbol[0]}
+          <VirtualList
+            items={TOKENS}
+            itemHeight={TOKEN_ROW_HEIGHT}
+            maxHeight={TOKEN_LIST_MAX_HEIGHT}
+            getKey={(token) => token.address}
+            renderItem={(token, index) => (
+              <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <div className="flex items-center gap-2">
+                    <div 
+                      className="w-6 h-6 rounded-full flex items-center justify-center text-white text-xs font-bold"
+                      style={{ backgroundColor: token.color }}
+                    >
+                      {token.symbol[0]}
+                    </div>
+                    <span className="text-white font-medium">{token.symbol}</span>
                   </div>
-                  <span className="text-white font-medium">{token.symbol}</span>
+                  <span className="text-xs text-gray-400">
+                    Balance: {formatBalance(balances[index], token.decimals)}
+                  </span>
+                </div>
+                
+                <div className="flex gap-2">
+                  <Input
+                    type="text"
+                    placeholder="0.0"
+                    value={amounts[index]}
+                    onChange={(e) => handleAmountChange(index, e.target.value)}
+                    className="flex-1"
+                  />
+                  {needsApproval[index] && amounts[index] && (
+                    <Button
+                      onClick={() => handleApprove(index)}
+                      disabled={isLoading || !isConnected}
+                      size="sm"
+                      variant="outline"
+                      className="whitespace-nowrap"
+                    >
+                      Approve
+                    </Button>
+                  )}
                 </div>
-                <span className="text-xs text-gray-400">
-                  Balance: {formatBalance(balances[index], token.decimals)}
-                </span>
-              </div>
-              
-              <div className="flex gap-2">
-                <Input
-                  type="text"
-                  placeholder="0.0"
-                  value={amounts[index]}
-                  onChange={(e) => handleAmountChange(index, e.target.value)}
-                  className="flex-1"
-                />
-                {needsApproval[index] && amounts[index] && (
-                  <Button
-                    onClick={() => handleApprove(index)}
-                    disabled={isLoading}
-                    size="sm"
-                    variant="outline"
-                    className="whitespace-nowrap"
-                  >
-                    Approve
-                  </Button>
-                )}
               </div>
-            </div>
-          ))}
+            )}
+          />
         </div>
 
+        {/* Transaction Preview */}
+        {depositPreview && (
+          <div className="mb-4">
+            <TransactionPreview
+              title="Review Deposit"
+              simulation={depositPreview.simulation}
+              rows={TOKENS.flatMap((token, index) =>
+                depositPreview.amounts[index] > BigInt(0)
+                  ? [{ label: token.symbol, value: formatTokenAmount(depositPreview.amounts[index], token.decimals) }]
+                  : []
+              )}
+              isSimulating={!depositPreview.simulation}
+              isSubmitting={isLoading}
+              onConfirm={handleConfirmAddLiquidity}
+              onCancel={() => setDepositPreview(null)}
+            />
+          </div>
+        )}
+
         {/* Add Liquidity Button */}
         <Button
           onClick={handleAddLiquidity}
-          disabled={!canAddLiquidity || isLoading}
+          disabled={!canAddLiquidity || isLoading || !!depositPreview}
           className="w-full bg-gradient-to-r from-orange-500 to-amber-500 hover:from-orange-600 hover:to-amber-600"
         >
           {isLoading ? (
@@ -249,7 +306,7 @@ export function LiquidityInterface() {
           ) : (
             <div className="flex items-center gap-2">
               <Plus className="w-4 h-4" />
-              Add Liquidity
+              Review Deposit
             </div>
           )}
         </Button>
@@ -5,7 +5,7 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { ArrowUpDown, Settings, Info, Zap } from 'lucide-react'
 import { TokenSelector } from '@/components/ui/TokenSelector'
 import { TOKENS } from '@/lib/constants'
-import { useOrbitalAMM, parseTokenAmount, formatTokenAmount } from '@/hooks/useOrbitalAMM'
+import { useOrbitalAMM, usePriceImpact, parseTokenAmount, formatTokenAmount } from '@/hooks/useOrbitalAMM'
 import { formatNumber } from '@/lib/utils'
 import { useAccount } from 'wagmi'
 
@@ -50,11 +50,13 @@ export function SwapInterface() {
         }
     }, [swapQuoteQuery.data, amountIn, tokenOut.decimals])
 
-    const priceImpact = useMemo(() => {
-        // This would need to be calculated from the contract or estimated
-        // For now, return a placeholder
-        return 0.1 // 0.1%
-    }, [amountIn, amountOut])
+    const priceImpactQuery = usePriceImpact(
+        tokenIn.index,
+        tokenOut.index,
+        amountIn ? parseTokenAmount(amountIn, tokenIn.decimals) : BigInt(0),
+        swapQuoteQuery.data ?? BigInt(0)
+    )
+    const priceImpact = priceImpactQuery.data ?? 0
 
     const exchangeRate = useMemo(() => {
         if (!amountIn || !amountOut || parseFloat(amountIn) === 0) return 0
@@ -77,16 +79,20 @@ export function SwapInterface() {
         // Calculate minimum amount out with slippage
         const minAmountOut = (amountOutBigInt * BigInt(Math.floor((100 - slippage) * 100))) / BigInt(10000)
 
-        // Check if approval is needed
-        const currentAllowance = tokenInAllowance.data || BigInt(0)
-        if (currentAllowance < amountInBigInt) {
-            // Need to approve first
-            await approveToken(tokenIn.address as `0x${string}`, amountInBigInt)
-            return
+        try {
+            // Check if approval is needed
+            const currentAllowance = tokenInAllowance.data || BigInt(0)
+            if (currentAllowance < amountInBigInt) {
+                // Need to approve first
+                await approveToken(tokenIn.address as `0x${string}`, amountInBigInt)
+                return
+            }
+
+            // Execute swap
+            await swap(tokenIn.index, tokenOut.index, amountInBigInt, minAmountOut)
+        } catch {
+            // The decoded failure is exposed through the hook's error state
         }
-
-        // Execute swap
-        await swap(tokenIn.index, tokenOut.index, amountInBigInt, minAmountOut)
     }
 
     // Check if user needs to approve tokens
@@ -358,7 +364,7 @@ export function SwapInterface() {
                         >
                             <div className="flex justify-between items-center mb-3">
                                 <div className="text-sm text-orange-300 font-mono font-bold">POOL COMPOSITION</div>
-                                <div className="text-xs text-orange-300/70 font-mono">5 TOKENS</div>
+                                <div className="text-xs text-orange-300/70 font-mono">{TOKENS.length} TOKENS</div>
                             </div>
                             <div className="space-y-2">
                                 {[
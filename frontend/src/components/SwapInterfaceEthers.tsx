@@ -1,34 +1,50 @@
 'use client'
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowUpDown, ArrowDown, Settings, RefreshCw } from 'lucide-react';
+import { ArrowUpDown, ArrowDown, Settings, RefreshCw, ChevronRight } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
 import { SimpleTokenSelector } from '@/components/ui/SimpleTokenSelector';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { ContractErrorMessage } from '@/components/ui/ContractErrorMessage';
+import { TransactionPreview } from '@/components/ui/TransactionPreview';
+import { TradePathPreview } from '@/components/ui/TradePathPreview';
 import { useWallet } from '@/hooks/useWallet';
 import { useOrbitalAMMEthers, parseTokenAmount, formatTokenAmount } from '@/hooks/useOrbitalAMMEthers';
 import { TOKENS } from '@/lib/constants';
 import { CONTRACTS } from '@/lib/ethers-provider';
+import { formatContractError } from '@/lib/contract-errors';
+import { snapshotTicks } from '@/lib/pool-subscription';
+import type { TransactionSimulation } from '@/lib/orbital-pool-client';
+import type { SwapRoute } from '@/lib/router';
 import toast from 'react-hot-toast';
 
 type Token = typeof TOKENS[number];
 
+// How long the "price updated" notice stays up after a live re-quote changes the quote
+const PRICE_UPDATE_NOTICE_MS = 4000;
+
 export function SwapInterface() {
-  const { isConnected, connectWallet } = useWallet();
+  const { address, isConnected, isWatching, isSupportedChain, network, connectWallet, switchToSupportedChain } = useWallet();
   const {
     isLoading,
     error,
+    errorDetails,
     isConfirmed,
     swap,
-    getSwapQuote,
+    swapRoute,
+    simulateSwap,
+    findRoute,
+    getSwapQuoteExactOut,
+    getPriceImpact,
     approveToken,
     getTokenAllowance,
     getTokenBalance,
     clearError,
     clearTransaction,
+    poolState,
   } = useOrbitalAMMEthers();
 
   // Swap state
@@ -36,18 +52,34 @@ export function SwapInterface() {
   const [tokenOut, setTokenOut] = useState<Token>(TOKENS[1]);
   const [amountIn, setAmountIn] = useState('');
   const [amountOut, setAmountOut] = useState('');
+  // The field the user typed in; the other one is quoted from it
+  const [exactField, setExactField] = useState<'in' | 'out'>('in');
   const [slippage, setSlippage] = useState(0.5); // 0.5%
   const [priceImpact, setPriceImpact] = useState(0);
+  // Best route for an exact-input swap; exact-output swaps always go direct
+  const [route, setRoute] = useState<SwapRoute | null>(null);
 
   // Balances and allowances
   const [tokenInBalance, setTokenInBalance] = useState<bigint | null>(null);
   const [tokenOutBalance, setTokenOutBalance] = useState<bigint | null>(null);
   const [tokenInAllowance, setTokenInAllowance] = useState<bigint | null>(null);
   const [isLoadingQuote, setIsLoadingQuote] = useState(false);
+  // Inputs and result of the last quote; a quote for the same inputs is a re-quote after a pool update
+  const lastQuote = useRef<{ inputs: string; result: string } | null>(null);
+  const [priceUpdatedAt, setPriceUpdatedAt] = useState<number | null>(null);
+
+  // Pre-flight simulation shown before the swap is signed
+  const [swapPreview, setSwapPreview] = useState<{
+    amountIn: bigint;
+    minAmountOut: bigint;
+    /** Spending limit of an exact-output swap */
+    maxAmountIn: bigint | null;
+    simulation: TransactionSimulation<bigint> | null;
+  } | null>(null);
 
-  // Load balances and allowances
+  // Load balances and allowances (of the watched account in watch mode)
   useEffect(() => {
-    if (!isConnected) return;
+    if (!address) return;
 
     const loadData = async () => {
       try {
@@ -66,35 +98,77 @@ export function SwapInterface() {
     };
 
     loadData();
-  }, [isConnected, tokenIn, tokenOut, getTokenBalance, getTokenAllowance, isConfirmed]);
+  }, [address, tokenIn, tokenOut, getTokenBalance, getTokenAllowance, isConfirmed]);
 
-  // Get swap quote when amount changes
+  // Route and quote the swap when the input amount changes
   useEffect(() => {
+    if (exactField !== 'in') return;
     if (!amountIn || parseFloat(amountIn) <= 0) {
       setAmountOut('');
+      setRoute(null);
       return;
     }
 
+    const inputs = `in:${amountIn}:${tokenIn.address}:${tokenOut.address}`;
+    const isRequote = lastQuote.current?.inputs === inputs;
+
     const getQuote = async () => {
-      setIsLoadingQuote(true);
+      // Live re-quotes update the figures in place instead of flashing a spinner
+      if (!isRequote) setIsLoadingQuote(true);
       try {
         const amountInBigInt = parseTokenAmount(amountIn, tokenIn.decimals);
-        const quote = await getSwapQuote(tokenIn.index, tokenOut.index, amountInBigInt);
-        
+        const best = await findRoute(tokenIn.address, tokenOut.address, amountInBigInt);
+        const quoted = best ? formatTokenAmount(best.amountOut, tokenOut.decimals) : '';
+
+        setRoute(best);
+        setAmountOut(quoted);
+        if (best) setPriceImpact(best.priceImpact);
+        if (isRequote && lastQuote.current?.result !== quoted) setPriceUpdatedAt(Date.now());
+        lastQuote.current = { inputs, result: quoted };
+      } catch (error) {
+        console.error('Error getting quote:', error);
+        setAmountOut('');
+        setRoute(null);
+        lastQuote.current = null;
+      } finally {
+        setIsLoadingQuote(false);
+      }
+    };
+
+    const debounceTimer = setTimeout(getQuote, 500);
+    return () => clearTimeout(debounceTimer);
+    // poolState: re-quote whenever the pool changes
+  }, [exactField, amountIn, tokenIn, tokenOut, findRoute, poolState]);
+
+  // Solve for the input when the output amount changes
+  useEffect(() => {
+    if (exactField !== 'out') return;
+    setRoute(null);
+    if (!amountOut || parseFloat(amountOut) <= 0) {
+      setAmountIn('');
+      return;
+    }
+
+    const inputs = `out:${amountOut}:${tokenIn.address}:${tokenOut.address}`;
+    const isRequote = lastQuote.current?.inputs === inputs;
+
+    const getQuote = async () => {
+      if (!isRequote) setIsLoadingQuote(true);
+      try {
+        const amountOutBigInt = parseTokenAmount(amountOut, tokenOut.decimals);
+        const quote = await getSwapQuoteExactOut(tokenIn.index, tokenOut.index, amountOutBigInt);
+        const quoted = quote ? formatTokenAmount(quote, tokenIn.decimals) : '';
+
+        setAmountIn(quoted);
         if (quote) {
-          const formattedQuote = formatTokenAmount(quote, tokenOut.decimals);
-          setAmountOut(formattedQuote);
-          
-          // Calculate price impact (simplified)
-          const inputValue = parseFloat(amountIn);
-          const outputValue = parseFloat(formattedQuote);
-          const expectedOutput = inputValue; // Assuming 1:1 for stablecoins
-          const impact = ((expectedOutput - outputValue) / expectedOutput) * 100;
-          setPriceImpact(Math.max(0, impact));
+          setPriceImpact((await getPriceImpact(tokenIn.index, tokenOut.index, quote, amountOutBigInt)) ?? 0);
         }
+        if (isRequote && lastQuote.current?.result !== quoted) setPriceUpdatedAt(Date.now());
+        lastQuote.current = { inputs, result: quoted };
       } catch (error) {
         console.error('Error getting quote:', error);
-        setAmountOut('');
+        setAmountIn('');
+        lastQuote.current = null;
       } finally {
         setIsLoadingQuote(false);
       }
@@ -102,14 +176,63 @@ export function SwapInterface() {
 
     const debounceTimer = setTimeout(getQuote, 500);
     return () => clearTimeout(debounceTimer);
-  }, [amountIn, tokenIn, tokenOut, getSwapQuote]);
+  }, [exactField, amountOut, tokenIn, tokenOut, getSwapQuoteExactOut, getPriceImpact, poolState]);
+
+  // Hide the "price updated" notice a few seconds after the latest change
+  useEffect(() => {
+    if (priceUpdatedAt === null) return;
+    const timer = setTimeout(() => setPriceUpdatedAt(null), PRICE_UPDATE_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [priceUpdatedAt]);
+
+  // Most an exact-output swap may spend: the quoted input plus slippage
+  const maxAmountIn = useMemo(() => {
+    if (exactField !== 'out' || !amountIn) return null;
+    const slippageBps = BigInt(Math.round(slippage * 100));
+    return (parseTokenAmount(amountIn, tokenIn.decimals) * (BigInt(10000) + slippageBps)) / BigInt(10000);
+  }, [exactField, amountIn, slippage, tokenIn.decimals]);
+
+  // Least an exact-input swap must return: the quoted output less slippage, as routes apply per hop
+  const minAmountOut = useMemo(() => {
+    if (exactField !== 'in' || !amountOut) return null;
+    const slippageBps = BigInt(Math.round(slippage * 100));
+    return (parseTokenAmount(amountOut, tokenOut.decimals) * (BigInt(10000) - slippageBps)) / BigInt(10000);
+  }, [exactField, amountOut, slippage, tokenOut.decimals]);
+
+  // Amount the allowance and balance must cover
+  const spendLimit = useMemo(
+    () => maxAmountIn ?? (amountIn ? parseTokenAmount(amountIn, tokenIn.decimals) : BigInt(0)),
+    [maxAmountIn, amountIn, tokenIn.decimals]
+  );
 
-  // Check if approval is needed
+  // Anything other than a single hop through the main pool is executed hop by hop
+  const isRoutedSwap = useMemo(
+    () =>
+      route !== null &&
+      (route.hops.length > 1 || route.hops[0].pool.toLowerCase() !== CONTRACTS.ORBITAL_POOL.toLowerCase()),
+    [route]
+  );
+
+  // Input of a direct swap through the main pool, whose path the preview animates
+  const directAmountIn = useMemo(() => {
+    if (isRoutedSwap || !amountIn || !amountOut || parseFloat(amountIn) <= 0) return null;
+    try {
+      return parseTokenAmount(amountIn, tokenIn.decimals);
+    } catch {
+      return null;
+    }
+  }, [isRoutedSwap, amountIn, amountOut, tokenIn.decimals]);
+
+  const poolTicks = useMemo(() => (poolState ? snapshotTicks(poolState) : []), [poolState]);
+
+  const tokenSymbol = (address: string) =>
+    TOKENS.find(token => token.address.toLowerCase() === address.toLowerCase())?.symbol ?? `${address.slice(0, 6)}…`;
+
+  // Check if approval is needed (routed swaps approve each pool as they go)
   const needsApproval = useMemo(() => {
-    if (!amountIn || !tokenInAllowance) return false;
-    const amountInBigInt = parseTokenAmount(amountIn, tokenIn.decimals);
-    return tokenInAllowance < amountInBigInt;
-  }, [amountIn, tokenInAllowance, tokenIn.decimals]);
+    if (!amountIn || !tokenInAllowance || isRoutedSwap) return false;
+    return tokenInAllowance < spendLimit;
+  }, [amountIn, tokenInAllowance, spendLimit, isRoutedSwap]);
 
   // Validate swap
   const canSwap = useMemo(() => {
@@ -122,16 +245,17 @@ export function SwapInterface() {
     // Don't require amountOut for validation - it will be calculated
     if (needsApproval) return false;
     if (!tokenInBalance) return false;
+    if (exactField === 'out' && (!amountOut || isLoadingQuote)) return false;
     
-    const amountInBigInt = parseTokenAmount(amountIn, tokenIn.decimals);
-    return tokenInBalance >= amountInBigInt;
-  }, [isConnected, amountIn, needsApproval, tokenInBalance, tokenIn.decimals]);
+    return tokenInBalance >= spendLimit;
+  }, [isConnected, amountIn, amountOut, exactField, isLoadingQuote, needsApproval, tokenInBalance, spendLimit]);
 
   const handleSwapTokens = () => {
     setTokenIn(tokenOut);
     setTokenOut(tokenIn);
     setAmountIn(amountOut);
     setAmountOut('');
+    setExactField('in');
   };
 
   const handleApprove = async () => {
@@ -139,48 +263,105 @@ export function SwapInterface() {
     
     try {
       clearError();
-      const amountInBigInt = parseTokenAmount(amountIn, tokenIn.decimals);
       // Approve a bit more than needed to avoid frequent approvals
-      const approvalAmount = amountInBigInt * BigInt(2);
+      const approvalAmount = spendLimit * BigInt(2);
       
       await approveToken(tokenIn.address, approvalAmount);
       toast.success('Token approval successful!');
-    } catch (error: any) {
-      toast.error(`Approval failed: ${error.message}`);
+    } catch (error) {
+      toast.error(`Approval failed: ${formatContractError(error)}`);
     }
   };
 
   const handleSwap = async () => {
     if (!canSwap || !amountIn) return;
 
+    clearError();
+
+    if (exactField === 'out') {
+      await handleExactOutputSwap();
+      return;
+    }
+
+    if (route && isRoutedSwap) {
+      await handleRoutedSwap(route);
+      return;
+    }
+
+    if (minAmountOut === null) return;
+    const amountInBigInt = parseTokenAmount(amountIn, tokenIn.decimals);
+
+    setSwapPreview({ amountIn: amountInBigInt, minAmountOut, maxAmountIn: null, simulation: null });
+    const simulation = await simulateSwap(tokenIn.index, tokenOut.index, amountInBigInt, minAmountOut);
+    setSwapPreview(preview => (preview ? { ...preview, simulation } : preview));
+  };
+
+  // The pool only swaps exact inputs: re-solve for the input at submission and
+  // require the full output, refusing if the input has moved past `maxAmountIn`
+  const handleExactOutputSwap = async () => {
+    if (!amountOut || maxAmountIn === null) return;
+
+    const amountOutBigInt = parseTokenAmount(amountOut, tokenOut.decimals);
+    const requiredAmountIn = await getSwapQuoteExactOut(tokenIn.index, tokenOut.index, amountOutBigInt);
+    if (requiredAmountIn === null) {
+      toast.error(`Not enough ${tokenOut.symbol} liquidity for this amount`);
+      return;
+    }
+    if (requiredAmountIn > maxAmountIn) {
+      setAmountIn(formatTokenAmount(requiredAmountIn, tokenIn.decimals));
+      toast.error('Price moved beyond your slippage tolerance. Review the updated quote.');
+      return;
+    }
+
+    setSwapPreview({ amountIn: requiredAmountIn, minAmountOut: amountOutBigInt, maxAmountIn, simulation: null });
+    const simulation = await simulateSwap(tokenIn.index, tokenOut.index, requiredAmountIn, amountOutBigInt);
+    setSwapPreview(preview => (preview ? { ...preview, simulation } : preview));
+  };
+
+  // Multi-hop routes are submitted as one swap per hop, each with its own minimum
+  const handleRoutedSwap = async (selected: SwapRoute) => {
     try {
-      clearError();
-      const amountInBigInt = parseTokenAmount(amountIn, tokenIn.decimals);
-      
-      // Set minimum amount out to 0 for now (no slippage protection)
-      // In production, you'd calculate this based on slippage tolerance
-      const minAmountOut = BigInt(0);
+      await swapRoute(selected, slippage);
+      toast.success(`Swapped via ${selected.hops.length} hop${selected.hops.length === 1 ? '' : 's'}`);
+      setAmountIn('');
+      setAmountOut('');
+    } catch (error) {
+      console.error('Route swap error:', error);
+      toast.error(`Swap failed: ${formatContractError(error)}`);
+    }
+  };
 
+  const handleConfirmSwap = async () => {
+    if (!swapPreview?.simulation?.ok) return;
+
+    try {
       console.log('Swapping:', {
         tokenInIndex: tokenIn.index,
         tokenOutIndex: tokenOut.index,
-        amountIn: amountInBigInt.toString(),
-        minAmountOut: minAmountOut.toString()
+        amountIn: swapPreview.amountIn.toString(),
+        minAmountOut: swapPreview.minAmountOut.toString()
       });
 
-      await swap(tokenIn.index, tokenOut.index, amountInBigInt, minAmountOut);
+      await swap(tokenIn.index, tokenOut.index, swapPreview.amountIn, swapPreview.minAmountOut);
       
       // Success toast will be shown by the hook when transaction confirms
       
       // Clear form
       setAmountIn('');
       setAmountOut('');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Swap error:', error);
-      toast.error(`Swap failed: ${error.message}`);
+      toast.error(`Swap failed: ${formatContractError(error)}`);
+    } finally {
+      setSwapPreview(null);
     }
   };
 
+  // Inputs changed: the previous simulation no longer applies
+  useEffect(() => {
+    setSwapPreview(null);
+  }, [amountIn, amountOut, tokenIn, tokenOut]);
+
   // Clear transaction state when component unmounts or error changes
   useEffect(() => {
     if (isConfirmed) {
@@ -227,13 +408,22 @@ export function SwapInterface() {
                 onSelect={setTokenIn}
                 excludeTokens={[tokenOut]}
               />
-              <Input
-                type="number"
-                placeholder="0.0"
-                value={amountIn}
-                onChange={(e) => setAmountIn(e.target.value)}
-                className="bg-transparent border-none text-right text-lg font-medium"
-              />
+              {exactField === 'out' && isLoadingQuote ? (
+                <div className="flex-1 flex justify-end">
+                  <LoadingSpinner size="sm" />
+                </div>
+              ) : (
+                <Input
+                  type="number"
+                  placeholder="0.0"
+                  value={amountIn}
+                  onChange={(e) => {
+                    setExactField('in');
+                    setAmountIn(e.target.value);
+                  }}
+                  className="bg-transparent border-none text-right text-lg font-medium"
+                />
+              )}
             </div>
           </div>
 
@@ -263,21 +453,61 @@ export function SwapInterface() {
                 onSelect={setTokenOut}
                 excludeTokens={[tokenIn]}
               />
-              <div className="flex-1 text-right">
-                {isLoadingQuote ? (
+              {exactField === 'in' && isLoadingQuote ? (
+                <div className="flex-1 flex justify-end">
                   <LoadingSpinner size="sm" />
-                ) : (
-                  <span className="text-lg font-medium text-white">
-                    {amountOut || '0.0'}
-                  </span>
-                )}
-              </div>
+                </div>
+              ) : (
+                <Input
+                  type="number"
+                  placeholder="0.0"
+                  value={amountOut}
+                  onChange={(e) => {
+                    setExactField('out');
+                    setAmountOut(e.target.value);
+                  }}
+                  className="bg-transparent border-none text-right text-lg font-medium"
+                />
+              )}
             </div>
           </div>
 
-          {/* Price Impact & Slippage */}
+          {/* Route, Price Impact & Slippage */}
           {amountOut && (
             <div className="space-y-2 p-3 rounded-lg bg-black/10">
+              <AnimatePresence>
+                {priceUpdatedAt !== null && (
+                  <motion.div
+                    initial={{ opacity: 0, y: -4 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0 }}
+                    className="flex items-center gap-1 text-xs text-orange-300"
+                  >
+                    <RefreshCw className="w-3 h-3" />
+                    Price updated
+                  </motion.div>
+                )}
+              </AnimatePresence>
+              {route && (
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Route</span>
+                    <span className="flex items-center gap-1 text-gray-300">
+                      {route.path.map((address, index) => (
+                        <React.Fragment key={`${address}-${index}`}>
+                          {index > 0 && <ChevronRight className="w-3 h-3 text-orange-400" />}
+                          {tokenSymbol(address)}
+                        </React.Fragment>
+                      ))}
+                    </span>
+                  </div>
+                  <div className="text-right text-xs text-gray-500">
+                    via {route.hops.map(hop => hop.poolName).join(', ')}
+                    {route.gasCost > BigInt(0) &&
+                      ` · est. gas ${parseFloat(formatTokenAmount(route.gasCost, tokenOut.decimals)).toFixed(4)} ${tokenOut.symbol}`}
+                  </div>
+                </div>
+              )}
               <div className="flex justify-between text-sm">
                 <span className="text-gray-400">Price Impact</span>
                 <span className={priceImpact > 5 ? 'text-red-400' : 'text-gray-300'}>
@@ -288,6 +518,32 @@ export function SwapInterface() {
                 <span className="text-gray-400">Max Slippage</span>
                 <span className="text-gray-300">{slippage}%</span>
               </div>
+              {minAmountOut !== null && !isRoutedSwap && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-400">Minimum Received</span>
+                  <span className="text-gray-300">
+                    {parseFloat(formatTokenAmount(minAmountOut, tokenOut.decimals)).toFixed(4)} {tokenOut.symbol}
+                  </span>
+                </div>
+              )}
+              {maxAmountIn !== null && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-400">Maximum Sold</span>
+                  <span className="text-gray-300">
+                    {parseFloat(formatTokenAmount(maxAmountIn, tokenIn.decimals)).toFixed(4)} {tokenIn.symbol}
+                  </span>
+                </div>
+              )}
+              {directAmountIn !== null && poolState && (
+                <TradePathPreview
+                  ticks={poolTicks}
+                  tokenIn={tokenIn.index}
+                  tokenOut={tokenOut.index}
+                  amountIn={directAmountIn}
+                  swapFee={poolState.swapFee}
+                  decimals={tokenIn.decimals}
+                />
+              )}
             </div>
           )}
 
@@ -298,7 +554,7 @@ export function SwapInterface() {
               animate={{ opacity: 1, y: 0 }}
               className="p-3 rounded-lg bg-red-500/10 border border-red-500/20"
             >
-              <p className="text-red-400 text-sm">{error}</p>
+              <ContractErrorMessage error={error} details={errorDetails} />
               <Button
                 variant="ghost"
                 size="sm"
@@ -310,12 +566,46 @@ export function SwapInterface() {
             </motion.div>
           )}
 
+          {/* Transaction Preview */}
+          {swapPreview && (
+            <TransactionPreview
+              title="Review Swap"
+              simulation={swapPreview.simulation}
+              rows={
+                swapPreview.simulation?.ok
+                  ? [
+                      { label: 'You Pay', value: `${formatTokenAmount(swapPreview.amountIn, tokenIn.decimals)} ${tokenIn.symbol}` },
+                      {
+                        label: 'Simulated Output',
+                        value: `${formatTokenAmount(swapPreview.simulation.result, tokenOut.decimals)} ${tokenOut.symbol}`,
+                      },
+                      swapPreview.maxAmountIn !== null
+                        ? { label: 'Maximum Sold', value: `${formatTokenAmount(swapPreview.maxAmountIn, tokenIn.decimals)} ${tokenIn.symbol}` }
+                        : { label: 'Minimum Received', value: `${formatTokenAmount(swapPreview.minAmountOut, tokenOut.decimals)} ${tokenOut.symbol}` },
+                    ]
+                  : []
+              }
+              isSimulating={!swapPreview.simulation}
+              isSubmitting={isLoading}
+              onConfirm={handleConfirmSwap}
+              onCancel={() => setSwapPreview(null)}
+            />
+          )}
+
           {/* Action Button */}
           <div className="pt-4">
-            {!isConnected ? (
+            {isWatching ? (
+              <Button disabled className="w-full">
+                Watch Mode: Read Only
+              </Button>
+            ) : !isConnected ? (
               <Button onClick={connectWallet} className="w-full">
                 Connect Wallet
               </Button>
+            ) : !isSupportedChain ? (
+              <Button onClick={switchToSupportedChain} className="w-full">
+                Switch to {network.name}
+              </Button>
             ) : needsApproval ? (
               <Button
                 onClick={handleApprove}
@@ -331,17 +621,17 @@ export function SwapInterface() {
             ) : (
               <Button
                 onClick={handleSwap}
-                disabled={!canSwap || isLoading}
+                disabled={!canSwap || isLoading || !!swapPreview}
                 className="w-full"
               >
                 {isLoading ? (
                   <LoadingSpinner size="sm" />
                 ) : !amountIn ? (
                   'Enter Amount'
-                ) : !tokenInBalance || parseTokenAmount(amountIn, tokenIn.decimals) > tokenInBalance ? (
+                ) : !tokenInBalance || spendLimit > tokenInBalance ? (
                   `Insufficient ${tokenIn.symbol}`
                 ) : (
-                  'Swap'
+                  'Review Swap'
                 )}
               </Button>
             )}
@@ -10,22 +10,38 @@
 
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { initializeProvider } from '@/lib/ethers-provider';
+import { createEthersPoolClient } from '@/lib/orbital-pool-client-ethers';
+import { getRegistry, verifyRegistry, RegistryMismatchError, type RegistryMismatch } from '@/lib/registry';
 
 interface Web3ContextType {
   isInitialized: boolean;
   provider: any;
+  /** Differences between the pool registry and the deployed contracts, found at startup */
+  registryMismatches: readonly RegistryMismatch[];
 }
 
 const Web3Context = createContext<Web3ContextType>({
   isInitialized: false,
   provider: null,
+  registryMismatches: [],
 });
 
+/**
+ * Provides the Web3 context, and renders its children only in the browser:
+ * the active network is the one chosen in this browser, which server
+ * rendering cannot see, and its tokens, contracts and names are fixed when
+ * the registry loads. Rendering them on the server would produce HTML for
+ * the configured network that the client then contradicts.
+ */
 export function Web3Provider({ children }: { children: React.ReactNode }) {
+  const [isMounted, setIsMounted] = useState(false);
   const [isInitialized, setIsInitialized] = useState(false);
   const [provider, setProvider] = useState<any>(null);
+  const [registryMismatches, setRegistryMismatches] = useState<readonly RegistryMismatch[]>([]);
 
   useEffect(() => {
+    setIsMounted(true);
+
     const init = async () => {
       try {
         const ethersProvider = initializeProvider();
@@ -33,6 +49,19 @@ export function Web3Provider({ children }: { children: React.ReactNode }) {
         setIsInitialized(true);
       } catch (error) {
         console.error('Failed to initialize Web3 provider:', error);
+        return;
+      }
+
+      // Cross-check the configured pools against the chain before anything trades on them
+      try {
+        await verifyRegistry(getRegistry(), createEthersPoolClient);
+      } catch (error) {
+        if (error instanceof RegistryMismatchError) {
+          console.error(error.message);
+          setRegistryMismatches(error.mismatches);
+        } else {
+          console.error('Failed to verify pool registry:', error);
+        }
       }
     };
 
@@ -40,8 +69,8 @@ export function Web3Provider({ children }: { children: React.ReactNode }) {
   }, []);
 
   return (
-    <Web3Context.Provider value={{ isInitialized, provider }}>
-      {children}
+    <Web3Context.Provider value={{ isInitialized, provider, registryMismatches }}>
+      {isMounted ? children : null}
     </Web3Context.Provider>
   );
 }
@@ -12,11 +12,14 @@ import { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart, ReferenceLine, ComposedChart, Bar } from 'recharts';
 import { TrendingUp, TrendingDown, Activity, Zap, BarChart3, PieChart } from 'lucide-react';
+import { usePoolHistory } from '@/hooks/usePoolHistory';
+import { buildPoolSeries, TIMEFRAME_BUCKETS } from '@/lib/pool-metrics';
+import { TOKENS } from '@/lib/constants';
 
 interface ChartData {
   timestamp: string
   time: string
-  price: number
+  price: number | null
   volume: number
   liquidity: number
   efficiency: number
@@ -39,92 +42,54 @@ export function AdvancedChart({
   const [activeMetric, setActiveMetric] = useState<'price' | 'volume' | 'liquidity' | 'efficiency' | 'apy' | 'fees'>('liquidity')
   const [timeframe, setTimeframe] = useState<'1H' | '4H' | '1D' | '1W'>('1D')
   const [chartType, setChartType] = useState<'area' | 'line' | 'composed'>('area')
+  const [pair, setPair] = useState<[number, number]>([0, 1])
+  const { records, lastIndexedBlock, isSyncing } = usePoolHistory()
 
-  // Generate realistic hardcoded data for the last 24 hours
-  const generateRealisticData = useMemo(() => {
-    const now = new Date()
-    const data: ChartData[] = []
-    
-    // Base values for realistic progression
-    let baseLiquidity = 3750000 // $3.75M starting liquidity
-    const basePrice = 1.0002 // Slightly above peg for stablecoin pair
-    const baseVolume = 450000 // $450K base volume
-    const baseEfficiency = 2.8 // Starting efficiency
-    
-    for (let i = 23; i >= 0; i--) {
-      const timestamp = new Date(now.getTime() - i * 60 * 60 * 1000)
-      
-      // Add realistic market movements
-      const timeOfDay = timestamp.getHours()
-      const isBusinessHours = timeOfDay >= 8 && timeOfDay <= 20
-      const volumeMultiplier = isBusinessHours ? 1.2 + Math.random() * 0.8 : 0.6 + Math.random() * 0.4
-      
-      // Price oscillation around peg (realistic for stablecoin AMM)
-      const priceVariation = (Math.sin(i * 0.3) + Math.random() * 0.4 - 0.2) * 0.0008
-      const currentPrice = basePrice + priceVariation
-      
-      // Volume with realistic patterns
-      const volumeVariation = (Math.random() - 0.5) * 0.4
-      const currentVolume = baseVolume * volumeMultiplier * (1 + volumeVariation)
-      
-      // Liquidity grows with successful trades
-      const liquidityGrowth = currentVolume * 0.002 // Small growth from fees
-      baseLiquidity += liquidityGrowth + (Math.random() - 0.5) * 50000
-      
-      // Efficiency correlates with volume and liquidity utilization
-      const utilizationRate = currentVolume / baseLiquidity
-      const efficiencyVariation = utilizationRate * 2 + Math.random() * 0.5
-      const currentEfficiency = Math.max(1.5, Math.min(5.0, baseEfficiency + efficiencyVariation))
-      
-      // Fees based on volume (0.3% fee tier)
-      const currentFees = currentVolume * 0.003
-      
-      // APY calculation based on fees and liquidity
-      const dailyFees = currentFees
-      const annualizedFees = dailyFees * 365
-      const currentAPY = (annualizedFees / baseLiquidity) * 100
-      
-      // Number of trades (realistic distribution)
-      const currentTrades = Math.floor(currentVolume / (2000 + Math.random() * 3000))
-      
-      data.push({
-        timestamp: timestamp.toISOString(),
-        time: timestamp.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }),
-        price: Number(currentPrice.toFixed(6)),
-        volume: Math.floor(currentVolume),
-        liquidity: Math.floor(baseLiquidity),
-        efficiency: Number(currentEfficiency.toFixed(2)),
-        fees: Math.floor(currentFees),
-        apy: Number(currentAPY.toFixed(2)),
-        trades: currentTrades
-      })
-    }
-    
-    return data
-  }, [timeframe])
+  // Bucketed series from indexed Swap and liquidity events
+  const seriesData = useMemo(() => {
+    return buildPoolSeries(records, { ...TIMEFRAME_BUCKETS[timeframe], pair }).map((point): ChartData => {
+      const date = new Date(point.timestamp * 1000)
+      return {
+        timestamp: date.toISOString(),
+        time: timeframe === '1W'
+          ? date.toLocaleString('en-US', { weekday: 'short', hour: '2-digit' })
+          : date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }),
+        price: point.price,
+        volume: point.volume,
+        liquidity: point.tvl,
+        efficiency: point.efficiency,
+        fees: point.fees,
+        apy: point.apy,
+        trades: point.trades
+      }
+    })
+  }, [records, timeframe, pair])
 
   const metrics = [
     { key: 'liquidity', label: 'Total Liquidity', icon: TrendingUp, color: '#f97316', suffix: '' },
     { key: 'volume', label: 'Trading Volume', icon: Activity, color: '#22c55e', suffix: '' },
-    { key: 'efficiency', label: 'Capital Efficiency', icon: Zap, color: '#8b5cf6', suffix: 'x' },
-    { key: 'apy', label: 'Current APY', icon: TrendingUp, color: '#06b6d4', suffix: '%' },
+    { key: 'efficiency', label: 'Capital Turnover', icon: Zap, color: '#8b5cf6', suffix: '' },
+    { key: 'apy', label: 'Fee APY', icon: TrendingUp, color: '#06b6d4', suffix: '' },
     { key: 'fees', label: 'Fees Earned', icon: BarChart3, color: '#f59e0b', suffix: '' },
-    { key: 'price', label: 'Price Impact', icon: PieChart, color: '#ef4444', suffix: '' }
+    { key: 'price', label: 'Pair Price', icon: PieChart, color: '#ef4444', suffix: '' }
   ] as const
 
   const currentMetric = metrics.find(m => m.key === activeMetric)!
   
   const chartData = useMemo(() => {
-    return generateRealisticData.map(item => ({
+    return seriesData.map(item => ({
       ...item,
       displayValue: item[activeMetric]
     }))
-  }, [generateRealisticData, activeMetric])
+  }, [seriesData, activeMetric])
 
   const stats = useMemo(() => {
-    if (generateRealisticData.length === 0) return { current: 0, change: 0, changePercent: 0, high: 0, low: 0, average: 0 }
+    // Price is null until the selected pair has traded
+    const values = seriesData
+      .map(item => item[activeMetric])
+      .filter((value): value is number => value !== null)
+    if (values.length === 0) return { current: 0, change: 0, changePercent: 0, high: 0, low: 0, average: 0 }
     
-    const values = generateRealisticData.map(item => item[activeMetric])
     const current = values[values.length - 1]
     const previous = values[values.length - 2] || current
     const change = current - previous
@@ -134,13 +99,13 @@ export function AdvancedChart({
     const average = values.reduce((sum, val) => sum + val, 0) / values.length
     
     return { current, change, changePercent, high, low, average }
-  }, [generateRealisticData, activeMetric])
+  }, [seriesData, activeMetric])
 
   const formatValue = (value: number, metric?: string) => {
     const targetMetric = metric || activeMetric
     switch (targetMetric) {
       case 'price':
-        return `$${value.toFixed(6)}`
+        return `${value.toFixed(6)} ${TOKENS[pair[1]].symbol}`
       case 'volume':
       case 'liquidity':
       case 'fees':
@@ -148,7 +113,7 @@ export function AdvancedChart({
         if (value >= 1000) return `$${(value / 1000).toFixed(1)}K`
         return `$${value.toFixed(0)}`
       case 'efficiency':
-        return `${value.toFixed(2)}x`
+        return `${value.toFixed(4)}x`
       case 'apy':
         return `${value.toFixed(2)}%`
       case 'trades':
@@ -158,6 +123,24 @@ export function AdvancedChart({
     }
   }
 
+  const renderPairSelect = (side: 0 | 1) => (
+    <select
+      value={pair[side]}
+      onChange={(e) => {
+        const next: [number, number] = [...pair]
+        next[side] = Number(e.target.value)
+        if (next[0] !== next[1]) setPair(next)
+      }}
+      className="bg-transparent text-orange-300 px-2 py-1 rounded focus:outline-none"
+    >
+      {TOKENS.map((token, index) => (
+        <option key={token.symbol} value={index} className="bg-black">
+          {token.symbol}
+        </option>
+      ))}
+    </select>
+  )
+
   const renderChart = () => {
     const commonProps = {
       data: chartData,
@@ -353,14 +336,14 @@ export function AdvancedChart({
             </div>
             
             <div className="bg-gradient-to-br from-green-500/10 to-emerald-500/10 border border-green-500/20 rounded-lg p-3">
-              <div className="text-xs text-green-400/70 mb-1">24h High</div>
+              <div className="text-xs text-green-400/70 mb-1">{timeframe} High</div>
               <div className="text-lg font-bold text-green-100">
                 {formatValue(stats.high)}{currentMetric.suffix}
               </div>
             </div>
             
             <div className="bg-gradient-to-br from-red-500/10 to-pink-500/10 border border-red-500/20 rounded-lg p-3">
-              <div className="text-xs text-red-400/70 mb-1">24h Low</div>
+              <div className="text-xs text-red-400/70 mb-1">{timeframe} Low</div>
               <div className="text-lg font-bold text-red-100">
                 {formatValue(stats.low)}{currentMetric.suffix}
               </div>
@@ -410,6 +393,15 @@ export function AdvancedChart({
               </button>
             ))}
           </div>
+
+          {/* Pair Selector */}
+          {activeMetric === 'price' && (
+            <div className="flex items-center gap-1 bg-black/20 rounded-lg p-1 text-xs">
+              {renderPairSelect(0)}
+              <span className="text-orange-400/50">/</span>
+              {renderPairSelect(1)}
+            </div>
+          )}
         </div>
       </div>
 
@@ -451,12 +443,12 @@ export function AdvancedChart({
           </div>
           <div className="flex items-center gap-2">
             <div className="w-3 h-3 rounded-full bg-orange-500/50" />
-            <span>24h Range: {formatValue(stats.low)} - {formatValue(stats.high)}</span>
+            <span>{timeframe} Range: {formatValue(stats.low)} - {formatValue(stats.high)}</span>
           </div>
           {chartType === 'composed' && (
             <div className="flex items-center gap-2">
               <div className="w-3 h-3 rounded-full bg-green-500/50" />
-              <span>Trades: {generateRealisticData[generateRealisticData.length - 1]?.trades || 0}</span>
+              <span>Trades: {seriesData.reduce((sum, item) => sum + item.trades, 0)}</span>
             </div>
           )}
         </div>
@@ -466,7 +458,7 @@ export function AdvancedChart({
             transition={{ duration: 2, repeat: Infinity }}
             className="w-2 h-2 bg-green-400 rounded-full"
           />
-          Live • Updated {new Date().toLocaleTimeString()}
+          {isSyncing ? 'Indexing pool history...' : `Live • Block ${lastIndexedBlock}`}
         </div>
       </div>
     </motion.div>
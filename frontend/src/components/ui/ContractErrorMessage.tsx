@@ -0,0 +1,32 @@
+/**
+ * Orbital AMM - Contract Error Message
+ *
+ * Inline explanation and suggested fix for a decoded contract error.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+'use client';
+
+import type { ContractErrorDetails } from '@/lib/contract-errors';
+import { cn } from '@/lib/utils';
+
+interface ContractErrorMessageProps {
+  error: string
+  details?: ContractErrorDetails | null
+  className?: string
+}
+
+export function ContractErrorMessage({ error, details, className }: ContractErrorMessageProps) {
+  if (!details) {
+    return <p className={cn('text-red-400 text-sm', className)}>{error}</p>
+  }
+
+  return (
+    <div className={cn('space-y-1 text-sm', className)}>
+      <p className="text-red-400 font-medium">{details.title}</p>
+      <p className="text-red-300/90">{details.explanation}</p>
+      <p className="text-gray-300">{details.suggestion}</p>
+    </div>
+  )
+}
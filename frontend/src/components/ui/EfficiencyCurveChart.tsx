@@ -0,0 +1,90 @@
+/**
+ * Orbital AMM - Efficiency Curve Chart
+ *
+ * Whitepaper capital efficiency against the depeg price a tick covers, one
+ * curve per pool size n = 2..N.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+'use client'
+
+import { useMemo } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts'
+import { CHART_COLORS } from '@/lib/constants'
+import { buildEfficiencyCurves, efficiencySeriesKey } from '@/lib/capital-efficiency'
+import { formatNumber } from '@/lib/utils'
+
+interface EfficiencyCurveChartProps {
+  /** Largest pool size plotted */
+  maxTokenCount?: number
+  /** Pool size drawn emphasized, e.g. the live pool's */
+  activeTokenCount?: number
+  /** Depeg price marked on the chart, e.g. the tick being configured */
+  highlightPrice?: number | null
+  height?: number
+  className?: string
+}
+
+// Black does not show on the dark theme
+const CURVE_COLORS = CHART_COLORS.filter(color => color !== '#000000')
+
+export function EfficiencyCurveChart({
+  maxTokenCount = 5,
+  activeTokenCount,
+  highlightPrice = null,
+  height = 256,
+  className = ''
+}: EfficiencyCurveChartProps) {
+  const data = useMemo(() => buildEfficiencyCurves(maxTokenCount), [maxTokenCount])
+  const tokenCounts = Array.from({ length: Math.max(maxTokenCount - 1, 0) }, (_, i) => i + 2)
+
+  return (
+    <div className={className} style={{ height }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+          <XAxis
+            dataKey="depegPrice"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            tick={{ fontSize: 10 }}
+            tickFormatter={(price: number) => `$${price}`}
+          />
+          <YAxis
+            scale="log"
+            domain={[1, 'auto']}
+            allowDataOverflow
+            tick={{ fontSize: 10 }}
+            tickFormatter={(value: number) => `${formatNumber(value, 0)}x`}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: 'rgba(0, 0, 0, 0.85)',
+              border: '1px solid rgba(249, 115, 22, 0.3)',
+              borderRadius: '8px',
+              fontSize: '12px'
+            }}
+            labelFormatter={(price: number) => `Depeg to $${price}`}
+            formatter={(value: number, name: string) => [`${formatNumber(value, 2)}x`, name]}
+          />
+          <Legend wrapperStyle={{ fontSize: '11px' }} />
+          {highlightPrice !== null && (
+            <ReferenceLine x={highlightPrice} stroke="#f97316" strokeDasharray="4 4" />
+          )}
+          {tokenCounts.map((n, index) => (
+            <Line
+              key={n}
+              type="monotone"
+              dataKey={efficiencySeriesKey(n)}
+              name={`n = ${n}`}
+              stroke={CURVE_COLORS[index % CURVE_COLORS.length]}
+              strokeWidth={n === activeTokenCount ? 3 : 1.5}
+              dot={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
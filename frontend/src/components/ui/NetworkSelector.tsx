@@ -0,0 +1,102 @@
+/**
+ * Orbital AMM - Network Selector Component
+ *
+ * Dropdown of the networks the app has a deployment for. Choosing one moves
+ * the connected wallet there and reloads the app on that network's pools.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+'use client';
+
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDown, Check, Globe } from 'lucide-react';
+import { useWallet } from '@/hooks/useWallet';
+import { useState } from 'react';
+
+interface NetworkSelectorProps {
+  className?: string;
+}
+
+export function NetworkSelector({ className = '' }: NetworkSelectorProps) {
+  const { network, networks, chainId, selectNetwork } = useWallet();
+  const [showDropdown, setShowDropdown] = useState(false);
+
+  // Connected to a wallet that is on a different network than the app
+  const walletElsewhere = chainId !== null && chainId !== network.chainId;
+
+  return (
+    <div className={`relative z-50 ${className}`}>
+      <motion.button
+        onClick={() => setShowDropdown(!showDropdown)}
+        className={`
+          w-full flex items-center gap-2 px-4 py-3 rounded-xl
+          glass-morphism-dark border transition-all duration-300
+          ${walletElsewhere ? 'border-red-500/40 hover:border-red-400/60' : 'border-orange-500/20 hover:border-orange-400/50'}
+        `}
+        whileHover={{ scale: 1.02 }}
+        whileTap={{ scale: 0.98 }}
+        title={walletElsewhere ? `Your wallet is on another network; the app is running on ${network.name}` : undefined}
+      >
+        <Globe className={`w-4 h-4 ${walletElsewhere ? 'text-red-400' : 'text-orange-300'}`} />
+        <span className="flex-1 text-left text-sm font-mono text-orange-200">{network.name}</span>
+        <ChevronDown
+          className={`w-4 h-4 text-orange-300 transition-transform duration-200 ${
+            showDropdown ? 'rotate-180' : ''
+          }`}
+        />
+      </motion.button>
+
+      <AnimatePresence>
+        {showDropdown && (
+          <motion.div
+            initial={{ opacity: 0, y: -10, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -10, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+            className="
+              absolute top-full right-0 mt-2 w-64
+              glass-morphism-dark rounded-xl border border-orange-500/20
+              shadow-2xl z-[9999]
+            "
+          >
+            <div className="p-2 space-y-1">
+              <div className="px-2 py-1 text-xs text-orange-400/70 font-mono uppercase tracking-wider">
+                Network
+              </div>
+              {networks.map(option => {
+                const active = option.chainId === network.chainId;
+                return (
+                  <button
+                    key={option.chainId}
+                    onClick={() => {
+                      setShowDropdown(false);
+                      selectNetwork(option.chainId);
+                    }}
+                    className={`
+                      w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left
+                      font-mono text-sm transition-colors duration-200
+                      ${active ? 'bg-orange-500/15 text-orange-200' : 'text-orange-300/80 hover:bg-orange-500/10'}
+                    `}
+                  >
+                    <span className="flex-1">{option.name}</span>
+                    {option.testnet && <span className="text-xs text-orange-400/60">testnet</span>}
+                    {active && <Check className="w-4 h-4 text-orange-300" />}
+                  </button>
+                );
+              })}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Click outside to close */}
+      {showDropdown && (
+        <div
+          className="fixed inset-0 z-40"
+          onClick={() => setShowDropdown(false)}
+        />
+      )}
+    </div>
+  );
+}
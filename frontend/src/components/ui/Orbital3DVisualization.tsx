@@ -1,8 +1,16 @@
 'use client'
 
-import { useRef, useEffect, useState } from 'react'
+import { useRef, useEffect, useState, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import * as THREE from 'three'
+import { usePoolState } from '@/hooks/usePoolState'
+import { snapshotTicks } from '@/lib/pool-subscription'
+import { formatTokenAmount } from '@/hooks/useOrbitalAMMEthers'
+import { TOKENS } from '@/lib/constants'
+import { TickStatus } from '@/lib/orbital-math'
+import { buildPoolGeometry, type PoolGeometry, type Vec3 } from '@/lib/orbital-geometry'
+import { analyzeContractTick, weightedEfficiency } from '@/lib/capital-efficiency'
+import { formatNumber } from '@/lib/utils'
 
 interface Orbital3DVisualizationProps {
   className?: string
@@ -10,6 +18,264 @@ interface Orbital3DVisualizationProps {
   onClose?: () => void
 }
 
+type ViewMode = 'sphere' | 'orbital' | 'network'
+
+const VIEW_MODES: Record<ViewMode, { label: string; hints: string[] }> = {
+  sphere: {
+    label: 'Tick Spheres',
+    hints: [
+      'Vertical axis: equal-price vector v = (1, …, 1)/√n',
+      "Caps: each tick's range, bounded by the plane x·v = k",
+      'White point: current reserves; its distance from the axis is the depeg',
+    ],
+  },
+  orbital: {
+    label: 'Orbits',
+    hints: [
+      'Looking down the equal-price vector',
+      'Rings: tick boundaries, radius √(r² − (r√n − k)²)',
+      "Spokes: the direction each token's reserve grows in",
+    ],
+  },
+  network: {
+    label: 'Price Network',
+    hints: [
+      'Nodes: tokens, sized by their share of the reserves',
+      'Links: marginal price between two tokens, redder further from 1:1',
+      'Center: the pool',
+    ],
+  },
+}
+
+const VIEW_ORDER: ViewMode[] = ['sphere', 'orbital', 'network']
+
+const INTERIOR_COLOR = 0xf97316
+const BOUNDARY_COLOR = 0xef4444
+const AXIS_COLOR = 0xfbbf24
+// Token labels are left out beyond this many tokens, where they would overlap
+const MAX_LABELLED_TOKENS = 12
+// Price deviation from 1:1 at which a network link is drawn fully red
+const MAX_LINK_DEVIATION = 0.02
+
+// Per-frame animation of a view, given the time in seconds
+type ViewAnimation = (time: number) => void
+
+// Token colour, lightened where it would vanish against the dark background
+function tokenColor(index: number): THREE.Color {
+  const color = new THREE.Color(TOKENS[index]?.color ?? '#f97316')
+  const hsl = { h: 0, s: 0, l: 0 }
+  color.getHSL(hsl)
+  if (hsl.l < 0.45) color.setHSL(hsl.h, hsl.s, 0.45)
+  return color
+}
+
+function tickColor(status: TickStatus): number {
+  return status === TickStatus.Boundary ? BOUNDARY_COLOR : INTERIOR_COLOR
+}
+
+function formatReserve(reserve: bigint, index: number): string {
+  return formatNumber(parseFloat(formatTokenAmount(reserve, TOKENS[index]?.decimals ?? 18)))
+}
+
+function makeLabel(title: string, subtitle?: string): THREE.Sprite {
+  const canvas = document.createElement('canvas')
+  const context = canvas.getContext('2d')!
+  canvas.width = 256
+  canvas.height = 64
+  context.fillStyle = '#ffffff'
+  context.font = 'bold 24px Arial'
+  context.textAlign = 'center'
+  context.fillText(title, 128, 32)
+  if (subtitle) {
+    context.fillStyle = '#fb923c'
+    context.font = '16px Arial'
+    context.fillText(subtitle, 128, 52)
+  }
+
+  const texture = new THREE.CanvasTexture(canvas)
+  const sprite = new THREE.Sprite(new THREE.SpriteMaterial({ map: texture, transparent: true }))
+  sprite.scale.set(1, 0.25, 1)
+  return sprite
+}
+
+function makeLine(from: Vec3, to: Vec3, color: THREE.ColorRepresentation, opacity: number): THREE.Line {
+  const geometry = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(...from), new THREE.Vector3(...to)])
+  return new THREE.Line(geometry, new THREE.LineBasicMaterial({ color, transparent: true, opacity }))
+}
+
+// Horizontal circle around the vertical axis
+function makeCircle(radius: number, height: number, color: THREE.ColorRepresentation, opacity: number): THREE.LineLoop {
+  const points = Array.from({ length: 96 }, (_, i) => {
+    const angle = (i / 96) * Math.PI * 2
+    return new THREE.Vector3(Math.cos(angle) * radius, height, Math.sin(angle) * radius)
+  })
+  const geometry = new THREE.BufferGeometry().setFromPoints(points)
+  return new THREE.LineLoop(geometry, new THREE.LineBasicMaterial({ color, transparent: true, opacity }))
+}
+
+function makeMarker(position: Vec3, radius: number, color: THREE.ColorRepresentation): THREE.Mesh {
+  const marker = new THREE.Mesh(
+    new THREE.SphereGeometry(radius, 16, 16),
+    new THREE.MeshPhongMaterial({ color, emissive: color, emissiveIntensity: 0.5 })
+  )
+  marker.position.set(...position)
+  return marker
+}
+
+// Free the GPU buffers, materials and label textures under `object`, which
+// three.js keeps until they are disposed explicitly
+function disposeObject(object: THREE.Object3D) {
+  object.traverse(child => {
+    if (!(child instanceof THREE.Mesh || child instanceof THREE.Line || child instanceof THREE.Sprite)) return
+    // Sprites share one geometry across the library
+    if (!(child instanceof THREE.Sprite)) child.geometry.dispose()
+    const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material]
+    materials.forEach(material => {
+      if ('map' in material && material.map instanceof THREE.Texture) material.map.dispose()
+      material.dispose()
+    })
+  })
+}
+
+// Token axes radiating from the equal-price axis at `height`
+function addTokenSpokes(group: THREE.Group, geometry: PoolGeometry, height: number, length: number) {
+  geometry.tokenDirections.forEach(([dx, dz], index) => {
+    const end: Vec3 = [dx * length, height, dz * length]
+    group.add(makeLine([0, height, 0], end, tokenColor(index), 0.35))
+    if (geometry.tokenCount <= MAX_LABELLED_TOKENS) {
+      const label = makeLabel(TOKENS[index]?.symbol ?? `Token ${index}`)
+      label.position.set(end[0] * 1.12, height + 0.15, end[2] * 1.12)
+      group.add(label)
+    }
+  })
+}
+
+// Each tick's sphere around the equal-price axis, its cap down to the equal-price
+// point, the boundary circle where x·v = k, and the current reserves
+function buildSphereView(group: THREE.Group, geometry: PoolGeometry): ViewAnimation {
+  group.position.y = -geometry.height / 2
+
+  group.add(makeLine([0, 0, 0], [0, geometry.height * 1.1, 0], AXIS_COLOR, 0.8))
+  const axisLabel = makeLabel('Equal price', 'v = (1, …, 1)/√n')
+  axisLabel.position.set(0, geometry.height * 1.1 + 0.2, 0)
+  group.add(axisLabel)
+
+  geometry.ticks.forEach(tick => {
+    const color = tickColor(tick.status)
+
+    const sphere = new THREE.Mesh(
+      new THREE.SphereGeometry(tick.r, 32, 16),
+      new THREE.MeshBasicMaterial({ color, wireframe: true, transparent: true, opacity: 0.08 })
+    )
+    sphere.position.set(...tick.center)
+    group.add(sphere)
+
+    // SphereGeometry measures polar angles from the top, so the cap is the band from capStartAngle to π
+    const cap = new THREE.Mesh(
+      new THREE.SphereGeometry(tick.r, 48, 16, 0, Math.PI * 2, tick.capStartAngle, Math.PI - tick.capStartAngle),
+      new THREE.MeshPhongMaterial({
+        color,
+        emissive: color,
+        emissiveIntensity: 0.2,
+        transparent: true,
+        opacity: 0.45,
+        side: THREE.DoubleSide,
+      })
+    )
+    cap.position.set(...tick.center)
+    group.add(cap)
+
+    group.add(makeCircle(tick.boundaryRadius, tick.boundaryHeight, color, tick.status === TickStatus.Boundary ? 1 : 0.6))
+    group.add(makeMarker(tick.point, 0.05, color))
+  })
+
+  const spokeLength = Math.max(1, ...geometry.ticks.map(tick => tick.r))
+  addTokenSpokes(group, geometry, geometry.current[1], spokeLength)
+
+  const current = makeMarker(geometry.current, 0.1, 0xffffff)
+  group.add(current)
+  group.add(makeLine(geometry.currentOnAxis, geometry.current, 0xffffff, 0.8))
+  const currentLabel = makeLabel('Reserves')
+  currentLabel.position.set(geometry.current[0], geometry.current[1] + 0.3, geometry.current[2])
+  group.add(currentLabel)
+
+  return time => {
+    current.scale.setScalar(1 + Math.sin(time * 3) * 0.15)
+  }
+}
+
+// The plane perpendicular to the equal-price vector, seen from above: tick
+// boundaries as orbits and the current reserves' offset from the centre
+function buildOrbitalView(group: THREE.Group, geometry: PoolGeometry): ViewAnimation {
+  const offset = Math.hypot(geometry.current[0], geometry.current[2])
+  const extent = Math.max(offset, ...geometry.ticks.map(tick => tick.boundaryRadius))
+  // Rings are scaled up to fill the view; only their sizes relative to each other matter here
+  const fit = extent > 0 ? 3 / extent : 1
+
+  group.add(makeMarker([0, 0, 0], 0.12, AXIS_COLOR))
+  addTokenSpokes(group, geometry, 0, 3.4)
+
+  const orbiters = geometry.ticks.map((tick, index) => {
+    const radius = tick.boundaryRadius * fit
+    const color = tickColor(tick.status)
+    group.add(makeCircle(radius, 0, color, tick.status === TickStatus.Boundary ? 1 : 0.6))
+    const orbiter = makeMarker([radius, 0, 0], 0.06, color)
+    group.add(orbiter)
+    return { orbiter, radius, phase: (index * Math.PI * 2) / Math.max(geometry.ticks.length, 1) }
+  })
+
+  const current: Vec3 = [geometry.current[0] * fit, 0, geometry.current[2] * fit]
+  group.add(makeLine([0, 0, 0], current, 0xffffff, 0.8))
+  const currentMarker = makeMarker(current, 0.1, 0xffffff)
+  group.add(currentMarker)
+
+  return time => {
+    // Smaller orbits turn faster, as in a planetary system
+    orbiters.forEach(({ orbiter, radius, phase }) => {
+      const angle = phase + time / Math.max(Math.sqrt(radius), 0.3)
+      orbiter.position.set(Math.cos(angle) * radius, 0, Math.sin(angle) * radius)
+    })
+    currentMarker.scale.setScalar(1 + Math.sin(time * 3) * 0.15)
+  }
+}
+
+// Tokens as nodes sized by their reserves, linked by the marginal price between them
+function buildNetworkView(group: THREE.Group, geometry: PoolGeometry, totalReserves: readonly bigint[]): ViewAnimation {
+  const amounts = totalReserves.map(Number)
+  const total = amounts.reduce((sum, amount) => sum + amount, 0)
+  const positions = geometry.tokenDirections.map(([dx, dz]): Vec3 => [dx * 2.5, 0, dz * 2.5])
+
+  group.add(makeMarker([0, 0, 0], 0.35, INTERIOR_COLOR))
+
+  const nodes = positions.map((position, index) => {
+    const share = total > 0 ? amounts[index] / total : 0
+    const color = tokenColor(index)
+    group.add(makeLine([0, 0, 0], position, color, 0.25))
+
+    const node = makeMarker(position, 0.12 + share * 0.5, color)
+    group.add(node)
+    if (geometry.tokenCount <= MAX_LABELLED_TOKENS) {
+      const label = makeLabel(TOKENS[index]?.symbol ?? `Token ${index}`, formatReserve(totalReserves[index], index))
+      label.position.set(position[0], position[1] + 0.5, position[2])
+      group.add(label)
+    }
+    return node
+  })
+
+  const calm = new THREE.Color(INTERIOR_COLOR)
+  const stressed = new THREE.Color(BOUNDARY_COLOR)
+  geometry.pairPrices.forEach(({ i, j, price }) => {
+    const stress = Number.isFinite(price) ? Math.min(Math.abs(price - 1) / MAX_LINK_DEVIATION, 1) : 1
+    group.add(makeLine(positions[i], positions[j], calm.clone().lerp(stressed, stress), 0.15 + stress * 0.6))
+  })
+
+  return time => {
+    nodes.forEach((node, index) => {
+      node.scale.setScalar(1 + Math.sin(time * 2 + index) * 0.08)
+    })
+  }
+}
+
 export function Orbital3DVisualization({ 
   className = '', 
   isActive = false, 
@@ -20,20 +286,51 @@ export function Orbital3DVisualization({
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null)
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null)
   const animationIdRef = useRef<number | null>(null)
+  // Group holding the pool geometry, rebuilt on every pool update, and its per-frame animation
+  const contentRef = useRef<THREE.Group | null>(null)
+  const animateViewRef = useRef<ViewAnimation>(() => undefined)
   const [isRotating, setIsRotating] = useState(true)
-  const [viewMode, setViewMode] = useState<'sphere' | 'orbital' | 'network'>('sphere')
-
-  // Liquidity data for 3D positioning
-  const liquidityData = [
-    { token: 'USDC', amount: 1250000, color: 0xf97316, position: [2, 0, 0] },
-    { token: 'USDT', amount: 980000, color: 0xf59e0b, position: [1.4, 1.4, 0] },
-    { token: 'DAI', amount: 750000, color: 0xeab308, position: [0, 2, 0] },
-    { token: 'FRAX', amount: 420000, color: 0xca8a04, position: [-1.4, 1.4, 0] },
-    { token: 'LUSD', amount: 140000, color: 0xa16207, position: [-2, 0, 0] }
-  ]
+  // Read by the animation loop, so pausing does not rebuild the scene
+  const isRotatingRef = useRef(isRotating)
+  isRotatingRef.current = isRotating
+  const [viewMode, setViewMode] = useState<ViewMode>('sphere')
+  const poolState = usePoolState()
+
+  // Live reserves and tick state projected into the scene
+  const geometry = useMemo(() => {
+    if (!poolState) return null
+    return buildPoolGeometry(snapshotTicks(poolState), poolState.totalReserves)
+  }, [poolState])
+
+  const stats = useMemo(() => {
+    if (!poolState || !geometry) return null
+    // 1:1 USD assumption for the stablecoins, as in the analytics dashboard
+    const totalLiquidity = poolState.totalReserves.reduce(
+      (sum, reserve, index) => sum + parseFloat(formatTokenAmount(reserve, TOKENS[index]?.decimals ?? 18)),
+      0
+    )
+    const efficiency = weightedEfficiency(
+      poolState.activeTicks.map((k, index) => {
+        const info = poolState.tickInfo[index]
+        return {
+          efficiency: analyzeContractTick(k, info.r, poolState.tokenCount).efficiency,
+          weight: parseFloat(formatTokenAmount(info.reserves.reduce((sum, reserve) => sum + reserve, BigInt(0)), 18)),
+        }
+      })
+    )
+    const finitePrices = geometry.pairPrices.filter(pair => Number.isFinite(pair.price))
+    return {
+      totalLiquidity,
+      activeTicks: poolState.activeTicks.length,
+      efficiency,
+      maxPriceGap: Math.max(0, ...finitePrices.map(pair => Math.abs(pair.price - 1))) * 100,
+    }
+  }, [poolState, geometry])
 
+  // Renderer, camera, lights and particles, created once per opening and view mode
   useEffect(() => {
-    if (!mountRef.current || !isActive) return
+    const mount = mountRef.current
+    if (!mount || !isActive) return
 
     // Scene setup
     const scene = new THREE.Scene()
@@ -42,7 +339,7 @@ export function Orbital3DVisualization({
     // Camera setup
     const camera = new THREE.PerspectiveCamera(
       75, 
-      mountRef.current.clientWidth / mountRef.current.clientHeight, 
+      mount.clientWidth / mount.clientHeight, 
       0.1, 
       1000
     )
@@ -55,132 +352,26 @@ export function Orbital3DVisualization({
       alpha: true,
       powerPreference: "high-performance"
     })
-    renderer.setSize(mountRef.current.clientWidth, mountRef.current.clientHeight)
+    renderer.setSize(mount.clientWidth, mount.clientHeight)
     renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
-    renderer.shadowMap.enabled = true
-    renderer.shadowMap.type = THREE.PCFSoftShadowMap
-    mountRef.current.appendChild(renderer.domElement)
+    mount.appendChild(renderer.domElement)
 
     // Lighting
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.3)
+    const ambientLight = new THREE.AmbientLight(0xffffff, 0.4)
     scene.add(ambientLight)
 
     const directionalLight = new THREE.DirectionalLight(0xf97316, 1)
     directionalLight.position.set(5, 5, 5)
-    directionalLight.castShadow = true
-    directionalLight.shadow.mapSize.width = 2048
-    directionalLight.shadow.mapSize.height = 2048
     scene.add(directionalLight)
 
     const pointLight = new THREE.PointLight(0xf59e0b, 0.8, 100)
     pointLight.position.set(0, 0, 0)
     scene.add(pointLight)
 
-    // Central sphere (AMM core)
-    const sphereGeometry = new THREE.SphereGeometry(0.5, 32, 32)
-    const sphereMaterial = new THREE.MeshPhongMaterial({
-      color: 0xf97316,
-      transparent: true,
-      opacity: 0.8,
-      emissive: 0xf97316,
-      emissiveIntensity: 0.2
-    })
-    const centralSphere = new THREE.Mesh(sphereGeometry, sphereMaterial)
-    centralSphere.castShadow = true
-    centralSphere.receiveShadow = true
-    scene.add(centralSphere)
-
-    // Orbital rings
-    const ringGroup = new THREE.Group()
-    for (let i = 1; i <= 4; i++) {
-      const ringGeometry = new THREE.RingGeometry(i * 0.8, i * 0.8 + 0.02, 64)
-      const ringMaterial = new THREE.MeshBasicMaterial({
-        color: 0xf97316,
-        transparent: true,
-        opacity: 0.3 - i * 0.05,
-        side: THREE.DoubleSide
-      })
-      const ring = new THREE.Mesh(ringGeometry, ringMaterial)
-      ring.rotation.x = Math.PI / 2
-      ringGroup.add(ring)
-
-      // Add vertical rings for 3D effect
-      const verticalRing = ring.clone()
-      verticalRing.rotation.x = 0
-      verticalRing.rotation.y = Math.PI / 2
-      ringGroup.add(verticalRing)
-    }
-    scene.add(ringGroup)
-
-    // Liquidity nodes
-    const nodeGroup = new THREE.Group()
-    const nodes: THREE.Mesh[] = []
-    const nodeLabels: THREE.Sprite[] = []
-
-    liquidityData.forEach((data, index) => {
-      // Node sphere
-      const nodeGeometry = new THREE.SphereGeometry(0.15 + (data.amount / 2000000) * 0.1, 16, 16)
-      const nodeMaterial = new THREE.MeshPhongMaterial({
-        color: data.color,
-        emissive: data.color,
-        emissiveIntensity: 0.3,
-        transparent: true,
-        opacity: 0.9
-      })
-      const node = new THREE.Mesh(nodeGeometry, nodeMaterial)
-      node.position.set(...data.position as [number, number, number])
-      node.castShadow = true
-      node.receiveShadow = true
-      nodeGroup.add(node)
-      nodes.push(node)
-
-      // Node glow effect
-      const glowGeometry = new THREE.SphereGeometry(0.25 + (data.amount / 2000000) * 0.15, 16, 16)
-      const glowMaterial = new THREE.MeshBasicMaterial({
-        color: data.color,
-        transparent: true,
-        opacity: 0.2
-      })
-      const glow = new THREE.Mesh(glowGeometry, glowMaterial)
-      glow.position.copy(node.position)
-      nodeGroup.add(glow)
-
-      // Text label
-      const canvas = document.createElement('canvas')
-      const context = canvas.getContext('2d')!
-      canvas.width = 256
-      canvas.height = 64
-      context.fillStyle = '#ffffff'
-      context.font = 'bold 24px Arial'
-      context.textAlign = 'center'
-      context.fillText(data.token, 128, 32)
-      context.fillStyle = '#fb923c'
-      context.font = '16px Arial'
-      context.fillText(`$${(data.amount / 1000).toFixed(0)}K`, 128, 52)
-
-      const texture = new THREE.CanvasTexture(canvas)
-      const spriteMaterial = new THREE.SpriteMaterial({ map: texture, transparent: true })
-      const sprite = new THREE.Sprite(spriteMaterial)
-      sprite.position.set(data.position[0], data.position[1] + 0.5, data.position[2])
-      sprite.scale.set(1, 0.25, 1)
-      nodeGroup.add(sprite)
-      nodeLabels.push(sprite)
-
-      // Connecting lines to center
-      const lineGeometry = new THREE.BufferGeometry().setFromPoints([
-        new THREE.Vector3(0, 0, 0),
-        new THREE.Vector3(...data.position as [number, number, number])
-      ])
-      const lineMaterial = new THREE.LineBasicMaterial({
-        color: data.color,
-        transparent: true,
-        opacity: 0.4
-      })
-      const line = new THREE.Line(lineGeometry, lineMaterial)
-      nodeGroup.add(line)
-    })
-
-    scene.add(nodeGroup)
+    // Pool geometry for the selected view, filled in by the effect below
+    const content = new THREE.Group()
+    scene.add(content)
+    contentRef.current = content
 
     // Particle system for ambient effects
     const particleCount = 200
@@ -220,49 +411,21 @@ export function Orbital3DVisualization({
     let targetRotationY = 0
 
     const handleMouseMove = (event: MouseEvent) => {
-      if (!mountRef.current) return
-      const rect = mountRef.current.getBoundingClientRect()
+      const rect = mount.getBoundingClientRect()
       mouseX = ((event.clientX - rect.left) / rect.width) * 2 - 1
       mouseY = -((event.clientY - rect.top) / rect.height) * 2 + 1
       targetRotationX = mouseY * 0.5
       targetRotationY = mouseX * 0.5
     }
 
-    mountRef.current.addEventListener('mousemove', handleMouseMove)
+    mount.addEventListener('mousemove', handleMouseMove)
 
     // Animation loop
     const animate = () => {
       animationIdRef.current = requestAnimationFrame(animate)
+      const time = Date.now() * 0.001
 
-      // Rotate central sphere
-      centralSphere.rotation.y += 0.01
-      centralSphere.rotation.x += 0.005
-
-      // Rotate orbital rings
-      ringGroup.rotation.y += isRotating ? 0.005 : 0
-      ringGroup.rotation.x += isRotating ? 0.002 : 0
-
-      // Animate nodes in orbital motion
-      nodes.forEach((node, index) => {
-        const time = Date.now() * 0.001
-        const radius = Math.sqrt(
-          liquidityData[index].position[0] ** 2 + 
-          liquidityData[index].position[1] ** 2
-        )
-        const angle = time * (0.2 + index * 0.1) + index * (Math.PI * 2 / nodes.length)
-        
-        if (isRotating) {
-          node.position.x = Math.cos(angle) * radius
-          node.position.z = Math.sin(angle) * radius
-          node.position.y = liquidityData[index].position[1] + Math.sin(time + index) * 0.2
-        }
-
-        // Update label positions
-        if (nodeLabels[index]) {
-          nodeLabels[index].position.copy(node.position)
-          nodeLabels[index].position.y += 0.5
-        }
-      })
+      animateViewRef.current(time)
 
       // Animate particles
       const positions = particles.geometry.attributes.position.array as Float32Array
@@ -273,17 +436,21 @@ export function Orbital3DVisualization({
       particles.geometry.attributes.position.needsUpdate = true
 
       // Camera controls
-      if (!isRotating) {
+      const isRotating = isRotatingRef.current
+      if (viewMode === 'orbital') {
+        // Looking down the equal-price vector; the plane itself turns
+        content.rotation.y += isRotating ? 0.002 : 0
+        camera.position.set(targetRotationY * 3, 7, 0.01 - targetRotationX * 3)
+      } else if (!isRotating) {
         camera.position.x += (targetRotationY * 8 - camera.position.x) * 0.05
         camera.position.y += (targetRotationX * 8 - camera.position.y) * 0.05
-        camera.lookAt(0, 0, 0)
       } else {
-        const time = Date.now() * 0.0005
-        camera.position.x = Math.cos(time) * 8
-        camera.position.z = Math.sin(time) * 8
-        camera.position.y = 3 + Math.sin(time * 0.5) * 2
-        camera.lookAt(0, 0, 0)
+        const orbit = Date.now() * 0.0005
+        camera.position.x = Math.cos(orbit) * 8
+        camera.position.z = Math.sin(orbit) * 8
+        camera.position.y = 3 + Math.sin(orbit * 0.5) * 2
       }
+      camera.lookAt(0, 0, 0)
 
       renderer.render(scene, camera)
     }
@@ -300,16 +467,36 @@ export function Orbital3DVisualization({
       if (animationIdRef.current) {
         cancelAnimationFrame(animationIdRef.current)
       }
-      if (mountRef.current && renderer.domElement) {
-        mountRef.current.removeChild(renderer.domElement)
-      }
-      if (mountRef.current) {
-        mountRef.current.removeEventListener('mousemove', handleMouseMove)
-      }
-      renderer.dispose()
+      mount.removeChild(renderer.domElement)
+      mount.removeEventListener('mousemove', handleMouseMove)
+      contentRef.current = null
+      animateViewRef.current = () => undefined
+      disposeObject(scene)
       scene.clear()
+      renderer.dispose()
     }
-  }, [isActive, isRotating, viewMode])
+  }, [isActive, viewMode])
+
+  // Rebuild only the pool geometry when the pool changes, disposing what it replaces
+  const totalReserves = poolState?.totalReserves
+  useEffect(() => {
+    const content = contentRef.current
+    if (!content || !geometry) return
+
+    content.position.set(0, 0, 0)
+    animateViewRef.current =
+      viewMode === 'orbital'
+        ? buildOrbitalView(content, geometry)
+        : viewMode === 'network'
+          ? buildNetworkView(content, geometry, totalReserves ?? [])
+          : buildSphereView(content, geometry)
+
+    return () => {
+      animateViewRef.current = () => undefined
+      disposeObject(content)
+      content.clear()
+    }
+  }, [isActive, viewMode, geometry, totalReserves])
 
   // Handle window resize
   useEffect(() => {
@@ -357,7 +544,7 @@ export function Orbital3DVisualization({
                   3D Orbital Liquidity Visualization
                 </h2>
                 <p className="text-orange-400/70 text-sm mt-1">
-                  Interactive 3D representation of the spherical AMM protocol
+                  Live pool reserves and tick geometry, projected from {geometry?.tokenCount ?? TOKENS.length} dimensions
                 </p>
               </div>
               <button
@@ -371,6 +558,11 @@ export function Orbital3DVisualization({
 
           {/* 3D Canvas */}
           <div ref={mountRef} className="w-full h-full" />
+          {!geometry && (
+            <div className="absolute inset-0 flex items-center justify-center text-orange-300/80 text-sm">
+              Loading pool state…
+            </div>
+          )}
 
           {/* Controls */}
           <div className="absolute bottom-0 left-0 right-0 z-10 p-6 bg-gradient-to-t from-black/80 to-transparent">
@@ -391,36 +583,46 @@ export function Orbital3DVisualization({
                 </motion.button>
                 
                 <motion.button
-                  onClick={() => setViewMode(viewMode === 'sphere' ? 'orbital' : 'sphere')}
+                  onClick={() => setViewMode(VIEW_ORDER[(VIEW_ORDER.indexOf(viewMode) + 1) % VIEW_ORDER.length])}
                   className="px-4 py-2 bg-orange-500/20 border border-orange-500/30 rounded-lg text-orange-300 hover:bg-orange-500/30 transition-colors text-sm font-medium"
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
                 >
-                  🔄 Switch View
+                  🔄 {VIEW_MODES[viewMode].label}
                 </motion.button>
               </div>
 
               {/* Info */}
               <div className="text-xs text-orange-400/70 space-y-1">
-                <div>💡 Mouse: Rotate camera (when paused)</div>
-                <div>🎯 Spheres: Liquidity pools with real-time data</div>
-                <div>⚡ Center: AMM core with K = ||r||² invariant</div>
+                {VIEW_MODES[viewMode].hints.map(hint => (
+                  <div key={hint}>{hint}</div>
+                ))}
               </div>
 
               {/* Stats */}
               <div className="flex gap-4 text-xs">
                 <div className="text-center">
-                  <div className="text-orange-300 font-semibold">$3.75M</div>
+                  <div className="text-orange-300 font-semibold">
+                    {stats ? `$${formatNumber(stats.totalLiquidity)}` : '—'}
+                  </div>
                   <div className="text-orange-400/70">Total Liquidity</div>
                 </div>
                 <div className="text-center">
-                  <div className="text-orange-300 font-semibold">5</div>
-                  <div className="text-orange-400/70">Active Pools</div>
+                  <div className="text-orange-300 font-semibold">{stats?.activeTicks ?? '—'}</div>
+                  <div className="text-orange-400/70">Active Ticks</div>
                 </div>
                 <div className="text-center">
-                  <div className="text-orange-300 font-semibold">3.2x</div>
+                  <div className="text-orange-300 font-semibold">
+                    {stats?.efficiency != null ? `${stats.efficiency.toFixed(1)}x` : '—'}
+                  </div>
                   <div className="text-orange-400/70">Avg Efficiency</div>
                 </div>
+                <div className="text-center">
+                  <div className="text-orange-300 font-semibold">
+                    {stats ? `${stats.maxPriceGap.toFixed(2)}%` : '—'}
+                  </div>
+                  <div className="text-orange-400/70">Max Price Gap</div>
+                </div>
               </div>
             </div>
           </div>
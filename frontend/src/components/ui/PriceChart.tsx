@@ -2,34 +2,40 @@
 
 import { motion } from 'framer-motion'
 import { useMemo } from 'react'
+import { usePoolHistory } from '@/hooks/usePoolHistory'
+import { buildPoolSeries, TIMEFRAME_BUCKETS } from '@/lib/pool-metrics'
 
 interface PriceChartProps {
   data?: Array<{ time: string; price: number }>
+  /** Token indexes priced as `pair[0]` in `pair[1]` when `data` is not given */
+  pair?: readonly [number, number]
   className?: string
 }
 
-export function PriceChart({ data, className = '' }: PriceChartProps) {
-  // Mock data if none provided
+export function PriceChart({ data, pair = [0, 1], className = '' }: PriceChartProps) {
+  // Only subscribe to the indexed history when the caller has no data of its own
+  if (data) return <PriceChartView chartData={data} className={className} />
+  return <IndexedPriceChart pair={pair} className={className} />
+}
+
+// Hourly execution prices from indexed swaps
+function IndexedPriceChart({ pair, className }: { pair: readonly [number, number]; className: string }) {
+  const { records } = usePoolHistory()
+  const [base, quote] = pair
+
   const chartData = useMemo(() => {
-    if (data) return data
-    
-    // Generate some mock price data
-    const mockData = []
-    const basePrice = 1.0
-    let currentPrice = basePrice
-    
-    for (let i = 0; i < 24; i++) {
-      const change = (Math.random() - 0.5) * 0.02 // ±1% change
-      currentPrice = Math.max(0.95, Math.min(1.05, currentPrice + change))
-      mockData.push({
-        time: `${i}:00`,
-        price: currentPrice
-      })
-    }
-    
-    return mockData
-  }, [data])
+    return buildPoolSeries(records, { ...TIMEFRAME_BUCKETS['1D'], pair: [base, quote] })
+      .filter((point) => point.price !== null)
+      .map((point) => ({
+        time: new Date(point.timestamp * 1000).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }),
+        price: point.price as number
+      }))
+  }, [records, base, quote])
+
+  return <PriceChartView chartData={chartData} className={className} />
+}
 
+function PriceChartView({ chartData, className }: { chartData: Array<{ time: string; price: number }>; className: string }) {
   const { minPrice, maxPrice, pathData } = useMemo(() => {
     if (!chartData.length) return { minPrice: 0, maxPrice: 1, pathData: '' }
     
@@ -43,7 +49,7 @@ export function PriceChart({ data, className = '' }: PriceChartProps) {
     const padding = 10
     
     const points = chartData.map((d, i) => {
-      const x = padding + (i / (chartData.length - 1)) * (width - 2 * padding)
+      const x = padding + (i / Math.max(chartData.length - 1, 1)) * (width - 2 * padding)
       const y = height - padding - ((d.price - min) / range) * (height - 2 * padding)
       return `${x},${y}`
     })
@@ -115,28 +121,32 @@ export function PriceChart({ data, className = '' }: PriceChartProps) {
           ))}
           
           {/* Area under curve */}
-          <motion.path
-            d={`${pathData} L 290,90 L 10,90 Z`}
-            className="chart-area"
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            transition={{ delay: 0.3, duration: 0.8 }}
-          />
+          {pathData && (
+            <motion.path
+              d={`${pathData} L 290,90 L 10,90 Z`}
+              className="chart-area"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: 0.3, duration: 0.8 }}
+            />
+          )}
           
           {/* Price line */}
-          <motion.path
-            d={pathData}
-            fill="none"
-            stroke="rgb(59, 130, 246)"
-            className="chart-line"
-            initial={{ pathLength: 0 }}
-            animate={{ pathLength: 1 }}
-            transition={{ duration: 1.5, ease: "easeInOut" }}
-          />
+          {pathData && (
+            <motion.path
+              d={pathData}
+              fill="none"
+              stroke="rgb(59, 130, 246)"
+              className="chart-line"
+              initial={{ pathLength: 0 }}
+              animate={{ pathLength: 1 }}
+              transition={{ duration: 1.5, ease: "easeInOut" }}
+            />
+          )}
           
           {/* Data points */}
           {chartData.map((d, i) => {
-            const x = 10 + (i / (chartData.length - 1)) * 280
+            const x = 10 + (i / Math.max(chartData.length - 1, 1)) * 280
             const y = 90 - ((d.price - minPrice) / (maxPrice - minPrice || 0.01)) * 80
             
             return (
@@ -163,9 +173,9 @@ export function PriceChart({ data, className = '' }: PriceChartProps) {
       </div>
       
       <div className="flex justify-between text-xs text-gray-400 font-mono mt-2">
-        <span>00:00</span>
-        <span>12:00</span>
-        <span>24:00</span>
+        <span>{chartData[0]?.time ?? '--'}</span>
+        <span>{chartData[Math.floor(chartData.length / 2)]?.time ?? '--'}</span>
+        <span>{chartData[chartData.length - 1]?.time ?? '--'}</span>
       </div>
     </motion.div>
   )
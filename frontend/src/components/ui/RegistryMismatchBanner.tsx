@@ -0,0 +1,40 @@
+/**
+ * Orbital AMM - Registry Mismatch Banner
+ *
+ * Shown when the configured pool registry disagrees with the deployed
+ * contracts, since quotes and transactions would target the wrong tokens.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import { useWeb3 } from '@/components/providers/Web3Provider';
+
+export function RegistryMismatchBanner() {
+  const { registryMismatches } = useWeb3()
+
+  if (registryMismatches.length === 0) return null
+
+  return (
+    <div className="relative z-50 mx-auto max-w-3xl mt-20 px-4">
+      <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/40 space-y-2 text-sm">
+        <p className="flex items-center gap-2 text-red-400 font-medium">
+          <AlertTriangle className="w-4 h-4" />
+          Pool configuration does not match the chain
+        </p>
+        <ul className="space-y-1 text-red-300/90">
+          {registryMismatches.map(mismatch => (
+            <li key={`${mismatch.pool}-${mismatch.field}`}>
+              {mismatch.pool}: <span className="font-mono">{mismatch.field}</span> is{' '}
+              <span className="font-mono">{mismatch.actual}</span>, expected{' '}
+              <span className="font-mono">{mismatch.expected}</span>
+            </li>
+          ))}
+        </ul>
+        <p className="text-gray-300">Update the registry for this network before trading or providing liquidity.</p>
+      </div>
+    </div>
+  )
+}
@@ -12,6 +12,10 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ChevronDown } from 'lucide-react';
 import { TOKENS } from '@/lib/constants';
+import { VirtualList } from '@/components/ui/VirtualList';
+
+const OPTION_HEIGHT = 52;
+const DROPDOWN_MAX_HEIGHT = 240;
 
 interface SimpleTokenSelectorProps {
   selectedToken: typeof TOKENS[number];
@@ -65,27 +69,32 @@ export function SimpleTokenSelector({
             initial={{ opacity: 0, y: -10 }}
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: -10 }}
-            className="absolute top-full mt-2 left-0 right-0 bg-gray-900 border border-orange-500/20 rounded-lg shadow-xl z-50 max-h-60 overflow-y-auto"
+            className="absolute top-full mt-2 left-0 right-0 bg-gray-900 border border-orange-500/20 rounded-lg shadow-xl z-50 overflow-hidden"
           >
-            {availableTokens.map((token) => (
-              <motion.button
-                key={token.symbol}
-                onClick={() => handleSelect(token)}
-                className="w-full flex items-center gap-3 px-3 py-2 hover:bg-orange-500/10 transition-colors first:rounded-t-lg last:rounded-b-lg"
-                whileHover={{ backgroundColor: 'rgba(249, 115, 22, 0.1)' }}
-              >
-                <div 
-                  className="w-6 h-6 rounded-full flex items-center justify-center text-white text-xs font-bold"
-                  style={{ backgroundColor: token.color }}
+            <VirtualList
+              items={availableTokens}
+              itemHeight={OPTION_HEIGHT}
+              maxHeight={DROPDOWN_MAX_HEIGHT}
+              getKey={(token) => token.symbol}
+              renderItem={(token) => (
+                <motion.button
+                  onClick={() => handleSelect(token)}
+                  className="w-full h-full flex items-center gap-3 px-3 py-2 hover:bg-orange-500/10 transition-colors"
+                  whileHover={{ backgroundColor: 'rgba(249, 115, 22, 0.1)' }}
                 >
-                  {token.symbol.charAt(0)}
-                </div>
-                <div className="flex-1 text-left">
-                  <div className="text-white font-medium">{token.symbol}</div>
-                  <div className="text-gray-400 text-xs">{token.name}</div>
-                </div>
-              </motion.button>
-            ))}
+                  <div 
+                    className="w-6 h-6 rounded-full flex items-center justify-center text-white text-xs font-bold"
+                    style={{ backgroundColor: token.color }}
+                  >
+                    {token.symbol.charAt(0)}
+                  </div>
+                  <div className="flex-1 text-left">
+                    <div className="text-white font-medium">{token.symbol}</div>
+                    <div className="text-gray-400 text-xs">{token.name}</div>
+                  </div>
+                </motion.button>
+              )}
+            />
           </motion.div>
         )}
       </AnimatePresence>
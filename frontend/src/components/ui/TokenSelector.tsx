@@ -6,6 +6,10 @@ import { ChevronDownIcon, CheckIcon } from 'lucide-react'
 import { motion } from 'framer-motion'
 import { cn } from '@/lib/utils'
 import { TOKENS } from '@/lib/constants'
+import { VirtualList } from '@/components/ui/VirtualList'
+
+const OPTION_HEIGHT = 68
+const OPTIONS_MAX_HEIGHT = 224
 
 interface TokenSelectorProps {
   selectedToken: typeof TOKENS[number]
@@ -64,53 +68,59 @@ export function TokenSelector({
           leaveFrom="opacity-100"
           leaveTo="opacity-0"
         >
-          <Listbox.Options className="absolute z-50 mt-2 max-h-60 w-full overflow-auto rounded-xl glass-morphism-dark py-2 text-base shadow-2xl border border-cyan-500/20 focus:outline-none">
-            {availableTokens.map((token) => (
-              <Listbox.Option
-                key={token.symbol}
-                className={({ active }) =>
-                  cn(
-                    'relative cursor-pointer select-none py-3 pl-4 pr-10 transition-all duration-200',
-                    active ? 'bg-cyan-500/10 border-l-2 border-cyan-400' : 'text-white hover:bg-cyan-500/5'
-                  )
-                }
-                value={token}
-              >
-                {({ selected }) => (
-                  <motion.div
-                    initial={{ opacity: 0, x: -10 }}
-                    animate={{ opacity: 1, x: 0 }}
-                    className="flex items-center"
-                  >
-                    <div 
-                      className="w-8 h-8 rounded-full mr-3 flex items-center justify-center text-white text-sm font-bold shadow-lg"
-                      style={{ 
-                        backgroundColor: token.color,
-                        boxShadow: `0 0 10px ${token.color}40`
-                      }}
+          <Listbox.Options as="div" className="absolute z-50 mt-2 w-full overflow-hidden rounded-xl glass-morphism-dark py-2 text-base shadow-2xl border border-cyan-500/20 focus:outline-none">
+            <VirtualList
+              items={availableTokens}
+              itemHeight={OPTION_HEIGHT}
+              maxHeight={OPTIONS_MAX_HEIGHT}
+              getKey={(token) => token.symbol}
+              renderItem={(token) => (
+                <Listbox.Option
+                  as="div"
+                  className={({ active }) =>
+                    cn(
+                      'relative h-full cursor-pointer select-none py-3 pl-4 pr-10 transition-all duration-200',
+                      active ? 'bg-cyan-500/10 border-l-2 border-cyan-400' : 'text-white hover:bg-cyan-500/5'
+                    )
+                  }
+                  value={token}
+                >
+                  {({ selected }) => (
+                    <motion.div
+                      initial={{ opacity: 0, x: -10 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      className="flex items-center"
                     >
-                      {token.symbol.charAt(0)}
-                    </div>
-                    <div className="flex-1">
-                      <span className={cn(
-                        'block truncate font-bold font-mono',
-                        selected ? 'text-cyan-300' : 'text-white'
-                      )}>
-                        {token.symbol}
-                      </span>
-                      <span className="block truncate text-sm text-cyan-300/70 font-mono">
-                        {token.name.toUpperCase()}
-                      </span>
-                    </div>
-                    {selected && (
-                      <span className="absolute inset-y-0 right-0 flex items-center pr-4 text-cyan-400">
-                        <CheckIcon className="h-5 w-5" aria-hidden="true" />
-                      </span>
-                    )}
-                  </motion.div>
-                )}
-              </Listbox.Option>
-            ))}
+                      <div 
+                        className="w-8 h-8 rounded-full mr-3 flex items-center justify-center text-white text-sm font-bold shadow-lg"
+                        style={{ 
+                          backgroundColor: token.color,
+                          boxShadow: `0 0 10px ${token.color}40`
+                        }}
+                      >
+                        {token.symbol.charAt(0)}
+                      </div>
+                      <div className="flex-1">
+                        <span className={cn(
+                          'block truncate font-bold font-mono',
+                          selected ? 'text-cyan-300' : 'text-white'
+                        )}>
+                          {token.symbol}
+                        </span>
+                        <span className="block truncate text-sm text-cyan-300/70 font-mono">
+                          {token.name.toUpperCase()}
+                        </span>
+                      </div>
+                      {selected && (
+                        <span className="absolute inset-y-0 right-0 flex items-center pr-4 text-cyan-400">
+                          <CheckIcon className="h-5 w-5" aria-hidden="true" />
+                        </span>
+                      )}
+                    </motion.div>
+                  )}
+                </Listbox.Option>
+              )}
+            />
           </Listbox.Options>
         </Transition>
       </div>
@@ -0,0 +1,184 @@
+/**
+ * Orbital AMM - Trade Path Preview
+ *
+ * Cross-section of the pool's reserve space through the equal-price axis,
+ * showing the total reserves moving from their current position to where the
+ * quoted trade leaves them, and any tick boundary the trade would cross.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+'use client';
+
+import { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle } from 'lucide-react';
+import { OrbitalMath, TickStatus, formatTokenAmount, type OrbitalTick } from '@/lib/orbital-math';
+import { buildPoolGeometry, buildTradePath, type Vec3 } from '@/lib/orbital-geometry';
+
+interface TradePathPreviewProps {
+  ticks: readonly OrbitalTick[]
+  tokenIn: number
+  tokenOut: number
+  /** Input amount, before fees */
+  amountIn: bigint
+  swapFee: bigint
+  /** Decimals the pool's reserves and plane constants are denominated in */
+  decimals: number
+}
+
+const VIEW_WIDTH = 320
+const VIEW_HEIGHT = 140
+// How much room the view leaves around the path, as a multiple of its extent
+const VIEW_PADDING = 1.6
+// Smallest view, as a fraction of the pool's height, so tiny trades keep some context
+const MIN_VIEW_FRACTION = 0.002
+const PATH_DURATION_S = 2.4
+
+const INTERIOR_COLOR = '#f97316'
+const BOUNDARY_COLOR = '#ef4444'
+const CROSSING_COLOR = '#facc15'
+
+// The cross-section plane: distance from the equal-price axis, and height along it
+const toPlane = ([x, y, z]: Vec3): [number, number] => [Math.hypot(x, z), y]
+
+export function TradePathPreview({ ticks, tokenIn, tokenOut, amountIn, swapFee, decimals }: TradePathPreviewProps) {
+  const preview = useMemo(() => {
+    if (ticks.length === 0) return null
+    const geometry = buildPoolGeometry(ticks, OrbitalMath.getTotalReserves(ticks, ticks[0].reserves.length))
+    const path = buildTradePath(ticks, tokenIn, tokenOut, amountIn, swapFee, geometry.scale)
+    return path ? { geometry, path } : null
+  }, [ticks, tokenIn, tokenOut, amountIn, swapFee])
+
+  if (!preview) return null
+  const { geometry, path } = preview
+
+  // Fit the view around the path, twice as wide as it is tall
+  const planePoints = path.points.map(toPlane)
+  const hs = planePoints.map(([h]) => h)
+  const ys = planePoints.map(([, y]) => y)
+  const centerH = (Math.min(...hs) + Math.max(...hs)) / 2
+  const centerY = (Math.min(...ys) + Math.max(...ys)) / 2
+  const halfHeight = Math.max(
+    ((Math.max(...hs) - Math.min(...hs)) / 4) * VIEW_PADDING,
+    ((Math.max(...ys) - Math.min(...ys)) / 2) * VIEW_PADDING,
+    geometry.height * MIN_VIEW_FRACTION,
+    Number.EPSILON
+  )
+  const unit = VIEW_HEIGHT / (2 * halfHeight)
+  const toView = ([h, y]: [number, number]): [number, number] => [
+    VIEW_WIDTH / 2 + (h - centerH) * unit,
+    VIEW_HEIGHT / 2 - (y - centerY) * unit,
+  ]
+
+  const viewPoints = planePoints.map(toView)
+  const [startX, startY] = viewPoints[0]
+  const [endX, endY] = viewPoints[viewPoints.length - 1]
+  const crossingPoint = path.crossingPoint ? toView(toPlane(path.crossingPoint)) : null
+  const [axisX] = toView([0, 0])
+  const pathKey = viewPoints.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ')
+
+  const crossedTick = path.crossing.hasCrossing ? ticks.find(tick => tick.k === path.crossing.crossedK) : undefined
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-400">Trade Path</span>
+        <span className="text-xs text-gray-500">reserves along the invariant surface</span>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+        className="w-full rounded-lg bg-black/20 border border-orange-500/10"
+        role="img"
+        aria-label="Trade path preview"
+      >
+        {/* Equal-price axis */}
+        {axisX >= 0 && axisX <= VIEW_WIDTH && (
+          <line x1={axisX} y1={0} x2={axisX} y2={VIEW_HEIGHT} stroke="#fbbf24" strokeOpacity={0.3} strokeDasharray="2 4" />
+        )}
+
+        {/* Each tick's sphere and boundary plane */}
+        {geometry.ticks.map((tick, index) => {
+          const crossed = crossedTick !== undefined && ticks[index].k === crossedTick.k
+          const color = crossed ? CROSSING_COLOR : tick.status === TickStatus.Boundary ? BOUNDARY_COLOR : INTERIOR_COLOR
+          const [centerX, centerYView] = toView([0, tick.center[1]])
+          const [, boundaryY] = toView([0, tick.boundaryHeight])
+          return (
+            <g key={ticks[index].k.toString()}>
+              <circle
+                cx={centerX}
+                cy={centerYView}
+                r={tick.r * unit}
+                fill="none"
+                stroke={color}
+                strokeOpacity={crossed ? 0.9 : 0.35}
+                strokeWidth={crossed ? 2 : 1}
+              />
+              <line
+                x1={0}
+                y1={boundaryY}
+                x2={VIEW_WIDTH}
+                y2={boundaryY}
+                stroke={color}
+                strokeOpacity={crossed ? 0.9 : 0.25}
+                strokeWidth={crossed ? 1.5 : 1}
+                strokeDasharray="4 3"
+              />
+            </g>
+          )
+        })}
+
+        <motion.polyline
+          key={pathKey}
+          points={pathKey}
+          fill="none"
+          stroke="#fb923c"
+          strokeWidth={2}
+          strokeLinecap="round"
+          initial={{ pathLength: 0 }}
+          animate={{ pathLength: 1 }}
+          transition={{ duration: PATH_DURATION_S, ease: 'linear' }}
+        />
+        <circle cx={startX} cy={startY} r={3} fill="#fb923c" />
+        <circle cx={endX} cy={endY} r={4} fill="none" stroke="#fb923c" strokeWidth={1.5} />
+
+        {crossingPoint && (
+          <motion.circle
+            cx={crossingPoint[0]}
+            cy={crossingPoint[1]}
+            r={5}
+            fill="none"
+            stroke={CROSSING_COLOR}
+            strokeWidth={2}
+            animate={{ opacity: [1, 0.3, 1] }}
+            transition={{ duration: 1.2, repeat: Infinity }}
+          />
+        )}
+
+        {/* Reserve point travelling from the current state to the post-trade state */}
+        <motion.circle
+          key={`point-${pathKey}`}
+          r={4}
+          fill="#ffffff"
+          initial={{ cx: startX, cy: startY }}
+          animate={{ cx: viewPoints.map(([x]) => x), cy: viewPoints.map(([, y]) => y) }}
+          transition={{ duration: PATH_DURATION_S, ease: 'linear', repeat: Infinity, repeatDelay: 1 }}
+        />
+      </svg>
+
+      {crossedTick ? (
+        <div className="flex items-start gap-2 text-xs text-yellow-300">
+          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          <span>
+            Crosses the k = {parseFloat(formatTokenAmount(crossedTick.k, decimals)).toFixed(2)} tick
+            {crossedTick.status === TickStatus.Interior ? ' from interior to boundary' : ' from boundary to interior'}
+            {' '}after about {parseFloat(formatTokenAmount(path.crossing.crossingAmountIn, decimals)).toFixed(4)} of the input
+          </span>
+        </div>
+      ) : (
+        <div className="text-xs text-gray-500">No tick boundary crossed</div>
+      )}
+    </div>
+  )
+}
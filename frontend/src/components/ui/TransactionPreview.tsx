@@ -0,0 +1,119 @@
+/**
+ * Orbital AMM - Transaction Preview
+ *
+ * Confirmation step showing the simulated result, gas estimate and any
+ * revert reason before a transaction is signed. A call that cannot reach the
+ * node yet, such as a deposit waiting on its approvals, is shown with the
+ * result of a local check and no gas estimate.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+'use client';
+
+import { motion } from 'framer-motion';
+import { ethers } from 'ethers';
+import { Button } from '@/components/ui/Button';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { ContractErrorMessage } from '@/components/ui/ContractErrorMessage';
+import { VirtualList } from '@/components/ui/VirtualList';
+import { NETWORK } from '@/lib/ethers-provider';
+import type { TransactionSimulation } from '@/lib/orbital-pool-client';
+
+export interface PreviewRow {
+  label: string
+  value: string
+}
+
+// Per-token rows (e.g. one per pool token) scroll once they pass this height
+const PREVIEW_ROW_HEIGHT = 28
+const PREVIEW_ROWS_MAX_HEIGHT = 224
+
+interface TransactionPreviewProps {
+  title: string
+  simulation: TransactionSimulation<unknown> | null
+  /** Simulated outputs to display, e.g. expected amount out */
+  rows?: PreviewRow[]
+  isSimulating?: boolean
+  isSubmitting?: boolean
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+export function TransactionPreview({
+  title,
+  simulation,
+  rows = [],
+  isSimulating,
+  isSubmitting,
+  onConfirm,
+  onCancel,
+}: TransactionPreviewProps) {
+  const symbol = NETWORK.nativeCurrency.symbol
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="p-4 rounded-xl bg-black/30 border border-orange-500/20 space-y-3"
+    >
+      <h3 className="text-sm font-semibold text-white">{title}</h3>
+
+      {isSimulating || !simulation ? (
+        <div className="flex items-center gap-2 text-sm text-gray-400">
+          <LoadingSpinner size="sm" />
+          Simulating transaction...
+        </div>
+      ) : simulation.ok ? (
+        <div className="space-y-2">
+          <VirtualList
+            items={rows}
+            itemHeight={PREVIEW_ROW_HEIGHT}
+            maxHeight={PREVIEW_ROWS_MAX_HEIGHT}
+            getKey={row => row.label}
+            renderItem={row => (
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-400">{row.label}</span>
+                <span className="text-gray-200">{row.value}</span>
+              </div>
+            )}
+          />
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-400">Gas Estimate</span>
+            <span className="text-gray-200">
+              {simulation.gasEstimate === null ? 'After approvals' : `${simulation.gasEstimate.toLocaleString()} units`}
+            </span>
+          </div>
+          {simulation.gasCost !== null && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-400">Network Fee</span>
+              <span className="text-gray-200">
+                {parseFloat(ethers.formatEther(simulation.gasCost)).toFixed(6)} {symbol}
+              </span>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20">
+          <p className="text-xs uppercase tracking-wide text-red-400/80 mb-1">This transaction would revert</p>
+          <ContractErrorMessage error={simulation.error.title} details={simulation.error} />
+        </div>
+      )}
+
+      <div className="flex gap-2 pt-1">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSubmitting} className="flex-1">
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={onConfirm}
+          disabled={isSimulating || !simulation?.ok}
+          loading={isSubmitting}
+          className="flex-1"
+        >
+          Confirm
+        </Button>
+      </div>
+    </motion.div>
+  )
+}
@@ -0,0 +1,130 @@
+/**
+ * Orbital AMM - Transaction Tracker
+ *
+ * Per-step progress for the account's transaction flows: which step awaits
+ * a wallet signature, which are pending on chain, and how each one ended,
+ * including wallet speed-ups and cancels.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+'use client';
+
+import { motion, AnimatePresence } from 'framer-motion';
+import { Check, Circle, ExternalLink, Loader2, MinusCircle, PenLine, Repeat, X } from 'lucide-react';
+import { NETWORK } from '@/lib/ethers-provider';
+import { useTransactions, type TrackedTransaction, type TransactionStatus } from '@/hooks/useTransactions';
+import { cn } from '@/lib/utils';
+
+const STATUS_LABELS: Record<TransactionStatus, string> = {
+  queued: 'Queued',
+  skipped: 'Not needed',
+  'pending-signature': 'Confirm in wallet',
+  submitted: 'Pending',
+  confirmed: 'Confirmed',
+  failed: 'Failed',
+  replaced: 'Replaced',
+}
+
+// Finished flows stay listed until dismissed, up to this many
+const MAX_FINISHED_SHOWN = 3
+
+function StepIcon({ status }: { status: TransactionStatus }) {
+  switch (status) {
+    case 'pending-signature':
+      return <PenLine className="w-3.5 h-3.5 text-amber-400 animate-pulse" />
+    case 'submitted':
+      return <Loader2 className="w-3.5 h-3.5 text-orange-400 animate-spin" />
+    case 'confirmed':
+      return <Check className="w-3.5 h-3.5 text-green-400" />
+    case 'failed':
+      return <X className="w-3.5 h-3.5 text-red-400" />
+    case 'replaced':
+      return <Repeat className="w-3.5 h-3.5 text-red-400" />
+    case 'skipped':
+      return <MinusCircle className="w-3.5 h-3.5 text-gray-500" />
+    default:
+      return <Circle className="w-3.5 h-3.5 text-gray-600" />
+  }
+}
+
+function StepRow({ step }: { step: TrackedTransaction }) {
+  // After a speed-up the replacement is the transaction that actually landed
+  const minedHash = step.replacement?.hash ?? step.hash
+
+  return (
+    <li className="space-y-0.5">
+      <div className="flex items-center gap-2">
+        <StepIcon status={step.status} />
+        <span className={cn('flex-1 truncate', step.status === 'skipped' ? 'text-gray-500' : 'text-gray-200')}>
+          {step.label}
+        </span>
+        <span className="text-gray-400">
+          {step.replacement?.reason === 'repriced' ? 'Sped up' : STATUS_LABELS[step.status]}
+        </span>
+        {minedHash && NETWORK.blockExplorer && (
+          <a
+            href={`${NETWORK.blockExplorer}/tx/${minedHash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-orange-400 hover:text-orange-300"
+          >
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        )}
+      </div>
+      {step.error && <p className="pl-5 text-red-400/90">{step.error}</p>}
+    </li>
+  )
+}
+
+export function TransactionTracker() {
+  const { flows, dismiss } = useTransactions()
+
+  const running = flows.filter(flow => flow.status === 'running')
+  const finished = flows.filter(flow => flow.status !== 'running').slice(0, MAX_FINISHED_SHOWN)
+  const visible = [...running, ...finished]
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 w-80 space-y-2">
+      <AnimatePresence>
+        {visible.map(flow => {
+          const done = flow.steps.filter(step => step.status === 'confirmed' || step.status === 'skipped').length
+          return (
+            <motion.div
+              key={flow.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              className={cn(
+                'p-3 rounded-xl glass-morphism-dark border text-xs space-y-2',
+                flow.status === 'failed' ? 'border-red-500/40' : 'border-orange-500/20'
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-white text-sm truncate">{flow.label}</span>
+                <div className="flex items-center gap-2 text-gray-400">
+                  {flow.steps.length > 1 && (
+                    <span>
+                      {done}/{flow.steps.length}
+                    </span>
+                  )}
+                  {flow.status !== 'running' && (
+                    <button type="button" onClick={() => dismiss(flow.id)} className="hover:text-white">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              <ul className="space-y-1">
+                {flow.steps.map((step, index) => (
+                  <StepRow key={index} step={step} />
+                ))}
+              </ul>
+            </motion.div>
+          )
+        })}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+/**
+ * Orbital AMM - Virtual List
+ *
+ * Fixed-row-height windowed list for per-token UI. Small pools render every
+ * row; once the rows outgrow `maxHeight` only the visible window (plus
+ * `overscan` rows either side) is mounted, so forms stay responsive for pools
+ * with thousands of tokens.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+'use client';
+
+import React, { useState } from 'react';
+import { cn } from '@/lib/utils';
+
+interface VirtualListProps<T> {
+  items: readonly T[]
+  /** Height of every row in pixels, spacing included */
+  itemHeight: number
+  /** Viewport height beyond which the list scrolls and virtualizes */
+  maxHeight: number
+  overscan?: number
+  getKey: (item: T, index: number) => React.Key
+  renderItem: (item: T, index: number) => React.ReactNode
+  className?: string
+}
+
+export function VirtualList<T>({
+  items,
+  itemHeight,
+  maxHeight,
+  overscan = 4,
+  getKey,
+  renderItem,
+  className
+}: VirtualListProps<T>) {
+  const [scrollTop, setScrollTop] = useState(0)
+  const totalHeight = items.length * itemHeight
+
+  if (totalHeight <= maxHeight) {
+    return (
+      <div className={className}>
+        {items.map((item, index) => (
+          <div key={getKey(item, index)} style={{ height: itemHeight }}>
+            {renderItem(item, index)}
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  const first = Math.max(0, Math.floor(scrollTop / itemHeight) - overscan)
+  const last = Math.min(items.length, Math.ceil((scrollTop + maxHeight) / itemHeight) + overscan)
+
+  return (
+    <div
+      className={cn('overflow-y-auto', className)}
+      style={{ maxHeight }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div className="relative" style={{ height: totalHeight }}>
+        {items.slice(first, last).map((item, offset) => {
+          const index = first + offset
+          return (
+            <div
+              key={getKey(item, index)}
+              className="absolute left-0 right-0"
+              style={{ top: index * itemHeight, height: itemHeight }}
+            >
+              {renderItem(item, index)}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
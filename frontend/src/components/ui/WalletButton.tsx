@@ -9,9 +9,9 @@
 'use client';
 
 import { motion, AnimatePresence } from 'framer-motion';
-import { Wallet, ChevronDown, AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+import { Wallet, ChevronDown, AlertTriangle, CheckCircle, Loader2, Eye, X } from 'lucide-react';
 import { useWallet } from '@/hooks/useWallet';
-import { useState } from 'react';
+import React, { useState } from 'react';
 
 interface WalletButtonProps {
   className?: string;
@@ -22,46 +22,227 @@ export function WalletButton({ className = '' }: WalletButtonProps) {
     address,
     isConnected,
     isConnecting,
+    isWatching,
+    error,
     truncatedAddress,
     balance,
     currentChain,
     isSupportedChain,
+    wallets,
+    wallet,
     connectWallet,
+    connectWith,
     disconnect,
+    watchAddress,
+    stopWatching,
     switchToSupportedChain,
   } = useWallet();
 
   const [showDropdown, setShowDropdown] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
+  const [showWatch, setShowWatch] = useState(false);
+  const [watchInput, setWatchInput] = useState('');
 
-  // Not connected state
-  if (!isConnected) {
+  const handleWatch = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (await watchAddress(watchInput)) {
+      setShowWatch(false);
+      setWatchInput('');
+    }
+  };
+
+  // Watch mode: another address, followed read-only
+  if (isWatching) {
     return (
-      <motion.button
-        onClick={connectWallet}
-        disabled={isConnecting}
+      <div
         className={`
-          flex items-center gap-2 px-6 py-3 rounded-xl font-semibold
-          bg-gradient-to-r from-orange-500 to-red-600 
-          hover:from-orange-600 hover:to-red-700
-          text-white shadow-lg transition-all duration-300
-          disabled:opacity-50 disabled:cursor-not-allowed
+          flex items-center gap-3 px-4 py-3 rounded-xl
+          glass-morphism-dark border border-blue-500/30
           ${className}
         `}
-        whileHover={{ scale: isConnecting ? 1 : 1.02 }}
-        whileTap={{ scale: isConnecting ? 1 : 0.98 }}
-        style={{
-          boxShadow: '0 0 20px rgba(249, 115, 22, 0.4)',
-        }}
       >
-        {isConnecting ? (
-          <Loader2 className="w-5 h-5 animate-spin" />
-        ) : (
-          <Wallet className="w-5 h-5" />
+        <Eye className="w-4 h-4 text-blue-400" />
+        <div className="text-left">
+          <div className="text-sm font-mono font-bold text-blue-300">
+            {truncatedAddress}
+          </div>
+          <div className="text-xs text-blue-400/70 font-mono">
+            WATCHING · READ ONLY
+          </div>
+        </div>
+        <button
+          onClick={stopWatching}
+          className="text-blue-300 hover:text-white transition-colors"
+          aria-label="Stop watching"
+          title="Stop watching"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  // Not connected state; with several wallets installed, the user picks one
+  if (!isConnected) {
+    return (
+      <div className="relative z-50 flex items-center gap-2">
+        <motion.button
+          onClick={() => {
+            setShowWatch(false);
+            if (wallets.length > 1) {
+              setShowPicker(!showPicker);
+            } else {
+              connectWallet();
+            }
+          }}
+          disabled={isConnecting}
+          className={`
+            flex items-center gap-2 px-6 py-3 rounded-xl font-semibold
+            bg-gradient-to-r from-orange-500 to-red-600 
+            hover:from-orange-600 hover:to-red-700
+            text-white shadow-lg transition-all duration-300
+            disabled:opacity-50 disabled:cursor-not-allowed
+            ${className}
+          `}
+          whileHover={{ scale: isConnecting ? 1 : 1.02 }}
+          whileTap={{ scale: isConnecting ? 1 : 0.98 }}
+          style={{
+            boxShadow: '0 0 20px rgba(249, 115, 22, 0.4)',
+          }}
+        >
+          {isConnecting ? (
+            <Loader2 className="w-5 h-5 animate-spin" />
+          ) : (
+            <Wallet className="w-5 h-5" />
+          )}
+          <span className="font-mono tracking-wider">
+            {isConnecting ? 'CONNECTING...' : 'CONNECT WALLET'}
+          </span>
+        </motion.button>
+
+        {/* Watch an address without connecting */}
+        <motion.button
+          onClick={() => {
+            setShowPicker(false);
+            setShowWatch(!showWatch);
+          }}
+          className="
+            p-3 rounded-xl glass-morphism-dark
+            border border-orange-500/30 hover:border-orange-400/50
+            text-orange-300 hover:text-orange-200 transition-all duration-300
+          "
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          aria-label="Watch an address"
+          title="Watch an address"
+        >
+          <Eye className="w-5 h-5" />
+        </motion.button>
+
+        <AnimatePresence>
+          {showWatch && (
+            <motion.form
+              onSubmit={handleWatch}
+              initial={{ opacity: 0, y: -10, scale: 0.95 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: -10, scale: 0.95 }}
+              transition={{ duration: 0.2 }}
+              className="
+                absolute top-full right-0 mt-2 w-80 p-4 space-y-3
+                glass-morphism-dark rounded-xl border border-orange-500/20
+                shadow-2xl z-[9999]
+              "
+            >
+              <div className="text-xs text-orange-400/70 font-mono uppercase tracking-wider">
+                Watch Address
+              </div>
+              <input
+                type="text"
+                value={watchInput}
+                onChange={(e) => setWatchInput(e.target.value)}
+                placeholder="0x… or name.eth"
+                autoFocus
+                className="
+                  w-full px-3 py-2 rounded-lg bg-black/30
+                  border border-orange-500/20 focus:border-orange-400/50
+                  text-sm font-mono text-orange-100 outline-none
+                "
+              />
+              {error && <div className="text-xs text-red-400">{error}</div>}
+              <p className="text-xs text-gray-400">
+                View any address&apos;s positions, balances and history. Nothing can be signed in this mode.
+              </p>
+              <button
+                type="submit"
+                disabled={!watchInput.trim()}
+                className="
+                  w-full px-3 py-2 rounded-lg font-mono text-sm
+                  bg-orange-500/20 hover:bg-orange-500/30
+                  border border-orange-500/30 text-orange-200
+                  disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200
+                "
+              >
+                WATCH
+              </button>
+            </motion.form>
+          )}
+        </AnimatePresence>
+
+        <AnimatePresence>
+          {showPicker && (
+            <motion.div
+              initial={{ opacity: 0, y: -10, scale: 0.95 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: -10, scale: 0.95 }}
+              transition={{ duration: 0.2 }}
+              className="
+                absolute top-full right-0 mt-2 w-64
+                glass-morphism-dark rounded-xl border border-orange-500/20
+                shadow-2xl z-[9999]
+              "
+            >
+              <div className="p-2 space-y-1">
+                <div className="px-2 py-1 text-xs text-orange-400/70 font-mono uppercase tracking-wider">
+                  Choose Wallet
+                </div>
+                {wallets.map(option => (
+                  <button
+                    key={option.info.rdns}
+                    onClick={() => {
+                      setShowPicker(false);
+                      connectWith(option);
+                    }}
+                    className="
+                      w-full flex items-center gap-3 px-3 py-2 rounded-lg
+                      hover:bg-orange-500/10 text-left transition-colors duration-200
+                    "
+                  >
+                    {option.info.icon ? (
+                      // Wallet icons are data URIs supplied by the wallet itself
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img src={option.info.icon} alt="" className="w-6 h-6 rounded" />
+                    ) : (
+                      <Wallet className="w-6 h-6 text-orange-400" />
+                    )}
+                    <span className="text-sm font-mono text-orange-200">{option.info.name}</span>
+                  </button>
+                ))}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Click outside to close */}
+        {(showPicker || showWatch) && (
+          <div
+            className="fixed inset-0 z-40"
+            onClick={() => {
+              setShowPicker(false);
+              setShowWatch(false);
+            }}
+          />
         )}
-        <span className="font-mono tracking-wider">
-          {isConnecting ? 'CONNECTING...' : 'CONNECT WALLET'}
-        </span>
-      </motion.button>
+      </div>
     );
   }
 
@@ -162,6 +343,18 @@ export function WalletButton({ className = '' }: WalletButtonProps) {
                 </div>
               </div>
 
+              {/* Wallet */}
+              {wallet && (
+                <div className="space-y-2">
+                  <div className="text-xs text-green-400/70 font-mono uppercase tracking-wider">
+                    Wallet
+                  </div>
+                  <div className="text-sm font-mono text-green-300">
+                    {wallet.name}
+                  </div>
+                </div>
+              )}
+
               {/* Balance */}
               <div className="space-y-2">
                 <div className="text-xs text-green-400/70 font-mono uppercase tracking-wider">
@@ -0,0 +1,40 @@
+/**
+ * Orbital AMM - Watch Mode Banner
+ *
+ * Shown while the app follows an address read-only, so it is clear whose
+ * positions are on screen and why trading and liquidity actions are disabled.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+'use client';
+
+import { Eye } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { useWallet } from '@/hooks/useWallet';
+
+export function WatchModeBanner() {
+  const { address, isWatching, stopWatching } = useWallet()
+
+  if (!isWatching || !address) return null
+
+  return (
+    <div className="relative z-50 mx-auto max-w-3xl mt-20 px-4">
+      <div className="p-4 rounded-xl bg-blue-500/10 border border-blue-500/40 flex items-center gap-4 text-sm">
+        <Eye className="w-5 h-5 text-blue-400 flex-shrink-0" />
+        <div className="flex-1 space-y-1">
+          <p className="text-blue-300 font-medium">
+            Watching <span className="font-mono break-all">{address}</span>
+          </p>
+          <p className="text-gray-300">
+            Read-only: positions, balances and history are this address&apos;s. Swaps, deposits and withdrawals are
+            disabled.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={stopWatching}>
+          Stop Watching
+        </Button>
+      </div>
+    </div>
+  )
+}
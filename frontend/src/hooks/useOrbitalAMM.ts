@@ -1,74 +1,63 @@
 /**
  * Orbital AMM - Contract Interaction Hook
- * 
+ *
  * Custom hook for interacting with the Orbital AMM smart contract.
- * 
+ *
  * @author Orbital Protocol Team
  * @version 1.0.0
  */
 'use client';
 
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { useAccount, usePublicClient, useWalletClient } from 'wagmi';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { parseUnits, formatUnits, Address } from 'viem';
-import { CONTRACTS } from '@/lib/wallet';
-import { ORBITAL_POOL_ABI, ERC20_ABI } from '@/lib/orbital-abi';
-import { useState, useCallback } from 'react';
+import { OrbitalPoolClient, type PoolTokenAmounts } from '@/lib/orbital-pool-client';
+import { createViemTransport } from '@/lib/orbital-pool-client-viem';
+import { ContractActionError, decodeContractError, type ContractErrorDetails } from '@/lib/contract-errors';
+import { useState, useCallback, useMemo } from 'react';
 
-export interface TickInfo {
-  r: bigint;
-  liquidity: bigint;
-  reserves: readonly [bigint, bigint, bigint, bigint, bigint];
-  totalLpShares: bigint;
-  status: number; // 0 = Interior, 1 = Boundary
-  accruedFees: bigint;
-}
+export type { TickInfo, LiquidityPosition } from '@/lib/orbital-pool-client';
+
+const QUERY_KEY = 'orbital-pool';
+
+// Pool client over the connected wagmi clients, or null before a public client exists
+function usePoolClient(): OrbitalPoolClient | null {
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
 
-export interface LiquidityPosition {
-  k: string;
-  lpShares: bigint;
-  reserves: readonly [bigint, bigint, bigint, bigint, bigint];
-  efficiency: number;
+  return useMemo(
+    () => (publicClient ? new OrbitalPoolClient(createViemTransport(publicClient, walletClient ?? null)) : null),
+    [publicClient, walletClient]
+  );
 }
 
 export function useOrbitalAMM() {
   const { address } = useAccount();
+  const client = usePoolClient();
+  const queryClient = useQueryClient();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-
-  const { writeContract, data: hash, isPending: isWritePending, error: writeError } = useWriteContract();
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  });
+  const [errorDetails, setErrorDetails] = useState<ContractErrorDetails | null>(null);
+  const [hash, setHash] = useState<string | undefined>(undefined);
+  const [isConfirmed, setIsConfirmed] = useState(false);
 
   // Read contract data with proper error handling
-  const { data: totalReserves } = useReadContract({
-    address: CONTRACTS.ORBITAL_POOL as Address,
-    abi: ORBITAL_POOL_ABI,
-    functionName: '_getTotalReserves',
-    query: {
-      enabled: !!address,
-    },
+  const { data: poolState } = useQuery({
+    queryKey: [QUERY_KEY, 'state', client?.poolAddress],
+    queryFn: () => client!.getPoolState(),
+    enabled: !!client && !!address,
   });
 
-  const { data: activeTicks } = useReadContract({
-    address: CONTRACTS.ORBITAL_POOL as Address,
-    abi: ORBITAL_POOL_ABI,
-    functionName: 'getActiveTicks',
-    query: {
-      enabled: !!address,
-    },
+  const { data: swapFee } = useQuery({
+    queryKey: [QUERY_KEY, 'swapFee', client?.poolAddress],
+    queryFn: () => client!.getSwapFee(),
+    enabled: !!client,
   });
 
-  const { data: swapFee } = useReadContract({
-    address: CONTRACTS.ORBITAL_POOL as Address,
-    abi: ORBITAL_POOL_ABI,
-    functionName: 'swapFee',
-  });
-
-  // Swap function
-  const swap = useCallback(
-    async (tokenIn: number, tokenOut: number, amountIn: bigint, minAmountOut: bigint) => {
-      if (!address) {
+  // Submit a write through the pool client and track its confirmation
+  const submit = useCallback(
+    async (label: string, send: (client: OrbitalPoolClient) => Promise<string>) => {
+      if (!address || !client) {
         setError('Wallet not connected');
         return;
       }
@@ -76,200 +65,130 @@ export function useOrbitalAMM() {
       try {
         setIsLoading(true);
         setError(null);
-
-        await writeContract({
-          address: CONTRACTS.ORBITAL_POOL as Address,
-          abi: ORBITAL_POOL_ABI,
-          functionName: 'swap',
-          args: [BigInt(tokenIn), BigInt(tokenOut), amountIn, minAmountOut],
-        });
+        setErrorDetails(null);
+        setIsConfirmed(false);
+
+        const txHash = await send(client);
+        setHash(txHash);
+        await client.waitForTransaction(txHash);
+        setIsConfirmed(true);
+        await queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
       } catch (error) {
-        console.error('Swap error:', error);
-        setError(error instanceof Error ? error.message : 'Swap failed');
+        console.error(`${label} error:`, error);
+        const details = decodeContractError(error);
+        setError(`${details.title}: ${details.explanation}`);
+        setErrorDetails(details);
+        throw new ContractActionError(details, error);
       } finally {
         setIsLoading(false);
       }
     },
-    [address, writeContract]
+    [address, client, queryClient]
+  );
+
+  // Swap function
+  const swap = useCallback(
+    (tokenIn: number, tokenOut: number, amountIn: bigint, minAmountOut: bigint) =>
+      submit('Swap', pool => pool.swap(tokenIn, tokenOut, amountIn, minAmountOut)),
+    [submit]
   );
 
   // Add liquidity function
   const addLiquidity = useCallback(
-    async (k: bigint, amounts: readonly [bigint, bigint, bigint, bigint, bigint]) => {
-      if (!address) {
-        setError('Wallet not connected');
-        return;
-      }
-
-      try {
-        setIsLoading(true);
-        setError(null);
-
-        await writeContract({
-          address: CONTRACTS.ORBITAL_POOL as Address,
-          abi: ORBITAL_POOL_ABI,
-          functionName: 'addLiquidity',
-          args: [k, amounts],
-        });
-      } catch (error) {
-        console.error('Add liquidity error:', error);
-        setError(error instanceof Error ? error.message : 'Add liquidity failed');
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    [address, writeContract]
+    (k: bigint, amounts: PoolTokenAmounts) => submit('Add liquidity', pool => pool.addLiquidity(k, amounts)),
+    [submit]
   );
 
   // Remove liquidity function
   const removeLiquidity = useCallback(
-    async (
-      k: bigint,
-      lpSharesToRemove: bigint,
-      minAmountsOut: readonly [bigint, bigint, bigint, bigint, bigint]
-    ) => {
-      if (!address) {
-        setError('Wallet not connected');
-        return;
-      }
-
-      try {
-        setIsLoading(true);
-        setError(null);
-
-        await writeContract({
-          address: CONTRACTS.ORBITAL_POOL as Address,
-          abi: ORBITAL_POOL_ABI,
-          functionName: 'removeLiquidity',
-          args: [k, lpSharesToRemove, minAmountsOut],
-        });
-      } catch (error) {
-        console.error('Remove liquidity error:', error);
-        setError(error instanceof Error ? error.message : 'Remove liquidity failed');
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    [address, writeContract]
+    (k: bigint, lpSharesToRemove: bigint, minAmountsOut: PoolTokenAmounts) =>
+      submit('Remove liquidity', pool => pool.removeLiquidity(k, lpSharesToRemove, minAmountsOut)),
+    [submit]
   );
 
   // Token approval functions
   const approveToken = useCallback(
-    async (tokenAddress: Address, amount: bigint) => {
-      if (!address) {
-        setError('Wallet not connected');
-        return;
-      }
-
-      try {
-        setIsLoading(true);
-        setError(null);
-
-        await writeContract({
-          address: tokenAddress,
-          abi: ERC20_ABI,
-          functionName: 'approve',
-          args: [CONTRACTS.ORBITAL_POOL as Address, amount],
-        });
-      } catch (error) {
-        console.error('Token approval error:', error);
-        setError(error instanceof Error ? error.message : 'Token approval failed');
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    [address, writeContract]
+    (tokenAddress: Address, amount: bigint) =>
+      submit('Token approval', pool => pool.approveToken(tokenAddress, amount)),
+    [submit]
   );
 
   // Get swap quote (read-only calculation)
   const getSwapQuote = useCallback(
     (tokenIn: number, tokenOut: number, amountIn: bigint) => {
       // eslint-disable-next-line react-hooks/rules-of-hooks
-      return useReadContract({
-        address: CONTRACTS.ORBITAL_POOL as Address,
-        abi: ORBITAL_POOL_ABI,
-        functionName: '_calculateSwapOutput',
-        args: [BigInt(tokenIn), BigInt(tokenOut), amountIn],
-        query: {
-          enabled: amountIn > 0,
-        },
+      return useQuery({
+        queryKey: [QUERY_KEY, 'quote', client?.poolAddress, tokenIn, tokenOut, amountIn.toString()],
+        queryFn: () => client!.getSwapQuote(tokenIn, tokenOut, amountIn),
+        enabled: !!client && amountIn > 0,
       });
     },
-    []
+    [client]
   );
 
   // Get tick information
   const getTickInfo = useCallback(
     (k: bigint) => {
       // eslint-disable-next-line react-hooks/rules-of-hooks
-      return useReadContract({
-        address: CONTRACTS.ORBITAL_POOL as Address,
-        abi: ORBITAL_POOL_ABI,
-        functionName: 'getTickInfo',
-        args: [k],
+      return useQuery({
+        queryKey: [QUERY_KEY, 'tick', client?.poolAddress, k.toString()],
+        queryFn: () => client!.getTickInfo(k),
+        enabled: !!client,
       });
     },
-    []
+    [client]
   );
 
   // Get user LP shares for a specific tick
   const getUserLpShares = useCallback(
     (k: bigint) => {
-      if (!address) return { data: BigInt(0) };
-
       // eslint-disable-next-line react-hooks/rules-of-hooks
-      return useReadContract({
-        address: CONTRACTS.ORBITAL_POOL as Address,
-        abi: ORBITAL_POOL_ABI,
-        functionName: 'getUserLpShares',
-        args: [k, address],
+      return useQuery({
+        queryKey: [QUERY_KEY, 'lpShares', client?.poolAddress, k.toString(), address],
+        queryFn: () => client!.getUserLpShares(k, address!),
+        enabled: !!client && !!address,
       });
     },
-    [address]
+    [client, address]
   );
 
   // Get token allowance
   const getTokenAllowance = useCallback(
     (tokenAddress: Address) => {
-      if (!address) return { data: BigInt(0) };
-
       // eslint-disable-next-line react-hooks/rules-of-hooks
-      return useReadContract({
-        address: tokenAddress,
-        abi: ERC20_ABI,
-        functionName: 'allowance',
-        args: [address, CONTRACTS.ORBITAL_POOL as Address],
+      return useQuery({
+        queryKey: [QUERY_KEY, 'allowance', client?.poolAddress, tokenAddress, address],
+        queryFn: () => client!.getTokenAllowance(tokenAddress, address!),
+        enabled: !!client && !!address,
       });
     },
-    [address]
+    [client, address]
   );
 
   // Get token balance
   const getTokenBalance = useCallback(
     (tokenAddress: Address) => {
-      if (!address) return { data: BigInt(0) };
-
       // eslint-disable-next-line react-hooks/rules-of-hooks
-      return useReadContract({
-        address: tokenAddress,
-        abi: ERC20_ABI,
-        functionName: 'balanceOf',
-        args: [address],
+      return useQuery({
+        queryKey: [QUERY_KEY, 'balance', tokenAddress, address],
+        queryFn: () => client!.getTokenBalance(tokenAddress, address!),
+        enabled: !!client && !!address,
       });
     },
-    [address]
+    [client, address]
   );
 
   return {
     // State
-    isLoading: isLoading || isWritePending || isConfirming,
+    isLoading,
     isConfirmed,
-    error: error || writeError?.message,
+    error,
+    errorDetails,
     hash,
 
     // Contract data
-    totalReserves,
-    activeTicks,
+    totalReserves: poolState?.totalReserves,
+    activeTicks: poolState?.activeTicks,
     swapFee,
 
     // Write functions
@@ -287,6 +206,19 @@ export function useOrbitalAMM() {
   };
 }
 
+/**
+ * Price impact of a quoted trade against the pool's spot price
+ */
+export function usePriceImpact(tokenIn: number, tokenOut: number, amountIn: bigint, amountOut: bigint) {
+  const client = usePoolClient();
+
+  return useQuery({
+    queryKey: [QUERY_KEY, 'priceImpact', client?.poolAddress, tokenIn, tokenOut, amountIn.toString(), amountOut.toString()],
+    queryFn: () => client!.getPriceImpact(tokenIn, tokenOut, amountIn, amountOut),
+    enabled: !!client && amountIn > 0 && amountOut > 0,
+  });
+}
+
 // Utility functions for token amount formatting
 export const parseTokenAmount = (amount: string, decimals: number): bigint => {
   try {
@@ -302,4 +234,4 @@ export const formatTokenAmount = (amount: bigint, decimals: number): string => {
   } catch {
     return '0';
   }
-};
\ No newline at end of file
+};
@@ -8,240 +8,311 @@
  */
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
-import { ethers, Contract } from 'ethers';
-import { getProvider, getSigner, CONTRACTS } from '@/lib/ethers-provider';
-import { ORBITAL_POOL_ABI, ERC20_ABI } from '@/lib/orbital-abi';
+import { useState, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { getSigner, NETWORK } from '@/lib/ethers-provider';
+import { createEthersPoolClient } from '@/lib/orbital-pool-client-ethers';
+import type { OrbitalPoolClient, PoolTokenAmounts, TickInfo, TransactionSimulation } from '@/lib/orbital-pool-client';
+import { getTransactionManager, type TransactionStep } from '@/lib/transaction-manager';
+import { getPoolSubscription, snapshotTicks } from '@/lib/pool-subscription';
+import { OrbitalMath } from '@/lib/orbital-math';
+import { OrbitalPoolError, OrbitalPoolSimulator } from '@/lib/orbital-simulator';
+import { findBestRoute, loadRoutablePool, planRouteExecution, type RoutablePool, type SwapRoute } from '@/lib/router';
+import { ORBITAL_POOLS, ROUTER_CONFIG, TOKENS } from '@/lib/constants';
+import { ContractActionError, decodeContractError, type ContractErrorDetails, type DecodeContext } from '@/lib/contract-errors';
 import { useWallet } from './useWallet';
-import toast from 'react-hot-toast';
-
-export interface TickInfo {
-  r: bigint;
-  liquidity: bigint;
-  reserves: readonly [bigint, bigint, bigint, bigint, bigint];
-  totalLpShares: bigint;
-  status: number; // 0 = Interior, 1 = Boundary
-  accruedFees: bigint;
-}
+import { usePoolState } from './usePoolState';
 
-export interface LiquidityPosition {
-  k: string;
-  lpShares: bigint;
-  reserves: readonly [bigint, bigint, bigint, bigint, bigint];
-  efficiency: number;
-}
+export type { TickInfo, LiquidityPosition } from '@/lib/orbital-pool-client';
 
 export function useOrbitalAMMEthers() {
-  const { address, isConnected } = useWallet();
+  const { address, isConnected, isWatching, isSupportedChain } = useWallet();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorDetails, setErrorDetails] = useState<ContractErrorDetails | null>(null);
   const [transactionHash, setTransactionHash] = useState<string | null>(null);
   const [isConfirmed, setIsConfirmed] = useState(false);
 
-  // Contract state
-  const [totalReserves, setTotalReserves] = useState<readonly [bigint, bigint, bigint, bigint, bigint] | null>(null);
-  const [activeTicks, setActiveTicks] = useState<readonly bigint[] | null>(null);
-  const [swapFee, setSwapFee] = useState<bigint | null>(null);
+  // Contract state, kept current by the shared pool subscription
+  const poolState = usePoolState();
 
-  // Initialize contracts
-  const getOrbitalContract = useCallback((withSigner = false) => {
-    const provider = getProvider();
-    const signerOrProvider = withSigner ? getSigner() || provider : provider;
-    return new Contract(CONTRACTS.ORBITAL_POOL, ORBITAL_POOL_ABI, signerOrProvider);
-  }, []);
+  // Pool client bound to the current signer (recreated per call so it picks up wallet changes)
+  const getClient = useCallback(() => createEthersPoolClient(), []);
 
-  const getTokenContract = useCallback((tokenAddress: string, withSigner = false) => {
-    const provider = getProvider();
-    const signerOrProvider = withSigner ? getSigner() || provider : provider;
-    return new Contract(tokenAddress, ERC20_ABI, signerOrProvider);
-  }, []);
-
-  // Load contract data
+  // Re-read pool state now rather than waiting for the next event or block
   const loadContractData = useCallback(async () => {
     try {
-      const contract = getOrbitalContract();
-      
-      const [reserves, ticks, fee] = await Promise.all([
-        contract._getTotalReserves(),
-        contract.getActiveTicks(),
-        contract.swapFee(),
-      ]);
-
-      setTotalReserves(reserves);
-      setActiveTicks(ticks);
-      setSwapFee(fee);
+      await getPoolSubscription().refresh();
     } catch (error) {
       console.error('Error loading contract data:', error);
     }
-  }, [getOrbitalContract]);
+  }, []);
 
-  // Load data on mount and when connected
-  useEffect(() => {
-    if (isConnected) {
-      loadContractData();
-    }
-  }, [isConnected, loadContractData]);
+  // Decode a failed write for the UI and hand it back so callers can rethrow it
+  const reportFailure = useCallback((failure: unknown, context?: DecodeContext) => {
+    const details = decodeContractError(failure, context);
+    setError(`${details.title}: ${details.explanation}`);
+    setErrorDetails(details);
+    return new ContractActionError(details, failure);
+  }, []);
 
-  // Utility function to wait for transaction confirmation
-  const waitForTransaction = async (txHash: string) => {
-    const provider = getProvider();
-    setTransactionHash(txHash);
-    setIsConfirmed(false);
-    
-    try {
-      const receipt = await provider.waitForTransaction(txHash);
-      setIsConfirmed(true);
-      await loadContractData(); // Refresh contract data
-      return receipt;
-    } catch (error) {
-      console.error('Transaction failed:', error);
-      throw error;
-    }
-  };
+  // Refuse a write before anything is sent, reporting why like a decoded failure
+  const refuse = useCallback((details: ContractErrorDetails): never => {
+    setError(`${details.title}: ${details.explanation}`);
+    setErrorDetails(details);
+    throw new ContractActionError(details);
+  }, []);
 
-  // Swap function
-  const swap = useCallback(
-    async (tokenIn: number, tokenOut: number, amountIn: bigint, minAmountOut: bigint) => {
+  // Run writes as one tracked flow; each call gets its own flow, so concurrent calls no longer clobber each other
+  const runFlow = useCallback(
+    async (label: string, steps: TransactionStep[], context?: DecodeContext) => {
+      if (isWatching) {
+        refuse({
+          name: 'WatchMode',
+          title: 'Watch mode is read-only',
+          explanation: 'Transactions cannot be sent while watching another address.',
+          suggestion: 'Stop watching and connect a wallet to transact.',
+        });
+      }
       if (!isConnected || !getSigner()) {
-        setError('Wallet not connected');
-        return;
+        refuse({
+          name: 'WalletNotConnected',
+          title: 'Wallet not connected',
+          explanation: 'A connected wallet is needed to sign transactions.',
+          suggestion: 'Connect your wallet and try again.',
+        });
+      }
+      // The app's contracts exist only on its own network
+      if (!isSupportedChain) {
+        refuse({
+          name: 'WrongNetwork',
+          title: 'Wrong network',
+          explanation: `The pool is deployed on ${NETWORK.name}, but your wallet is on another network.`,
+          suggestion: `Switch your wallet to ${NETWORK.name} to transact.`,
+        });
       }
 
       try {
         setIsLoading(true);
         setError(null);
-
-        const contract = getOrbitalContract(true);
-        const tx = await contract.swap(BigInt(tokenIn), BigInt(tokenOut), amountIn, minAmountOut);
-        
-        await waitForTransaction(tx.hash);
-      } catch (error: any) {
-        console.error('Swap error:', error);
-        setError(error.message || 'Swap failed');
+        setErrorDetails(null);
+        setIsConfirmed(false);
+
+        const flow = await getTransactionManager().run(label, steps);
+        const lastSent = [...flow.steps].reverse().find(step => step.hash);
+        setTransactionHash(lastSent?.replacement?.hash ?? lastSent?.hash ?? null);
+        setIsConfirmed(true);
+        await loadContractData(); // Refresh contract data
+      } catch (error) {
+        console.error(`${label} error:`, error);
+        throw reportFailure(error, context);
       } finally {
         setIsLoading(false);
       }
     },
-    [isConnected, getOrbitalContract]
+    [isConnected, isWatching, isSupportedChain, loadContractData, refuse, reportFailure]
   );
 
-  // Add liquidity function
-  const addLiquidity = useCallback(
-    async (k: bigint, amounts: readonly [bigint, bigint, bigint, bigint, bigint]) => {
-      if (!isConnected || !getSigner()) {
-        setError('Wallet not connected');
-        return;
-      }
+  // Swap function
+  const swap = useCallback(
+    (tokenIn: number, tokenOut: number, amountIn: bigint, minAmountOut: bigint) =>
+      runFlow(
+        `Swap ${TOKENS[tokenIn]?.symbol} for ${TOKENS[tokenOut]?.symbol}`,
+        [{ label: 'Swap', send: () => getClient().swap(tokenIn, tokenOut, amountIn, minAmountOut) }],
+        // Only the input token is pulled from the trader
+        { token: TOKENS[tokenIn] }
+      ),
+    [runFlow, getClient]
+  );
 
-      try {
-        setIsLoading(true);
-        setError(null);
+  // Execute a router path as one swap per hop, approving each pool as needed
+  const swapRoute = useCallback(
+    (route: SwapRoute, slippagePercent: number) => {
+      const steps = planRouteExecution(route, slippagePercent).flatMap((step): TransactionStep[] => {
+        const client = createEthersPoolClient(step.pool);
+        return [
+          approvalStep(client, step.tokenIn, step.amountIn, `Approve ${tokenSymbol(step.tokenIn)} for ${step.poolName}`),
+          {
+            label: `Swap ${tokenSymbol(step.tokenIn)} for ${tokenSymbol(step.tokenOut)} in ${step.poolName}`,
+            send: () => client.swap(step.tokenInIndex, step.tokenOutIndex, step.amountIn, step.minAmountOut),
+          },
+        ];
+      });
+      return runFlow(`Swap ${route.path.map(tokenSymbol).join(' → ')}`, steps);
+    },
+    [runFlow]
+  );
 
-        const contract = getOrbitalContract(true);
-        const tx = await contract.addLiquidity(k, amounts);
-        
-        await waitForTransaction(tx.hash);
-      } catch (error: any) {
-        console.error('Add liquidity error:', error);
-        setError(error.message || 'Add liquidity failed');
-      } finally {
-        setIsLoading(false);
-      }
+  // Add liquidity, first approving every deposited token whose allowance falls short
+  const addLiquidity = useCallback(
+    (k: bigint, amounts: PoolTokenAmounts) => {
+      const client = getClient();
+      const approvals = TOKENS.filter(token => amounts[token.index] > BigInt(0)).map(token =>
+        approvalStep(client, token.address, amounts[token.index])
+      );
+      return runFlow('Add liquidity', [
+        ...approvals,
+        { label: 'Add liquidity', send: () => client.addLiquidity(k, amounts) },
+      ]);
     },
-    [isConnected, getOrbitalContract]
+    [runFlow, getClient]
   );
 
   // Remove liquidity function
   const removeLiquidity = useCallback(
-    async (
-      k: bigint,
-      lpSharesToRemove: bigint,
-      minAmountsOut: readonly [bigint, bigint, bigint, bigint, bigint]
-    ) => {
-      if (!isConnected || !getSigner()) {
-        setError('Wallet not connected');
-        return;
-      }
+    (k: bigint, lpSharesToRemove: bigint, minAmountsOut: PoolTokenAmounts) =>
+      runFlow('Remove liquidity', [
+        { label: 'Remove liquidity', send: () => getClient().removeLiquidity(k, lpSharesToRemove, minAmountsOut) },
+      ]),
+    [runFlow, getClient]
+  );
 
-      try {
-        setIsLoading(true);
-        setError(null);
+  // Token approval function
+  const approveToken = useCallback(
+    (tokenAddress: string, amount: bigint) =>
+      runFlow(
+        `Approve ${tokenSymbol(tokenAddress)}`,
+        [{ label: `Approve ${tokenSymbol(tokenAddress)}`, send: () => getClient().approveToken(tokenAddress, amount) }],
+        { token: TOKENS.find(token => token.address.toLowerCase() === tokenAddress.toLowerCase()) }
+      ),
+    [runFlow, getClient]
+  );
 
-        const contract = getOrbitalContract(true);
-        const tx = await contract.removeLiquidity(k, lpSharesToRemove, minAmountsOut);
-        
-        await waitForTransaction(tx.hash);
-      } catch (error: any) {
-        console.error('Remove liquidity error:', error);
-        setError(error.message || 'Remove liquidity failed');
-      } finally {
-        setIsLoading(false);
-      }
+  // Pre-flight simulations: run the exact write as eth_call + estimateGas before signing
+  const simulateSwap = useCallback(
+    async (
+      tokenIn: number,
+      tokenOut: number,
+      amountIn: bigint,
+      minAmountOut: bigint
+    ): Promise<TransactionSimulation<bigint> | null> => {
+      if (!isConnected || !getSigner()) return null;
+      return getClient().simulateSwap(tokenIn, tokenOut, amountIn, minAmountOut);
     },
-    [isConnected, getOrbitalContract]
+    [isConnected, getClient]
   );
 
-  // Token approval function
-  const approveToken = useCallback(
-    async (tokenAddress: string, amount: bigint) => {
-      if (!isConnected || !getSigner()) {
-        setError('Wallet not connected');
-        return;
-      }
+  const simulateAddLiquidity = useCallback(
+    async (k: bigint, amounts: PoolTokenAmounts): Promise<TransactionSimulation<null> | null> => {
+      if (!isConnected || !getSigner()) return null;
+      return getClient().simulateAddLiquidity(k, amounts);
+    },
+    [isConnected, getClient]
+  );
 
+  /**
+   * Check a deposit locally when the node cannot simulate it yet because its
+   * approvals are still queued: the contract's checks are replayed in the
+   * simulator, or against the live tick when adding to one that exists
+   */
+  const precheckAddLiquidity = useCallback(
+    (k: bigint, amounts: PoolTokenAmounts): TransactionSimulation<null> => {
+      const existing = poolState ? snapshotTicks(poolState).find(tick => tick.k === k) : undefined;
       try {
-        setIsLoading(true);
-        setError(null);
-
-        const tokenContract = getTokenContract(tokenAddress, true);
-        const tx = await tokenContract.approve(CONTRACTS.ORBITAL_POOL, amount);
-        
-        await waitForTransaction(tx.hash);
-      } catch (error: any) {
-        console.error('Approval error:', error);
-        setError(error.message || 'Token approval failed');
-      } finally {
-        setIsLoading(false);
+        if (existing) {
+          // The contract's branch for an existing tick: every amount positive and k valid for the grown radius
+          if (amounts.some(amount => amount <= BigInt(0))) throw new OrbitalPoolError('InvalidAmounts');
+          const radius = OrbitalMath.calculateRadius(existing.reserves.map((reserve, i) => reserve + amounts[i]));
+          if (!OrbitalMath.isValidK(k, radius, amounts.length)) throw new OrbitalPoolError('InvalidKValue');
+        } else {
+          new OrbitalPoolSimulator({ tokenCount: amounts.length }).addLiquidity(address ?? ethers.ZeroAddress, k, amounts);
+        }
+        return { ok: true, result: null, gasEstimate: null, gasPrice: null, gasCost: null };
+      } catch (error) {
+        return { ok: false, error: decodeContractError(error) };
       }
     },
-    [isConnected, getTokenContract]
+    [poolState, address]
+  );
+
+  const simulateRemoveLiquidity = useCallback(
+    async (
+      k: bigint,
+      lpSharesToRemove: bigint,
+      minAmountsOut: PoolTokenAmounts
+    ): Promise<TransactionSimulation<PoolTokenAmounts> | null> => {
+      if (!isConnected || !getSigner()) return null;
+      return getClient().simulateRemoveLiquidity(k, lpSharesToRemove, minAmountsOut);
+    },
+    [isConnected, getClient]
   );
 
   // Get swap quote (read-only calculation)
   const getSwapQuote = useCallback(
     async (tokenIn: number, tokenOut: number, amountIn: bigint): Promise<bigint | null> => {
       try {
-        const contract = getOrbitalContract();
-        const result = await contract._calculateSwapOutput(BigInt(tokenIn), BigInt(tokenOut), amountIn);
-        return result;
+        return await getClient().getSwapQuote(tokenIn, tokenOut, amountIn);
       } catch (error) {
         console.error('Error getting swap quote:', error);
         return null;
       }
     },
-    [getOrbitalContract]
+    [getClient]
+  );
+
+  // Best route across the registered pools (read-only calculation)
+  const findRoute = useCallback(
+    async (tokenIn: string, tokenOut: string, amountIn: bigint): Promise<SwapRoute | null> => {
+      try {
+        const [loaded, gasPrice] = await Promise.all([
+          Promise.allSettled(
+            ORBITAL_POOLS.map(pool => loadRoutablePool(createEthersPoolClient(pool.address), pool.name, pool.tokens))
+          ),
+          getClient().getGasPrice().catch(() => null),
+        ]);
+        // A pool that fails to load is left out rather than failing the whole search
+        const pools = loaded.flatMap((result): RoutablePool[] => (result.status === 'fulfilled' ? [result.value] : []));
+
+        return findBestRoute(pools, tokenIn, tokenOut, amountIn, {
+          maxHops: ROUTER_CONFIG.maxHops,
+          gasPrice,
+          nativeTokenPrice: ROUTER_CONFIG.nativeTokenPrice,
+        });
+      } catch (error) {
+        console.error('Error finding swap route:', error);
+        return null;
+      }
+    },
+    [getClient]
   );
 
   // Get tick information
   const getTickInfo = useCallback(
     async (k: bigint): Promise<TickInfo | null> => {
       try {
-        const contract = getOrbitalContract();
-        const result = await contract.getTickInfo(k);
-        return {
-          r: result[0],
-          liquidity: result[1],
-          reserves: result[2],
-          totalLpShares: result[3],
-          status: result[4],
-          accruedFees: result[5],
-        };
+        return await getClient().getTickInfo(k);
       } catch (error) {
         console.error('Error getting tick info:', error);
         return null;
       }
     },
-    [getOrbitalContract]
+    [getClient]
+  );
+
+  // Get the input needed for an exact output amount (read-only calculation)
+  const getSwapQuoteExactOut = useCallback(
+    async (tokenIn: number, tokenOut: number, amountOut: bigint): Promise<bigint | null> => {
+      try {
+        return await getClient().getSwapQuoteExactOut(tokenIn, tokenOut, amountOut);
+      } catch (error) {
+        console.error('Error getting exact-output quote:', error);
+        return null;
+      }
+    },
+    [getClient]
+  );
+
+  // Price impact of a quoted trade against the pool's spot price
+  const getPriceImpact = useCallback(
+    async (tokenIn: number, tokenOut: number, amountIn: bigint, amountOut: bigint): Promise<number | null> => {
+      try {
+        return await getClient().getPriceImpact(tokenIn, tokenOut, amountIn, amountOut);
+      } catch (error) {
+        console.error('Error getting price impact:', error);
+        return null;
+      }
+    },
+    [getClient]
   );
 
   // Get user LP shares for a specific tick
@@ -250,15 +321,13 @@ export function useOrbitalAMMEthers() {
       if (!address) return null;
 
       try {
-        const contract = getOrbitalContract();
-        const result = await contract.getUserLpShares(k, address);
-        return result;
+        return await getClient().getUserLpShares(k, address);
       } catch (error) {
         console.error('Error getting user LP shares:', error);
         return null;
       }
     },
-    [address, getOrbitalContract]
+    [address, getClient]
   );
 
   // Get token allowance
@@ -267,15 +336,13 @@ export function useOrbitalAMMEthers() {
       if (!address) return null;
 
       try {
-        const tokenContract = getTokenContract(tokenAddress);
-        const result = await tokenContract.allowance(address, CONTRACTS.ORBITAL_POOL);
-        return result;
+        return await getClient().getTokenAllowance(tokenAddress, address);
       } catch (error) {
         console.error('Error getting token allowance:', error);
         return null;
       }
     },
-    [address, getTokenContract]
+    [address, getClient]
   );
 
   // Get token balance
@@ -284,20 +351,19 @@ export function useOrbitalAMMEthers() {
       if (!address) return null;
 
       try {
-        const tokenContract = getTokenContract(tokenAddress);
-        const result = await tokenContract.balanceOf(address);
-        return result;
+        return await getClient().getTokenBalance(tokenAddress, address);
       } catch (error) {
         console.error('Error getting token balance:', error);
         return null;
       }
     },
-    [address, getTokenContract]
+    [address, getClient]
   );
 
   // Clear error
   const clearError = useCallback(() => {
     setError(null);
+    setErrorDetails(null);
   }, []);
 
   // Clear transaction state
@@ -311,21 +377,34 @@ export function useOrbitalAMMEthers() {
     isLoading,
     isConfirmed,
     error,
+    errorDetails,
     transactionHash,
 
     // Contract data
-    totalReserves,
-    activeTicks,
-    swapFee,
+    poolState,
+    totalReserves: poolState?.totalReserves ?? null,
+    activeTicks: poolState?.activeTicks ?? null,
+    tickInfo: poolState?.tickInfo ?? null,
+    swapFee: poolState?.swapFee ?? null,
 
     // Write functions
     swap,
+    swapRoute,
     addLiquidity,
     removeLiquidity,
     approveToken,
 
+    // Simulation functions
+    simulateSwap,
+    simulateAddLiquidity,
+    precheckAddLiquidity,
+    simulateRemoveLiquidity,
+
     // Read functions
     getSwapQuote,
+    getSwapQuoteExactOut,
+    findRoute,
+    getPriceImpact,
     getTickInfo,
     getUserLpShares,
     getTokenAllowance,
@@ -338,6 +417,27 @@ export function useOrbitalAMMEthers() {
   };
 }
 
+// Step labels name tokens by symbol, falling back to the address for tokens outside the registry
+const tokenSymbol = (address: string): string =>
+  TOKENS.find(token => token.address.toLowerCase() === address.toLowerCase())?.symbol ?? address;
+
+// Approval step that is skipped when the pool may already spend `amount`
+function approvalStep(
+  client: OrbitalPoolClient,
+  tokenAddress: string,
+  amount: bigint,
+  label = `Approve ${tokenSymbol(tokenAddress)}`
+): TransactionStep {
+  return {
+    label,
+    skip: async () => {
+      const owner = client.account;
+      return owner !== null && (await client.getTokenAllowance(tokenAddress, owner)) >= amount;
+    },
+    send: () => client.approveToken(tokenAddress, amount),
+  };
+}
+
 // Utility functions for token amount formatting
 export const parseTokenAmount = (amount: string, decimals: number): bigint => {
   try {
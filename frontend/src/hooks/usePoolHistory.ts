@@ -0,0 +1,69 @@
+/**
+ * Orbital AMM - Pool History Hook
+ *
+ * Exposes the indexed pool history and keeps the shared indexer following
+ * new blocks while at least one component is mounted.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getPoolIndexer } from '@/lib/pool-indexer';
+import type { PoolHistory, PoolHistoryRecord } from '@/lib/pool-history';
+
+// Components sharing the indexer; it follows the chain while this is non-zero
+let followers = 0;
+let stopFollowing: (() => void) | null = null;
+
+export function usePoolHistory() {
+  const [history, setHistory] = useState<PoolHistory | null>(null);
+  // Replaced on every update, so memoized derivations can depend on it
+  const [records, setRecords] = useState<PoolHistoryRecord[]>([]);
+  const [lastIndexedBlock, setLastIndexedBlock] = useState(-1);
+  const [isSyncing, setIsSyncing] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const indexer = getPoolIndexer();
+    setHistory(indexer.history);
+
+    const refresh = () => {
+      setLastIndexedBlock(indexer.lastIndexedBlock);
+      setRecords(indexer.history.getRecords());
+    };
+    const removeListener = indexer.onUpdate(refresh);
+
+    indexer
+      .sync()
+      .then(() => setError(null))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to index pool history'))
+      .finally(() => {
+        refresh();
+        setIsSyncing(false);
+      });
+
+    followers += 1;
+    if (!stopFollowing) {
+      stopFollowing = indexer.start(err => console.error('Pool indexer error:', err));
+    }
+
+    return () => {
+      removeListener();
+      followers -= 1;
+      if (followers === 0 && stopFollowing) {
+        stopFollowing();
+        stopFollowing = null;
+      }
+    };
+  }, []);
+
+  return {
+    history,
+    records,
+    lastIndexedBlock,
+    isSyncing,
+    error,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Orbital AMM - Live Pool State Hook
+ *
+ * Exposes the pool's live state from the shared subscription, which follows
+ * the chain for as long as at least one component uses this hook.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getPoolSubscription, type PoolSnapshot } from '@/lib/pool-subscription';
+
+export type { PoolSnapshot } from '@/lib/pool-subscription';
+
+// Components currently following the chain through the shared subscription
+let followers = 0;
+let stopFollowing: (() => void) | null = null;
+
+export function usePoolState(): PoolSnapshot | null {
+  const [snapshot, setSnapshot] = useState<PoolSnapshot | null>(null);
+
+  useEffect(() => {
+    const subscription = getPoolSubscription();
+    setSnapshot(subscription.getSnapshot());
+    const removeListener = subscription.onUpdate(setSnapshot);
+
+    followers += 1;
+    if (!stopFollowing) {
+      stopFollowing = subscription.start();
+    }
+
+    return () => {
+      removeListener();
+      followers -= 1;
+      if (followers === 0 && stopFollowing) {
+        stopFollowing();
+        stopFollowing = null;
+      }
+    };
+  }, []);
+
+  return snapshot;
+}
@@ -0,0 +1,67 @@
+/**
+ * Orbital AMM - Portfolio Hook
+ *
+ * LP positions of the connected wallet, or of the watched address in watch
+ * mode, refreshed as new pool events are indexed.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { createEthersPoolClient } from '@/lib/orbital-pool-client-ethers';
+import { loadPortfolio, type PortfolioSummary } from '@/lib/portfolio';
+import { useWallet } from './useWallet';
+import { usePoolHistory } from './usePoolHistory';
+
+export function usePortfolio() {
+  const { address, isWatching } = useWallet();
+  const { records } = usePoolHistory();
+  const [portfolio, setPortfolio] = useState<PortfolioSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ticks the wallet ever deposited into, so removed ticks still show up
+  const knownTicks = useMemo(() => {
+    if (!address) return [];
+    const owner = address.toLowerCase();
+    return records.flatMap(record =>
+      record.type === 'liquidityAdded' && record.provider.toLowerCase() === owner ? [record.k] : []
+    );
+  }, [address, records]);
+
+  const refresh = useCallback(async () => {
+    if (!address) {
+      setPortfolio(null);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setPortfolio(await loadPortfolio(createEthersPoolClient(), address, knownTicks));
+    } catch (err) {
+      console.error('Error loading portfolio:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load positions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, knownTicks]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    positions: portfolio?.positions ?? [],
+    totalUsdValue: portfolio?.totalUsdValue ?? 0,
+    totalAccruedFeesUsd: portfolio?.totalAccruedFeesUsd ?? 0,
+    /** Whether there is an account, connected or watched, to show positions for */
+    hasAccount: address !== null,
+    isWatching,
+    isLoading,
+    error,
+    refresh,
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Orbital AMM - Transactions Hook
+ *
+ * Exposes the connected account's transaction flows from the shared
+ * transaction manager, resuming any left pending by a previous page load.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { getTransactionManager, type TransactionFlow } from '@/lib/transaction-manager';
+import { useWallet } from './useWallet';
+
+export type { TransactionFlow, TrackedTransaction, TransactionStatus } from '@/lib/transaction-manager';
+
+export function useTransactions() {
+  const { address } = useWallet();
+  const [allFlows, setAllFlows] = useState<readonly TransactionFlow[]>([]);
+
+  useEffect(() => {
+    const manager = getTransactionManager();
+    setAllFlows(manager.getFlows());
+    const removeListener = manager.onUpdate(setAllFlows);
+    manager.resume();
+    return removeListener;
+  }, []);
+
+  const flows = useMemo(
+    () => allFlows.filter(flow => !flow.account || !address || flow.account.toLowerCase() === address.toLowerCase()),
+    [allFlows, address]
+  );
+
+  const dismiss = useCallback((id: string) => getTransactionManager().dismiss(id), []);
+
+  return {
+    flows,
+    activeFlows: flows.filter(flow => flow.status === 'running'),
+    dismiss,
+  };
+}
@@ -8,100 +8,140 @@
  */
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import {
   connectWallet as connectEthersWallet,
+  reconnectWallet,
   disconnectWallet,
   getWalletAddress,
   getETHBalance,
   formatAddress,
   isWalletConnected,
-  switchToSomniaTestnet,
-  SOMNIA_TESTNET,
+  switchNetwork,
+  getEthereumProvider,
+  getAvailableWallets,
+  getConnectedWallet,
+  onWalletChange,
+  watchAddress as watchEthersAddress,
+  stopWatching as stopWatchingAddress,
+  getWatchedAddress,
+  NETWORK,
 } from '@/lib/ethers-provider';
+import { getRegistries, hasRegistry, setActiveChainId } from '@/lib/registry';
+import {
+  onWalletsDiscovered,
+  type EIP6963ProviderDetail,
+  type EIP6963ProviderInfo,
+} from '@/lib/wallet-discovery';
+
+export type { EIP6963ProviderDetail, EIP6963ProviderInfo } from '@/lib/wallet-discovery';
+
+const EMPTY_BALANCE = `0.0000 ${NETWORK.nativeCurrency.symbol}`;
+
+/**
+ * Run the app on `chainId`'s deployment; tokens and pools are fixed per page
+ * load, so this reloads the page
+ */
+function loadNetwork(chainId: number): void {
+  setActiveChainId(chainId);
+  window.location.reload();
+}
 
 export function useWallet() {
   const [address, setAddress] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
-  const [balance, setBalance] = useState('0.0000 STT');
+  const [balance, setBalance] = useState(EMPTY_BALANCE);
   const [isBalanceLoading, setIsBalanceLoading] = useState(false);
   const [chainId, setChainId] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  // Check if wallet is connected on mount
+  // Installed wallets, growing as they announce themselves
+  const [wallets, setWallets] = useState<readonly EIP6963ProviderDetail[]>([]);
+  // Wallet the connection goes through
+  const [wallet, setWallet] = useState<EIP6963ProviderInfo | null>(null);
+  // Account followed read-only in watch mode
+  const [watchedAddress, setWatchedAddress] = useState<string | null>(null);
+
+  // Follow the app-wide connection, so every component using this hook agrees,
+  // and silently restore the previous session's connection on mount
   useEffect(() => {
-    const checkConnection = async () => {
-      if (typeof window !== 'undefined' && window.ethereum && isWalletConnected()) {
-        try {
-          const addr = await getWalletAddress();
-          if (addr) {
-            setAddress(addr);
-            setIsConnected(true);
-            await updateBalance(addr);
-            await updateChainId();
-          }
-        } catch (error) {
-          console.error('Error checking wallet connection:', error);
-        }
+    let active = true;
+
+    const syncConnection = async () => {
+      const addr = await getWalletAddress();
+      const watched = getWatchedAddress();
+      if (!active) return;
+
+      setWallet(getConnectedWallet());
+      setAddress(addr);
+      setIsConnected(addr !== null);
+      setWatchedAddress(watched);
+
+      if (addr) {
+        await updateChainId();
+      } else {
+        setChainId(null);
       }
+      if (watched ?? addr) {
+        await updateBalance(watched ?? addr ?? undefined);
+      } else {
+        setBalance(EMPTY_BALANCE);
+      }
+    };
+    const sync = () => {
+      syncConnection().catch(error => console.error('Error checking wallet connection:', error));
     };
 
-    checkConnection();
+    const removeListener = onWalletChange(sync);
+    if (isWalletConnected()) {
+      sync();
+    } else {
+      // Notifies the listener above if it restores a connection
+      reconnectWallet();
+    }
+
+    return () => {
+      active = false;
+      removeListener();
+    };
   }, []);
 
-  // Listen for account changes
   useEffect(() => {
-    if (typeof window !== 'undefined' && window.ethereum) {
-      const handleAccountsChanged = (accounts: string[]) => {
-        if (accounts.length === 0) {
-          // Wallet disconnected
-          setAddress(null);
-          setIsConnected(false);
-          setBalance('0.0000 ETH');
-          disconnectWallet();
-        } else {
-          // Account changed
-          setAddress(accounts[0]);
-          setIsConnected(true);
-          updateBalance(accounts[0]);
-        }
-      };
-
-      const handleChainChanged = (chainId: string) => {
-        const newChainId = parseInt(chainId, 16);
-        setChainId(newChainId);
-      };
-
-      window.ethereum.on('accountsChanged', handleAccountsChanged);
-      window.ethereum.on('chainChanged', handleChainChanged);
-
-      return () => {
-        window.ethereum?.removeListener('accountsChanged', handleAccountsChanged);
-        window.ethereum?.removeListener('chainChanged', handleChainChanged);
-      };
-    }
+    setWallets(getAvailableWallets());
+    return onWalletsDiscovered(setWallets);
   }, []);
 
+  // When the wallet moves to another network the app has a deployment for,
+  // follow it there; moving to one without a deployment leaves writes blocked
+  const previousChainId = useRef<number | null>(null);
+  useEffect(() => {
+    const previous = previousChainId.current;
+    previousChainId.current = chainId;
+    if (previous === null || chainId === null || chainId === previous) return;
+    if (chainId !== NETWORK.chainId && hasRegistry(chainId)) loadNetwork(chainId);
+  }, [chainId]);
+
   const updateBalance = async (addr?: string) => {
     setIsBalanceLoading(true);
     try {
       const sttBalance = await getETHBalance(addr);
       // Format balance to show reasonable decimal places (4 digits)
       const formattedBalance = parseFloat(sttBalance).toFixed(4);
-      setBalance(`${formattedBalance} STT`);
+      setBalance(`${formattedBalance} ${NETWORK.nativeCurrency.symbol}`);
     } catch (error) {
       console.error('Error fetching balance:', error);
-      setBalance('0.0000 STT');
+      setBalance(EMPTY_BALANCE);
     } finally {
       setIsBalanceLoading(false);
     }
   };
 
   const updateChainId = async () => {
-    if (typeof window !== 'undefined' && window.ethereum) {
+    const ethereum = getEthereumProvider();
+    if (ethereum) {
       try {
-        const chainId = await window.ethereum.request({ method: 'eth_chainId' });
+        const chainId: string = await ethereum.request({ method: 'eth_chainId' });
         setChainId(parseInt(chainId, 16));
       } catch (error) {
         console.error('Error getting chain ID:', error);
@@ -109,24 +149,16 @@ export function useWallet() {
     }
   };
 
-  const connectWallet = useCallback(async () => {
-    if (typeof window === 'undefined' || !window.ethereum) {
-      setError('MetaMask is not installed. Please install MetaMask to continue.');
-      return;
-    }
-
+  /**
+   * Connect to `selected`, or without a choice to the wallet used last time
+   * (else the first one found); the connection listener updates the state
+   */
+  const connectWith = useCallback(async (selected?: EIP6963ProviderDetail) => {
     setIsConnecting(true);
     setError(null);
 
     try {
-      const signer = await connectEthersWallet();
-      if (signer) {
-        const addr = await signer.getAddress();
-        setAddress(addr);
-        setIsConnected(true);
-        await updateBalance(addr);
-        await updateChainId();
-      }
+      await connectEthersWallet(selected);
     } catch (error: any) {
       console.error('Failed to connect wallet:', error);
       setError(error.message || 'Failed to connect wallet');
@@ -135,18 +167,37 @@ export function useWallet() {
     }
   }, []);
 
+  // Usable directly as an event handler
+  const connectWallet = useCallback(() => connectWith(), [connectWith]);
+
   const disconnect = useCallback(() => {
     disconnectWallet();
-    setAddress(null);
-    setIsConnected(false);
-    setBalance('0.0000 STT');
-    setChainId(null);
+    setError(null);
+  }, []);
+
+  /**
+   * Enter watch mode for an address or name
+   * @returns Whether watching started; otherwise `error` says why
+   */
+  const watchAddress = useCallback(async (input: string) => {
+    setError(null);
+    try {
+      await watchEthersAddress(input);
+      return true;
+    } catch (error: any) {
+      setError(error.message || 'Could not watch that address');
+      return false;
+    }
+  }, []);
+
+  const stopWatching = useCallback(() => {
+    stopWatchingAddress();
     setError(null);
   }, []);
 
   const switchToSupportedChain = useCallback(async () => {
     try {
-      await switchToSomniaTestnet();
+      await switchNetwork();
       await updateChainId();
     } catch (error: any) {
       console.error('Failed to switch network:', error);
@@ -154,28 +205,54 @@ export function useWallet() {
     }
   }, []);
 
-  // Check if on supported chain
-  const isSupportedChain = chainId === SOMNIA_TESTNET.chainId;
+  /**
+   * Run the app on another network, moving the connected wallet there too
+   */
+  const selectNetwork = useCallback(async (targetChainId: number) => {
+    if (targetChainId === NETWORK.chainId) return;
+    if (isWalletConnected()) {
+      try {
+        await switchNetwork(targetChainId);
+      } catch (error) {
+        // The app still moves; the wallet is offered the switch again from there
+        console.warn('Wallet did not switch network:', error);
+      }
+    }
+    loadNetwork(targetChainId);
+  }, []);
+
+  // Check if the wallet is on the network the app is running on
+  const isSupportedChain = chainId === NETWORK.chainId;
   
+  // In watch mode the watched account stands in for the wallet's, and nothing can be signed
+  const isWatching = watchedAddress !== null;
+  const account = watchedAddress ?? address;
+
   // Truncate address for display
-  const truncatedAddress = address ? formatAddress(address) : '';
+  const truncatedAddress = account ? formatAddress(account) : '';
 
   // Current chain info
   const currentChain = isSupportedChain
     ? {
-        name: SOMNIA_TESTNET.name,
-        rpcUrl: SOMNIA_TESTNET.rpcUrl,
-        blockExplorer: SOMNIA_TESTNET.blockExplorer,
+        name: NETWORK.name,
+        rpcUrl: NETWORK.rpcUrls[0],
+        blockExplorer: NETWORK.blockExplorer,
       }
     : null;
 
   return {
-    // Connection state
-    address,
-    isConnected,
+    // Connection state; `address` is the watched account in watch mode
+    address: account,
+    walletAddress: address,
+    isConnected: isConnected && !isWatching,
     isConnecting,
+    isWatching,
     truncatedAddress,
     error,
+
+    // Wallets
+    wallets,
+    wallet,
     
     // Balance
     balance,
@@ -185,11 +262,17 @@ export function useWallet() {
     chainId,
     currentChain,
     isSupportedChain,
+    network: NETWORK,
+    networks: getRegistries(),
     
     // Actions
     connectWallet,
+    connectWith,
     disconnect,
+    watchAddress,
+    stopWatching,
     switchToSupportedChain,
-    updateBalance: () => updateBalance(address || undefined),
+    selectNetwork,
+    updateBalance: () => updateBalance(account || undefined),
   };
 }
\ No newline at end of file
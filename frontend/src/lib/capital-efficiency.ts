@@ -0,0 +1,109 @@
+/**
+ * Orbital AMM - Capital Efficiency
+ *
+ * Whitepaper capital-efficiency model for a tick (r, k, n): the virtual
+ * reserves an LP never has to deposit because no trade inside the tick can
+ * take them, and the resulting efficiency relative to a full-range position.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import { ethers } from 'ethers';
+import { OrbitalMath } from './orbital-math';
+
+export interface TickEfficiency {
+  tokenCount: number;
+  radius: number;
+  k: number;
+  /** Price one asset depegs to, against the rest, when the tick reaches its boundary */
+  depegPrice: number;
+  /** Each reserve at the equal-price point, r(1 - 1/√n) */
+  equalPriceReserve: number;
+  /** Minimum reserve of any asset inside the tick; held virtually, never deposited */
+  virtualReserve: number;
+  /** Reserve per asset actually deposited at the equal-price point */
+  realReserve: number;
+  /** equalPriceReserve / realReserve; 1 for a full-range position */
+  efficiency: number;
+}
+
+export type EfficiencyCurvePoint = { depegPrice: number } & Record<string, number>;
+
+/** Depeg prices sampled by default when plotting efficiency curves */
+export const DEFAULT_DEPEG_PRICES: readonly number[] = [
+  0.5, 0.6, 0.7, 0.8, 0.85, 0.9, 0.92, 0.94, 0.95, 0.96, 0.97, 0.98, 0.99, 0.995, 0.999,
+];
+
+/**
+ * Virtual and real reserves of a tick with radius `radius` and plane constant `k`
+ */
+export function analyzeTick(radius: number, k: number, tokenCount: number): TickEfficiency {
+  const kRatio = radius > 0 ? k / radius : 0;
+  const equalPriceRatio = 1 - 1 / Math.sqrt(tokenCount);
+  const virtualRatio = Math.min(Math.max(OrbitalMath.minReserveRatio(kRatio, tokenCount), 0), equalPriceRatio);
+
+  return {
+    tokenCount,
+    radius,
+    k,
+    depegPrice: OrbitalMath.depegPriceForKRatio(kRatio, tokenCount),
+    equalPriceReserve: equalPriceRatio * radius,
+    virtualReserve: virtualRatio * radius,
+    realReserve: (equalPriceRatio - virtualRatio) * radius,
+    efficiency: OrbitalMath.tickEfficiency(kRatio, tokenCount),
+  };
+}
+
+/**
+ * `analyzeTick` for an on-chain tick, amounts in 18-decimal token units
+ */
+export function analyzeContractTick(k: bigint, radius: bigint, tokenCount = OrbitalMath.TOKEN_COUNT): TickEfficiency {
+  return analyzeTick(Number(ethers.formatUnits(radius, 18)), Number(ethers.formatUnits(k, 18)), tokenCount);
+}
+
+/**
+ * Efficiency of the tick that covers down to `depegPrice`, per unit radius
+ */
+export function efficiencyAtDepegPrice(depegPrice: number, tokenCount: number): number {
+  return OrbitalMath.tickEfficiency(OrbitalMath.kRatioForDepegPrice(depegPrice, tokenCount), tokenCount);
+}
+
+/**
+ * Series key used by `buildEfficiencyCurves` for an n-asset pool
+ */
+export function efficiencySeriesKey(tokenCount: number): string {
+  return `n${tokenCount}`;
+}
+
+/**
+ * Efficiency against depeg price for every pool size n = 2..maxTokenCount,
+ * one point per price with a value under `efficiencySeriesKey(n)`
+ */
+export function buildEfficiencyCurves(
+  maxTokenCount: number,
+  depegPrices: readonly number[] = DEFAULT_DEPEG_PRICES
+): EfficiencyCurvePoint[] {
+  return depegPrices.map(depegPrice => {
+    const point: EfficiencyCurvePoint = { depegPrice };
+    for (let n = 2; n <= maxTokenCount; n++) {
+      point[efficiencySeriesKey(n)] = efficiencyAtDepegPrice(depegPrice, n);
+    }
+    return point;
+  });
+}
+
+/**
+ * Efficiency across several ticks, weighted by each tick's value; ticks
+ * sitting exactly on the equal-price point (unbounded efficiency) are skipped
+ */
+export function weightedEfficiency(ticks: readonly { efficiency: number; weight: number }[]): number | null {
+  let total = 0;
+  let weights = 0;
+  for (const { efficiency, weight } of ticks) {
+    if (!Number.isFinite(efficiency) || weight <= 0) continue;
+    total += efficiency * weight;
+    weights += weight;
+  }
+  return weights > 0 ? total / weights : null;
+}
@@ -2,67 +2,49 @@
  * Orbital AMM - Configuration Constants
  *
  * Centralized configuration for tokens, pools, and protocol parameters.
+ * Tokens and pools come from the chain's registry (see `registry.ts`).
  *
  * @author Orbital Protocol Team
  * @version 1.0.0
  */
 
-export const TOKENS = [
-  {
-    symbol: "USDC",
-    name: "USD Coin",
-    address: "0x35517FBbdC45Be29394dAcf18555953BCBB04Ec8", // tokens[0] in contract
-    decimals: 18,
-    logo: "/tokens/usdc.svg",
-    color: "#2775CA",
-    index: 0, // Contract token index
-  },
-  {
-    symbol: "USDT",
-    name: "Tether USD",
-    address: "0x58b12d91a1d9C84B2Ab5eEA278bC47f19Dc0b972", // tokens[1] in contract
-    decimals: 18,
-    logo: "/tokens/usdt.svg",
-    color: "#26A17B",
-    index: 1,
-  },
-  {
-    symbol: "DAI",
-    name: "Dai Stablecoin",
-    address: "0x5c01b4B48c5a7f7FF2A47eB1CF09acB11d5f8182", // tokens[2] in contract
-    decimals: 18,
-    logo: "/tokens/dai.svg",
-    color: "#F5AC37",
-    index: 2,
-  },
-  {
-    symbol: "FRAX",
-    name: "Frax",
-    address: "0x414d7aac54808a954Acd902Db929CC8E3C8469Df", // tokens[3] in contract
-    decimals: 18,
-    logo: "/tokens/frax.svg",
-    color: "#000000",
-    index: 3,
-  },
-  {
-    symbol: "LUSD",
-    name: "Liquity USD",
-    address: "0xc169519b792c4dB9343Bb1dA77D1E1835Bf92CD1", // tokens[4] in contract
-    decimals: 18,
-    logo: "/tokens/lusd.svg",
-    color: "#745DDF",
-    index: 4,
-  },
-] as const;
+import { getPoolTokens, getRegistry, type PoolToken } from "./registry";
+
+const REGISTRY = getRegistry();
+const PRIMARY_POOL = REGISTRY.pools[0];
+
+// Tokens of the primary pool, in contract index order
+export const TOKENS: readonly PoolToken[] = getPoolTokens(REGISTRY, PRIMARY_POOL);
+
+// Contract addresses of the active network's registry entry, shared by the ethers and wagmi stacks
+export const CONTRACTS = {
+  ORBITAL_POOL: PRIMARY_POOL.address,
+} as const;
 
 // Pool configuration
 export const POOL_CONFIG = {
-  address: "0xcc0F44fe3c9350CD8Aa2477e9EC13F673BB287A3",
-  fee: 0.003, // 0.3%
+  address: CONTRACTS.ORBITAL_POOL,
+  // First block the history indexer scans for pool events; located on chain when unknown
+  deployBlock: PRIMARY_POOL.deployBlock,
+  fee: PRIMARY_POOL.swapFee / PRIMARY_POOL.feeDenominator,
   maxSlippage: 0.05, // 5%
   minLiquidity: 1000,
 } as const;
 
+// Pools the swap router may route through; tokens are listed in contract index order
+export const ORBITAL_POOLS = REGISTRY.pools.map(pool => ({
+  name: pool.name,
+  address: pool.address,
+  tokens: getPoolTokens(REGISTRY, pool).map(token => token.address),
+}));
+
+// Swap router configuration
+export const ROUTER_CONFIG = {
+  maxHops: 3,
+  // Output tokens per native token, used to value gas when ranking routes (0 ignores gas)
+  nativeTokenPrice: Number(process.env.NEXT_PUBLIC_NATIVE_TOKEN_PRICE || 0),
+} as const;
+
 // UI Constants
 export const ANIMATION_DURATION = 0.3;
 export const DEBOUNCE_DELAY = 500;
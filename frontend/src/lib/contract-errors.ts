@@ -0,0 +1,254 @@
+/**
+ * Orbital AMM - Contract Error Decoding
+ *
+ * Maps revert data from the pool and its ERC20 tokens to human-readable
+ * explanations with a suggested fix, for toasts and inline error cards.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import { ethers } from 'ethers';
+import { ORBITAL_POOL_ABI, ERC20_ABI } from './orbital-abi';
+import { OrbitalPoolError } from './orbital-simulator';
+
+export interface ContractErrorDetails {
+  /** Custom error name, or a synthetic name such as `UserRejected` */
+  name: string;
+  title: string;
+  explanation: string;
+  suggestion: string;
+}
+
+/**
+ * What the caller knows about a failed call that its revert data does not say
+ */
+export interface DecodeContext {
+  /**
+   * Token the call moves, when it moves only one; ERC20 errors do not name
+   * their token, so their amounts are only shown when it is known
+   */
+  token?: { symbol: string; decimals: number };
+}
+
+/**
+ * Error rethrown by the pool hooks once a failure has been decoded
+ */
+export class ContractActionError extends Error {
+  constructor(
+    readonly details: ContractErrorDetails,
+    readonly cause?: unknown
+  ) {
+    super(`${details.title}: ${details.explanation}`);
+    this.name = 'ContractActionError';
+  }
+}
+
+/**
+ * Thrown when the wallet cancels a pending transaction or replaces it with a different one
+ */
+export class TransactionReplacedError extends Error {
+  constructor(
+    readonly hash: string,
+    readonly replacement: { hash: string; reason: 'cancelled' | 'replaced' }
+  ) {
+    super(`Transaction ${hash} was ${replacement.reason} by ${replacement.hash}`);
+    this.name = 'TransactionReplacedError';
+  }
+}
+
+const errorInterface = new ethers.Interface([
+  ...ORBITAL_POOL_ABI.filter(fragment => fragment.type === 'error'),
+  ...ERC20_ABI.filter(fragment => fragment.type === 'error'),
+]);
+
+const formatAmount = (value: unknown, token: NonNullable<DecodeContext['token']>) =>
+  `${ethers.formatUnits(value as bigint, token.decimals)} ${token.symbol}`;
+
+const DESCRIPTIONS: Record<
+  string,
+  (args: ethers.Result, context: DecodeContext) => Omit<ContractErrorDetails, 'name'>
+> = {
+  InvalidKValue: () => ({
+    title: 'Invalid tick boundary',
+    explanation: 'The k value is outside the valid range for the liquidity you are providing.',
+    suggestion: 'Pick a k between the tick bounds for this deposit size, or use the suggested k.',
+  }),
+  InvalidAmounts: () => ({
+    title: 'Invalid amounts',
+    explanation: 'Amounts must be greater than zero and a swap needs two different tokens.',
+    suggestion: 'Enter a positive amount and make sure the input and output tokens differ.',
+  }),
+  TickAlreadyExists: () => ({
+    title: 'Tick already exists',
+    explanation: 'A tick with this k value has already been created.',
+    suggestion: 'Add to the existing tick or choose a different k.',
+  }),
+  InsufficientLiquidity: () => ({
+    title: 'Insufficient liquidity',
+    explanation: 'The selected tick has no liquidity to withdraw from.',
+    suggestion: 'Refresh your positions and choose a tick that still holds liquidity.',
+  }),
+  InvalidTokenIndex: () => ({
+    title: 'Unknown token',
+    explanation: 'The selected token is not part of this pool.',
+    suggestion: 'Select one of the pool tokens and try again.',
+  }),
+  SlippageExceeded: () => ({
+    title: 'Slippage exceeded',
+    explanation: 'The price moved past your slippage tolerance before the transaction executed.',
+    suggestion: 'Refresh the quote, raise your slippage tolerance, or trade a smaller amount.',
+  }),
+  InsufficientLpShares: () => ({
+    title: 'Not enough LP shares',
+    explanation: 'You are trying to remove more LP shares than you hold in this tick.',
+    suggestion: 'Reduce the amount to remove to at most your share balance.',
+  }),
+  SafeERC20FailedOperation: () => ({
+    title: 'Token transfer failed',
+    explanation: 'The token contract rejected the transfer.',
+    suggestion: 'Check your token balance and approval, then try again.',
+  }),
+  ERC20InsufficientAllowance: (args, { token }) => ({
+    title: 'Approval required',
+    explanation: token
+      ? `The pool is approved to spend ${formatAmount(args[1], token)} but needs ${formatAmount(args[2], token)}.`
+      : 'The pool is not approved to spend enough of one of your tokens.',
+    suggestion: token
+      ? `Approve at least ${formatAmount(args[2], token)} for the pool, then retry.`
+      : 'Approve the full amount for the pool, then retry.',
+  }),
+  ERC20InsufficientBalance: (args, { token }) => ({
+    title: 'Insufficient balance',
+    explanation: token
+      ? `Your balance is ${formatAmount(args[1], token)} but ${formatAmount(args[2], token)} is needed.`
+      : 'Your balance of one of the tokens is lower than the amount needed.',
+    suggestion: 'Lower the amount or top up your token balance.',
+  }),
+  ERC20InvalidSpender: () => ({
+    title: 'Invalid spender',
+    explanation: 'The token rejected the approval because the spender address is invalid.',
+    suggestion: 'Make sure the app is configured with the correct pool address.',
+  }),
+  ERC20InvalidApprover: () => ({
+    title: 'Invalid approver',
+    explanation: 'The token rejected the approval because the sender address is invalid.',
+    suggestion: 'Reconnect your wallet and try again.',
+  }),
+};
+
+/**
+ * Decode any error thrown by ethers, viem or the wallet into display details
+ */
+export function decodeContractError(error: unknown, context: DecodeContext = {}): ContractErrorDetails {
+  if (error instanceof ContractActionError) return error.details;
+
+  // Raised by a local dry run in the simulator; pool errors carry no arguments
+  if (error instanceof OrbitalPoolError) {
+    return { name: error.errorName, ...DESCRIPTIONS[error.errorName](ethers.Result.fromItems([]), context) };
+  }
+
+  if (isUserRejection(error)) {
+    return {
+      name: 'UserRejected',
+      title: 'Transaction rejected',
+      explanation: 'The request was rejected in your wallet.',
+      suggestion: 'Approve the request in your wallet to continue.',
+    };
+  }
+
+  if (error instanceof TransactionReplacedError) {
+    return error.replacement.reason === 'cancelled'
+      ? {
+          name: 'TransactionCancelled',
+          title: 'Transaction cancelled',
+          explanation: 'The pending transaction was cancelled from your wallet.',
+          suggestion: 'Start the action again if you still want to make it.',
+        }
+      : {
+          name: 'TransactionReplaced',
+          title: 'Transaction replaced',
+          explanation: 'Your wallet replaced the pending transaction with a different one.',
+          suggestion: 'Check your wallet activity, then start the action again if needed.',
+        };
+  }
+
+  const data = findRevertData(error);
+  if (data) {
+    const decoded = decodeRevertData(data, context);
+    if (decoded) return decoded;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    name: 'Unknown',
+    title: 'Transaction failed',
+    explanation: (error as { shortMessage?: string })?.shortMessage ?? message,
+    suggestion: 'Check your inputs and wallet connection, then try again.',
+  };
+}
+
+/**
+ * Decode ABI-encoded revert data, including plain `Error(string)` reasons
+ */
+export function decodeRevertData(data: string, context: DecodeContext = {}): ContractErrorDetails | null {
+  try {
+    const parsed = errorInterface.parseError(data);
+    if (parsed && DESCRIPTIONS[parsed.name]) {
+      return { name: parsed.name, ...DESCRIPTIONS[parsed.name](parsed.args, context) };
+    }
+  } catch {
+    // Not one of our custom errors
+  }
+
+  try {
+    const reason = ethers.AbiCoder.getBuiltinCallException('call', {}, data).reason;
+    if (reason) {
+      return {
+        name: 'Error',
+        title: 'Transaction reverted',
+        explanation: reason,
+        suggestion: 'Check your inputs and try again.',
+      };
+    }
+  } catch {
+    // Undecodable revert data
+  }
+
+  return null;
+}
+
+/**
+ * Short one-line message for toasts
+ */
+export function formatContractError(error: unknown): string {
+  const details = decodeContractError(error);
+  return `${details.title}. ${details.suggestion}`;
+}
+
+function isUserRejection(error: unknown): boolean {
+  const candidate = error as { code?: unknown; name?: string; cause?: unknown } | null;
+  if (!candidate || typeof candidate !== 'object') return false;
+  if (candidate.code === 'ACTION_REJECTED' || candidate.code === 4001) return true;
+  if (candidate.name === 'UserRejectedRequestError') return true;
+  return candidate.cause ? isUserRejection(candidate.cause) : false;
+}
+
+// Revert data is nested differently by ethers (`data`, `info.error.data`) and viem (`cause.raw`, `cause.data`)
+function findRevertData(error: unknown, depth = 0): string | null {
+  if (!error || typeof error !== 'object' || depth > 5) return null;
+
+  const record = error as Record<string, unknown>;
+  for (const key of ['data', 'raw']) {
+    const value = record[key];
+    if (typeof value === 'string' && ethers.isHexString(value) && value.length >= 10) {
+      return value;
+    }
+  }
+
+  for (const key of ['error', 'info', 'cause', 'data']) {
+    const nested = findRevertData(record[key], depth + 1);
+    if (nested) return nested;
+  }
+  return null;
+}
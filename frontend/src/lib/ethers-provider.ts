@@ -1,51 +1,211 @@
 /**
  * Orbital AMM - Ethers.js Provider Configuration
  * 
- * Web3 provider setup using Ethers.js for Somnia testnet.
+ * Web3 provider setup using Ethers.js for the active network in the registry.
  * 
  * @author Orbital Protocol Team
  * @version 1.0.0
  */
 
 import { ethers } from 'ethers';
+import { CONTRACTS, TOKENS } from './constants';
+import { MockEthereumProvider } from './mock-provider';
+import { getRegistry, type ChainRegistry } from './registry';
+import {
+  getDiscoveredWallets,
+  getPreferredWallet,
+  setPreferredWallet,
+  startWalletDiscovery,
+  waitForWallet,
+  type EIP1193Provider,
+  type EIP6963ProviderDetail,
+  type EIP6963ProviderInfo,
+} from './wallet-discovery';
 
-// Somnia testnet configuration
-export const SOMNIA_TESTNET = {
-  chainId: 50312,
-  name: 'Somnia Testnet',
-  rpcUrl: 'https://dream-rpc.somnia.network',
-  blockExplorer: 'https://shannon-explorer.somnia.network',
-  nativeCurrency: {
-    name: 'STT',
-    symbol: 'STT',
-    decimals: 18,
-  },
-};
+// Network this page load runs on; changing it takes a reload
+export const NETWORK: ChainRegistry = getRegistry();
+
+export { CONTRACTS };
 
-// Contract addresses
-export const CONTRACTS = {
-  ORBITAL_POOL: process.env.NEXT_PUBLIC_ORBITAL_POOL_ADDRESS || '0xcc0F44fe3c9350CD8Aa2477e9EC13F673BB287A3',
-  // Token addresses (these should match the tokens array in the orbital pool contract)
-  USDC: '0x35517FBbdC45Be29394dAcf18555953BCBB04Ec8', // tokens[0]
-  USDT: '0x58b12d91a1d9C84B2Ab5eEA278bC47f19Dc0b972', // tokens[1]
-  DAI: '0x5c01b4B48c5a7f7FF2A47eB1CF09acB11d5f8182',  // tokens[2]
-  FRAX: '0x414d7aac54808a954Acd902Db929CC8E3C8469Df', // tokens[3]
-  LUSD: '0xc169519b792c4dB9343Bb1dA77D1E1835Bf92CD1', // tokens[4]
-} as const;
+// Set NEXT_PUBLIC_ORBITAL_PROVIDER=mock to run against the in-process mock chain
+export const PROVIDER_MODE: 'rpc' | 'mock' =
+  process.env.NEXT_PUBLIC_ORBITAL_PROVIDER === 'mock' ? 'mock' : 'rpc';
 
 // Global provider instance
-let provider: ethers.JsonRpcProvider | null = null;
+let provider: ethers.JsonRpcApiProvider | null = null;
 let signer: ethers.JsonRpcSigner | null = null;
+let mockEthereum: MockEthereumProvider | null = null;
+
+// Wallet the signer belongs to, and how to stop following its account and chain changes
+let wallet: EIP6963ProviderDetail | null = null;
+let stopFollowingWallet: (() => void) | null = null;
+let reconnecting: Promise<ethers.JsonRpcSigner | null> | null = null;
+const walletListeners = new Set<() => void>();
+
+// Account followed read-only in watch mode, in place of the wallet's own
+let watchedAddress: string | null = null;
+
+// How long a silent reconnect waits for the remembered wallet to announce itself
+const RECONNECT_DISCOVERY_TIMEOUT_MS = 1000;
+
+const MOCK_WALLET_INFO: EIP6963ProviderInfo = {
+  uuid: 'mock',
+  name: 'Mock Wallet',
+  icon: '',
+  rdns: 'mock',
+};
+
+/**
+ * Get the in-process mock chain, creating it on first use
+ */
+export function getMockEthereum(): MockEthereumProvider {
+  if (!mockEthereum) {
+    mockEthereum = new MockEthereumProvider({
+      chainId: NETWORK.chainId,
+      poolAddress: CONTRACTS.ORBITAL_POOL,
+      tokens: TOKENS,
+      multicallAddress: NETWORK.multicall3,
+    });
+  }
+  return mockEthereum;
+}
+
+/**
+ * Get the EIP-1193 provider used for wallet requests: the mock chain, the
+ * connected wallet, or `window.ethereum` before any wallet is connected
+ */
+export function getEthereumProvider(): EIP1193Provider | undefined {
+  if (PROVIDER_MODE === 'mock') return getMockEthereum();
+  if (typeof window === 'undefined') return undefined;
+  return wallet?.provider ?? window.ethereum;
+}
+
+/**
+ * Wallets the user can connect with; on the mock chain, only its own wallet
+ */
+export function getAvailableWallets(): EIP6963ProviderDetail[] {
+  if (PROVIDER_MODE === 'mock') return [{ info: MOCK_WALLET_INFO, provider: getMockEthereum() }];
+  startWalletDiscovery();
+  return getDiscoveredWallets();
+}
+
+/**
+ * Wallet the signer belongs to, or null while disconnected
+ */
+export function getConnectedWallet(): EIP6963ProviderInfo | null {
+  return signer ? wallet?.info ?? null : null;
+}
+
+/**
+ * Resolve an address, or a name through the network's ENS registry, to a
+ * checksummed address
+ * @throws Error if the input is neither, or the name does not resolve
+ */
+export async function resolveAddress(input: string): Promise<string> {
+  const value = input.trim();
+  if (!value) throw new Error('Enter an address or name');
+  const isName = value.includes('.');
+  if (ethers.isAddress(value)) return ethers.getAddress(value);
+
+  let resolved: string | null = null;
+  if (isName) {
+    try {
+      resolved = await getProvider().resolveName(value);
+    } catch (error) {
+      // Networks without an ENS registry reject every name
+      console.warn(`Could not resolve ${value}:`, error);
+    }
+  }
+  if (!resolved) {
+    throw new Error(`${value} is not an address or a name this network can resolve`);
+  }
+  return resolved;
+}
+
+/**
+ * Follow `input`'s positions, balances and history read-only; writes stay
+ * disabled until watching stops
+ * @returns The watched address
+ */
+export async function watchAddress(input: string): Promise<string> {
+  watchedAddress = await resolveAddress(input);
+  walletListeners.forEach(listener => listener());
+  return watchedAddress;
+}
+
+/**
+ * Leave watch mode, returning to the connected wallet's account, if any
+ */
+export function stopWatching(): void {
+  if (!watchedAddress) return;
+  watchedAddress = null;
+  walletListeners.forEach(listener => listener());
+}
+
+/**
+ * Address followed in watch mode, or null outside it
+ */
+export function getWatchedAddress(): string | null {
+  return watchedAddress;
+}
+
+/**
+ * Listen for the connection changing: connecting, disconnecting, the
+ * wallet switching account or chain, or watch mode starting or stopping
+ * @returns Function that removes the listener
+ */
+export function onWalletChange(listener: () => void): () => void {
+  walletListeners.add(listener);
+  return () => {
+    walletListeners.delete(listener);
+  };
+}
+
+/**
+ * JSON-RPC provider over several endpoints: a request that fails to reach one
+ * is retried on the next, which then serves later requests too
+ */
+class FallbackRpcProvider extends ethers.JsonRpcProvider {
+  private readonly urls: readonly string[];
+  private current = 0;
+
+  constructor(urls: readonly string[], network: ethers.Networkish) {
+    super(urls[0], network);
+    this.urls = urls;
+  }
+
+  _getConnection(): ethers.FetchRequest {
+    return new ethers.FetchRequest(this.urls[this.current]);
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+    for (let attempt = 1; ; attempt++) {
+      const index = this.current;
+      try {
+        return await super._send(payload);
+      } catch (error) {
+        // Only transport failures land here; JSON-RPC errors come back as results
+        if (attempt >= this.urls.length) throw error;
+        console.warn(`RPC endpoint ${this.urls[index]} failed, trying the next one:`, error);
+        // A concurrent request may already have moved on
+        if (this.current === index) this.current = (index + 1) % this.urls.length;
+      }
+    }
+  }
+}
 
 /**
  * Initialize the Ethers.js provider
  */
-export function initializeProvider(): ethers.JsonRpcProvider {
+export function initializeProvider(): ethers.JsonRpcApiProvider {
   if (!provider) {
-    provider = new ethers.JsonRpcProvider(SOMNIA_TESTNET.rpcUrl, {
-      chainId: SOMNIA_TESTNET.chainId,
-      name: SOMNIA_TESTNET.name,
-    });
+    const network = {
+      chainId: NETWORK.chainId,
+      name: NETWORK.name,
+    };
+    provider = PROVIDER_MODE === 'mock'
+      ? new ethers.BrowserProvider(getMockEthereum(), network)
+      : new FallbackRpcProvider(NETWORK.rpcUrls, network);
   }
   return provider;
 }
@@ -53,7 +213,7 @@ export function initializeProvider(): ethers.JsonRpcProvider {
 /**
  * Get the current provider
  */
-export function getProvider(): ethers.JsonRpcProvider {
+export function getProvider(): ethers.JsonRpcApiProvider {
   if (!provider) {
     return initializeProvider();
   }
@@ -61,27 +221,39 @@ export function getProvider(): ethers.JsonRpcProvider {
 }
 
 /**
- * Connect to MetaMask and get signer
+ * Open a WebSocket provider for live updates, or null when the chain has no
+ * WebSocket endpoint (always null on the mock chain and during SSR)
  */
-export async function connectWallet(): Promise<ethers.JsonRpcSigner | null> {
-  if (typeof window === 'undefined' || !window.ethereum) {
-    throw new Error('MetaMask is not installed');
+export function createWebSocketProvider(): ethers.WebSocketProvider | null {
+  const wsUrl = NETWORK.wsUrl;
+  if (PROVIDER_MODE === 'mock' || !wsUrl || typeof WebSocket === 'undefined') return null;
+  return new ethers.WebSocketProvider(wsUrl, { chainId: NETWORK.chainId, name: NETWORK.name });
+}
+
+/**
+ * Connect to a wallet and get signer. Without a choice, connects to the
+ * wallet used last time, or else the first one found.
+ */
+export async function connectWallet(selected?: EIP6963ProviderDetail): Promise<ethers.JsonRpcSigner | null> {
+  const available = getAvailableWallets();
+  const preferred = getPreferredWallet();
+  const target = selected ?? available.find(option => option.info.rdns === preferred) ?? available[0];
+  if (!target) {
+    throw new Error('No browser wallet found. Install a wallet such as MetaMask to continue.');
   }
 
   try {
     // Request account access
-    await window.ethereum.request({ method: 'eth_requestAccounts' });
-    
-    // Create provider and signer
-    const browserProvider = new ethers.BrowserProvider(window.ethereum);
-    signer = await browserProvider.getSigner();
-    
+    const accounts: string[] = await target.provider.request({ method: 'eth_requestAccounts' });
+    const connected = await attachWallet(target, accounts[0]);
+    setPreferredWallet(target.info.rdns);
+
     // Check if we're on the correct network
-    const network = await browserProvider.getNetwork();
-    if (Number(network.chainId) !== SOMNIA_TESTNET.chainId) {
-      await switchToSomniaTestnet();
+    const network = await connected.provider.getNetwork();
+    if (Number(network.chainId) !== NETWORK.chainId) {
+      await switchNetwork();
     }
-    
+
     return signer;
   } catch (error) {
     console.error('Failed to connect wallet:', error);
@@ -90,31 +262,111 @@ export async function connectWallet(): Promise<ethers.JsonRpcSigner | null> {
 }
 
 /**
- * Switch to Somnia testnet
+ * Restore the previous session's connection without prompting: succeeds only
+ * if the remembered wallet is installed and still grants this site an account
+ * @returns The signer, or null if there is nothing to restore
+ */
+export function reconnectWallet(): Promise<ethers.JsonRpcSigner | null> {
+  if (signer) return Promise.resolve(signer);
+
+  if (!reconnecting) {
+    reconnecting = (async () => {
+      const preferred = getPreferredWallet();
+      if (!preferred) return null;
+
+      const target = PROVIDER_MODE === 'mock'
+        ? getAvailableWallets()[0]
+        : await waitForWallet(preferred, RECONNECT_DISCOVERY_TIMEOUT_MS);
+      if (!target) return null;
+
+      // eth_accounts, unlike eth_requestAccounts, never opens the wallet
+      const accounts: string[] = await target.provider.request({ method: 'eth_accounts' });
+      if (accounts.length === 0) return null;
+      return attachWallet(target, accounts[0]);
+    })()
+      .catch(error => {
+        console.warn('Could not restore the wallet connection:', error);
+        return null;
+      })
+      .finally(() => {
+        reconnecting = null;
+      });
+  }
+  return reconnecting;
+}
+
+/**
+ * Make `detail` the connected wallet, signing as `address`, and follow its
+ * account and chain changes
+ */
+async function attachWallet(detail: EIP6963ProviderDetail, address?: string): Promise<ethers.JsonRpcSigner> {
+  stopFollowingWallet?.();
+  wallet = detail;
+  stopFollowingWallet = followWallet(detail);
+  return refreshSigner(address);
+}
+
+async function refreshSigner(address?: string): Promise<ethers.JsonRpcSigner> {
+  if (!wallet) throw new Error('No wallet connected');
+  // A fresh BrowserProvider, since ethers pins the network it first detects
+  signer = await new ethers.BrowserProvider(wallet.provider).getSigner(address);
+  walletListeners.forEach(listener => listener());
+  return signer;
+}
+
+function followWallet(detail: EIP6963ProviderDetail): () => void {
+  const { provider: ethereum } = detail;
+  if (!ethereum.on || !ethereum.removeListener) return () => undefined;
+
+  const onFailure = (error: unknown) => console.error('Failed to follow the wallet:', error);
+  const handleAccountsChanged = (accounts: string[]) => {
+    if (accounts.length === 0) {
+      disconnectWallet();
+    } else {
+      refreshSigner(accounts[0]).catch(onFailure);
+    }
+  };
+  const handleChainChanged = () => {
+    if (signer) refreshSigner(signer.address).catch(onFailure);
+  };
+
+  ethereum.on('accountsChanged', handleAccountsChanged);
+  ethereum.on('chainChanged', handleChainChanged);
+  return () => {
+    ethereum.removeListener?.('accountsChanged', handleAccountsChanged);
+    ethereum.removeListener?.('chainChanged', handleChainChanged);
+  };
+}
+
+/**
+ * Ask the wallet to switch to `chainId`, by default the active network,
+ * adding the network from its registry entry if the wallet does not know it
  */
-export async function switchToSomniaTestnet(): Promise<void> {
-  if (typeof window === 'undefined' || !window.ethereum) {
-    throw new Error('MetaMask is not installed');
+export async function switchNetwork(chainId: number = NETWORK.chainId): Promise<void> {
+  const ethereum = getEthereumProvider();
+  if (!ethereum) {
+    throw new Error('No browser wallet found. Install a wallet such as MetaMask to continue.');
   }
 
   try {
     // Try to switch to the network
-    await window.ethereum.request({
+    await ethereum.request({
       method: 'wallet_switchEthereumChain',
-      params: [{ chainId: `0x${SOMNIA_TESTNET.chainId.toString(16)}` }],
+      params: [{ chainId: `0x${chainId.toString(16)}` }],
     });
   } catch (switchError: any) {
     // If the network doesn't exist, add it
     if (switchError.code === 4902) {
-      await window.ethereum.request({
+      const network = getRegistry(chainId);
+      await ethereum.request({
         method: 'wallet_addEthereumChain',
         params: [
           {
-            chainId: `0x${SOMNIA_TESTNET.chainId.toString(16)}`,
-            chainName: SOMNIA_TESTNET.name,
-            nativeCurrency: SOMNIA_TESTNET.nativeCurrency,
-            rpcUrls: [SOMNIA_TESTNET.rpcUrl],
-            blockExplorerUrls: [SOMNIA_TESTNET.blockExplorer],
+            chainId: `0x${chainId.toString(16)}`,
+            chainName: network.name,
+            nativeCurrency: network.nativeCurrency,
+            rpcUrls: network.rpcUrls,
+            blockExplorerUrls: network.blockExplorer ? [network.blockExplorer] : undefined,
           },
         ],
       });
@@ -132,10 +384,15 @@ export function getSigner(): ethers.JsonRpcSigner | null {
 }
 
 /**
- * Disconnect wallet
+ * Disconnect wallet, and stop reconnecting to it after a reload
  */
 export function disconnectWallet(): void {
+  stopFollowingWallet?.();
+  stopFollowingWallet = null;
+  wallet = null;
   signer = null;
+  setPreferredWallet(null);
+  walletListeners.forEach(listener => listener());
 }
 
 /**
@@ -183,6 +440,6 @@ export function isWalletConnected(): boolean {
 // Types for window.ethereum
 declare global {
   interface Window {
-    ethereum?: any;
+    ethereum?: EIP1193Provider;
   }
 }
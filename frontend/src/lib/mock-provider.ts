@@ -0,0 +1,681 @@
+/**
+ * Orbital AMM - Mock Ethereum Provider
+ *
+ * In-process EIP-1193 provider that answers the JSON-RPC calls used by the
+ * app (`eth_call`, `eth_sendTransaction`, `eth_getLogs`, ...) from an
+ * `OrbitalPoolSimulator` and a set of mock ERC20 ledgers. Every transaction
+ * is mined into its own block, so flows run end to end without a network.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import { ethers } from 'ethers';
+import { ORBITAL_POOL_ABI, ERC20_ABI, MULTICALL3_ABI } from './orbital-abi';
+import { OrbitalMath } from './orbital-math';
+import {
+  OrbitalPoolSimulator,
+  OrbitalPoolError,
+  type OrbitalPoolEvent,
+  type OrbitalPoolSnapshot,
+  type TokenLedger,
+} from './orbital-simulator';
+
+export interface MockTokenConfig {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+}
+
+export interface MockChainConfig {
+  chainId: number;
+  poolAddress: string;
+  tokens: readonly MockTokenConfig[];
+  /** Address to serve Multicall3 at, if any */
+  multicallAddress?: string;
+}
+
+interface RpcTransaction {
+  from?: string;
+  to?: string;
+  data?: string;
+  input?: string;
+  gas?: string;
+}
+
+interface MockLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: number;
+  logIndex: number;
+}
+
+interface MockBlock {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  transactions: string[];
+}
+
+interface MockTransaction {
+  hash: string;
+  from: string;
+  to: string;
+  input: string;
+  gas: bigint;
+  nonce: number;
+  blockNumber: number;
+  status: number;
+  logs: MockLog[];
+}
+
+interface LogFilter {
+  fromBlock?: string;
+  toBlock?: string;
+  address?: string | string[];
+  topics?: (string | string[] | null)[];
+}
+
+type Listener = (...args: unknown[]) => void;
+
+/** Default account exposed by `eth_accounts` */
+export const MOCK_ACCOUNT = ethers.getAddress('0x00000000000000000000000000000000000a11ce');
+
+/** Account that seeds the initial pool liquidity */
+export const MOCK_LIQUIDITY_PROVIDER = ethers.getAddress('0x00000000000000000000000000000000000b0b00');
+
+const GAS_ESTIMATES: Record<string, bigint> = {
+  swap: BigInt(180000),
+  addLiquidity: BigInt(260000),
+  removeLiquidity: BigInt(210000),
+  approve: BigInt(46000),
+};
+
+const poolInterface = new ethers.Interface(ORBITAL_POOL_ABI);
+const tokenInterface = new ethers.Interface(ERC20_ABI);
+const multicallInterface = new ethers.Interface(MULTICALL3_ABI);
+
+const ZERO = BigInt(0);
+const MAX_UINT256 = ethers.MaxUint256;
+// Placeholder signature so ethers can format mock transactions
+const MOCK_SIGNATURE = { r: ethers.toBeHex(1, 32), s: ethers.toBeHex(1, 32), v: '0x1b' };
+
+/**
+ * Revert raised inside the mock chain, carrying ABI-encoded revert data
+ */
+class MockRevert extends Error {
+  constructor(readonly data: string) {
+    super('execution reverted');
+  }
+}
+
+/**
+ * Balances and allowances for the pool tokens, keyed by token index
+ */
+class MockTokenLedger implements TokenLedger {
+  balances: Map<string, bigint>[];
+  allowances: Map<string, bigint>[];
+
+  constructor(tokenCount: number, private readonly poolAddress: string) {
+    this.balances = Array.from({ length: tokenCount }, () => new Map());
+    this.allowances = Array.from({ length: tokenCount }, () => new Map());
+  }
+
+  balanceOf(tokenIndex: number, account: string): bigint {
+    return this.balances[tokenIndex].get(account.toLowerCase()) ?? ZERO;
+  }
+
+  allowance(tokenIndex: number, owner: string, spender: string): bigint {
+    return this.allowances[tokenIndex].get(allowanceKey(owner, spender)) ?? ZERO;
+  }
+
+  approve(tokenIndex: number, owner: string, spender: string, amount: bigint): void {
+    this.allowances[tokenIndex].set(allowanceKey(owner, spender), amount);
+  }
+
+  mint(tokenIndex: number, to: string, amount: bigint): void {
+    this.balances[tokenIndex].set(to.toLowerCase(), this.balanceOf(tokenIndex, to) + amount);
+  }
+
+  transferFrom(tokenIndex: number, from: string, amount: bigint): void {
+    const allowance = this.allowance(tokenIndex, from, this.poolAddress);
+    if (allowance < amount) {
+      throw new MockRevert(
+        tokenInterface.encodeErrorResult('ERC20InsufficientAllowance', [this.poolAddress, allowance, amount])
+      );
+    }
+    if (allowance !== MAX_UINT256) {
+      this.approve(tokenIndex, from, this.poolAddress, allowance - amount);
+    }
+    this.move(tokenIndex, from, this.poolAddress, amount);
+  }
+
+  transfer(tokenIndex: number, to: string, amount: bigint): void {
+    this.move(tokenIndex, this.poolAddress, to, amount);
+  }
+
+  snapshot(): { balances: Map<string, bigint>[]; allowances: Map<string, bigint>[] } {
+    return {
+      balances: this.balances.map(balances => new Map(balances)),
+      allowances: this.allowances.map(allowances => new Map(allowances)),
+    };
+  }
+
+  restore(snapshot: { balances: Map<string, bigint>[]; allowances: Map<string, bigint>[] }): void {
+    this.balances = snapshot.balances.map(balances => new Map(balances));
+    this.allowances = snapshot.allowances.map(allowances => new Map(allowances));
+  }
+
+  private move(tokenIndex: number, from: string, to: string, amount: bigint): void {
+    const balance = this.balanceOf(tokenIndex, from);
+    if (balance < amount) {
+      throw new MockRevert(
+        tokenInterface.encodeErrorResult('ERC20InsufficientBalance', [ethers.getAddress(from), balance, amount])
+      );
+    }
+    this.balances[tokenIndex].set(from.toLowerCase(), balance - amount);
+    this.mint(tokenIndex, to, amount);
+  }
+}
+
+/**
+ * EIP-1193 provider backed by an in-process Orbital pool
+ */
+export class MockEthereumProvider {
+  readonly simulator: OrbitalPoolSimulator;
+  readonly ledger: MockTokenLedger;
+  readonly accounts: string[] = [MOCK_ACCOUNT];
+
+  private readonly config: MockChainConfig;
+  private readonly blocks: MockBlock[] = [];
+  private readonly transactions = new Map<string, MockTransaction>();
+  private readonly logs: MockLog[] = [];
+  private readonly nonces = new Map<string, number>();
+  private readonly listeners = new Map<string, Set<Listener>>();
+  private readonly filters = new Map<string, { filter: LogFilter | null; lastBlock: number }>();
+  private nextFilterId = 1;
+  private pendingEvents: OrbitalPoolEvent[] = [];
+
+  constructor(config: MockChainConfig) {
+    this.config = config;
+    this.ledger = new MockTokenLedger(config.tokens.length, config.poolAddress);
+    this.simulator = new OrbitalPoolSimulator({ tokenCount: config.tokens.length, ledger: this.ledger });
+    this.simulator.subscribe(event => this.pendingEvents.push(event));
+
+    this.mineBlock([]);
+    this.seed();
+  }
+
+  async request({ method, params = [] }: { method: string; params?: unknown[] }): Promise<unknown> {
+    switch (method) {
+      case 'eth_chainId':
+        return ethers.toQuantity(this.config.chainId);
+      case 'net_version':
+        return String(this.config.chainId);
+      case 'eth_accounts':
+      case 'eth_requestAccounts':
+        return [...this.accounts];
+      case 'eth_blockNumber':
+        return ethers.toQuantity(this.latestBlock.number);
+      case 'eth_gasPrice':
+      case 'eth_maxPriorityFeePerGas':
+        return ethers.toQuantity(ethers.parseUnits('1', 'gwei'));
+      case 'eth_getBalance':
+        return ethers.toQuantity(ethers.parseEther('100'));
+      case 'eth_getCode':
+        return this.isKnownContract(params[0] as string) ? '0x01' : '0x';
+      case 'eth_getTransactionCount':
+        return ethers.toQuantity(this.nonces.get((params[0] as string).toLowerCase()) ?? 0);
+      case 'eth_call':
+        return this.dryRun(params[0] as RpcTransaction).returnData;
+      case 'eth_estimateGas':
+        return ethers.toQuantity(this.dryRun(params[0] as RpcTransaction).gas);
+      case 'eth_sendTransaction':
+        return this.sendTransaction(params[0] as RpcTransaction);
+      case 'eth_getTransactionByHash':
+        return this.formatTransaction(params[0] as string);
+      case 'eth_getTransactionReceipt':
+        return this.formatReceipt(params[0] as string);
+      case 'eth_getBlockByNumber':
+        return this.formatBlock(this.resolveBlockTag(params[0] as string));
+      case 'eth_getLogs':
+        return this.getLogs(params[0] as LogFilter);
+      case 'eth_newFilter':
+        return this.newFilter(params[0] as LogFilter);
+      case 'eth_newBlockFilter':
+        return this.newFilter(null);
+      case 'eth_getFilterChanges':
+        return this.getFilterChanges(params[0] as string);
+      case 'eth_uninstallFilter':
+        return this.filters.delete(params[0] as string);
+      case 'wallet_switchEthereumChain':
+      case 'wallet_addEthereumChain':
+        return null;
+      default:
+        throw Object.assign(new Error(`Method ${method} is not supported by the mock provider`), { code: 4200 });
+    }
+  }
+
+  on(event: string, listener: Listener): void {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+  }
+
+  removeListener(event: string, listener: Listener): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  // Execution
+
+  private dryRun(tx: RpcTransaction): { returnData: string; gas: bigint } {
+    const snapshot = this.snapshot();
+    try {
+      return this.execute(tx);
+    } catch (error) {
+      throw toRpcError(error);
+    } finally {
+      this.restore(snapshot);
+    }
+  }
+
+  private sendTransaction(tx: RpcTransaction): string {
+    const from = (tx.from ?? MOCK_ACCOUNT).toLowerCase();
+    const nonce = this.nonces.get(from) ?? 0;
+    this.nonces.set(from, nonce + 1);
+
+    const blockNumber = this.latestBlock.number + 1;
+    const hash = ethers.id(`mock-tx:${from}:${nonce}`);
+    const snapshot = this.snapshot();
+
+    let status = 1;
+    let gas = tx.gas ? BigInt(tx.gas) : ZERO;
+    try {
+      gas = this.execute(tx).gas;
+    } catch {
+      // Mined but reverted: state is rolled back and the receipt reports status 0
+      this.restore(snapshot);
+      status = 0;
+    }
+
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    const block = this.mineBlock([hash]);
+    const logs = status === 1 ? events.map((event, i) => this.toLog(event, block, hash, i)) : [];
+    this.logs.push(...logs);
+
+    this.transactions.set(hash, {
+      hash,
+      from,
+      to: (tx.to ?? '').toLowerCase(),
+      input: tx.data ?? tx.input ?? '0x',
+      gas,
+      nonce,
+      blockNumber,
+      status,
+      logs,
+    });
+
+    return hash;
+  }
+
+  private execute(tx: RpcTransaction): { returnData: string; gas: bigint } {
+    this.pendingEvents = [];
+    const from = tx.from ?? MOCK_ACCOUNT;
+    const to = (tx.to ?? '').toLowerCase();
+    const data = tx.data ?? tx.input ?? '0x';
+
+    if (to === this.config.poolAddress.toLowerCase()) {
+      const call = poolInterface.parseTransaction({ data });
+      if (!call) throw new MockRevert('0x');
+      const result = this.executePoolCall(call.name, call.args, from);
+      return {
+        returnData: poolInterface.encodeFunctionResult(call.fragment, result),
+        gas: GAS_ESTIMATES[call.name] ?? BigInt(30000),
+      };
+    }
+
+    if (to === this.config.multicallAddress?.toLowerCase()) {
+      return { returnData: this.executeMulticall(data, from), gas: BigInt(30000) };
+    }
+
+    const tokenIndex = this.config.tokens.findIndex(token => token.address.toLowerCase() === to);
+    if (tokenIndex >= 0) {
+      const call = tokenInterface.parseTransaction({ data });
+      if (!call) throw new MockRevert('0x');
+      const result = this.executeTokenCall(tokenIndex, call.name, call.args, from);
+      return {
+        returnData: tokenInterface.encodeFunctionResult(call.fragment, result),
+        gas: GAS_ESTIMATES[call.name] ?? BigInt(30000),
+      };
+    }
+
+    return { returnData: '0x', gas: BigInt(21000) };
+  }
+
+  // `tryBlockAndAggregate(false, calls)`: each call runs against the current state and may fail on its own
+  private executeMulticall(data: string, from: string): string {
+    const call = multicallInterface.parseTransaction({ data });
+    if (!call || call.name !== 'tryBlockAndAggregate') throw new MockRevert('0x');
+
+    const results = (call.args[1] as ethers.Result).toArray().map(([target, callData]: [string, string]) => {
+      try {
+        return [true, this.execute({ from, to: target, data: callData }).returnData];
+      } catch (error) {
+        return [false, (toRpcError(error) as { data?: string }).data ?? '0x'];
+      }
+    });
+    return multicallInterface.encodeFunctionResult(call.fragment, [this.latestBlock.number, this.latestBlock.hash, results]);
+  }
+
+  private executePoolCall(name: string, args: ethers.Result, from: string): unknown[] {
+    const pool = this.simulator;
+
+    switch (name) {
+      case 'TOKENS_COUNT':
+        return [BigInt(pool.TOKENS_COUNT)];
+      case 'FEE_DENOMINATOR':
+        return [pool.FEE_DENOMINATOR];
+      case 'swapFee':
+        return [pool.swapFee];
+      case 'tokens': {
+        const token = this.config.tokens[Number(args[0])];
+        if (!token) throw new MockRevert('0x');
+        return [token.address];
+      }
+      case 'addLiquidity':
+        pool.addLiquidity(from, args[0], args[1].toArray());
+        return [];
+      case 'removeLiquidity':
+        return [pool.removeLiquidity(from, args[0], args[1], args[2].toArray())];
+      case 'swap':
+        return [pool.swap(from, Number(args[0]), Number(args[1]), args[2], args[3])];
+      case 'getTickInfo': {
+        const tick = pool.getTickInfo(args[0]);
+        return [tick.r, tick.liquidity, tick.reserves, tick.totalLpShares, tick.status];
+      }
+      case 'ticks': {
+        const tick = pool.getTickInfo(args[0]);
+        return [tick.r, args[0], tick.liquidity, tick.totalLpShares, tick.status, tick.accruedFees];
+      }
+      case 'getUserLpShares':
+        return [pool.getUserLpShares(args[0], args[1])];
+      case 'getActiveTicks':
+        return [pool.getActiveTicks()];
+      case '_getTotalReserves':
+        return [pool.getTotalReserves()];
+      case '_calculateSwapOutput':
+        return [
+          OrbitalMath.calculateSwapOutput(
+            pool.getTicks(),
+            pool.getTotalReserves(),
+            Number(args[0]),
+            Number(args[1]),
+            args[2]
+          ),
+        ];
+      default:
+        throw new MockRevert('0x');
+    }
+  }
+
+  private executeTokenCall(tokenIndex: number, name: string, args: ethers.Result, from: string): unknown[] {
+    const token = this.config.tokens[tokenIndex];
+
+    switch (name) {
+      case 'approve':
+        this.ledger.approve(tokenIndex, from, args[0], args[1]);
+        return [true];
+      case 'allowance':
+        return [this.ledger.allowance(tokenIndex, args[0], args[1])];
+      case 'balanceOf':
+        return [this.ledger.balanceOf(tokenIndex, args[0])];
+      case 'decimals':
+        return [token.decimals];
+      case 'symbol':
+        return [token.symbol];
+      case 'name':
+        return [token.name];
+      default:
+        throw new MockRevert('0x');
+    }
+  }
+
+  // Chain state
+
+  private seed(): void {
+    const amount = (token: MockTokenConfig, units: number) => ethers.parseUnits(String(units), token.decimals);
+
+    this.config.tokens.forEach((token, i) => {
+      this.ledger.mint(i, MOCK_ACCOUNT, amount(token, 10000));
+      this.ledger.mint(i, MOCK_LIQUIDITY_PROVIDER, amount(token, 10000));
+      this.ledger.approve(i, MOCK_LIQUIDITY_PROVIDER, this.config.poolAddress, MAX_UINT256);
+    });
+
+    // Same k the Foundry tests derive: the tightest valid bound plus 1% of r
+    const seedAmounts = this.config.tokens.map(token => amount(token, 10000));
+    const radius = OrbitalMath.calculateRadius(seedAmounts);
+    const tokenCount = this.config.tokens.length;
+    const { lowerBound } = OrbitalMath.getKBounds(radius, tokenCount);
+    const reserveConstraint = OrbitalMath.calculateReserveConstraint(radius, tokenCount);
+    const k = (lowerBound > reserveConstraint ? lowerBound : reserveConstraint) + radius / BigInt(100);
+
+    const data = poolInterface.encodeFunctionData('addLiquidity', [k, seedAmounts]);
+    this.sendTransaction({ from: MOCK_LIQUIDITY_PROVIDER, to: this.config.poolAddress, data });
+  }
+
+  private snapshot(): { pool: OrbitalPoolSnapshot; ledger: ReturnType<MockTokenLedger['snapshot']> } {
+    return { pool: this.simulator.snapshot(), ledger: this.ledger.snapshot() };
+  }
+
+  private restore(snapshot: ReturnType<MockEthereumProvider['snapshot']>): void {
+    this.simulator.restore(snapshot.pool);
+    this.ledger.restore(snapshot.ledger);
+    this.pendingEvents = [];
+  }
+
+  private mineBlock(transactions: string[]): MockBlock {
+    const parent = this.blocks[this.blocks.length - 1];
+    const number = parent ? parent.number + 1 : 0;
+    const block = {
+      number,
+      hash: ethers.id(`mock-block:${number}`),
+      parentHash: parent?.hash ?? ethers.ZeroHash,
+      timestamp: Math.floor(Date.now() / 1000),
+      transactions,
+    };
+    this.blocks.push(block);
+    return block;
+  }
+
+  private get latestBlock(): MockBlock {
+    return this.blocks[this.blocks.length - 1];
+  }
+
+  private resolveBlockTag(tag: string | undefined): number {
+    if (!tag || tag === 'latest' || tag === 'pending' || tag === 'safe' || tag === 'finalized') {
+      return this.latestBlock.number;
+    }
+    if (tag === 'earliest') return 0;
+    return Math.min(Number(BigInt(tag)), this.latestBlock.number);
+  }
+
+  private isKnownContract(address: string): boolean {
+    const target = address.toLowerCase();
+    return (
+      target === this.config.poolAddress.toLowerCase() ||
+      target === this.config.multicallAddress?.toLowerCase() ||
+      this.config.tokens.some(token => token.address.toLowerCase() === target)
+    );
+  }
+
+  private toLog(event: OrbitalPoolEvent, block: MockBlock, transactionHash: string, index: number): MockLog {
+    let values: unknown[];
+    switch (event.name) {
+      case 'LiquidityAdded':
+      case 'LiquidityRemoved':
+        values = [event.provider, event.k, event.amounts, event.lpShares];
+        break;
+      case 'Swap':
+        values = [event.trader, event.tokenIn, event.tokenOut, event.amountIn, event.amountOut, event.fee];
+        break;
+      case 'TickStatusChanged':
+        values = [event.k, event.oldStatus, event.newStatus];
+        break;
+    }
+
+    const { data, topics } = poolInterface.encodeEventLog(event.name, values);
+    return {
+      address: ethers.getAddress(this.config.poolAddress),
+      topics,
+      data,
+      blockNumber: block.number,
+      blockHash: block.hash,
+      transactionHash,
+      transactionIndex: 0,
+      logIndex: index,
+    };
+  }
+
+  // JSON-RPC formatting
+
+  private getLogs(filter: LogFilter = {}): unknown[] {
+    const fromBlock = this.resolveBlockTag(filter.fromBlock ?? 'latest');
+    const toBlock = this.resolveBlockTag(filter.toBlock ?? 'latest');
+    const addresses = filter.address
+      ? (Array.isArray(filter.address) ? filter.address : [filter.address]).map(address => address.toLowerCase())
+      : null;
+
+    return this.logs
+      .filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+      .filter(log => !addresses || addresses.includes(log.address.toLowerCase()))
+      .filter(log =>
+        (filter.topics ?? []).every((expected, i) => {
+          if (expected == null) return true;
+          const options = (Array.isArray(expected) ? expected : [expected]).map(topic => topic.toLowerCase());
+          return log.topics[i] !== undefined && options.includes(log.topics[i].toLowerCase());
+        })
+      )
+      .map(formatLog);
+  }
+
+  private newFilter(filter: LogFilter | null): string {
+    const id = ethers.toQuantity(this.nextFilterId++);
+    this.filters.set(id, { filter, lastBlock: this.latestBlock.number });
+    return id;
+  }
+
+  // Returns logs (or block hashes for block filters) mined since the previous poll
+  private getFilterChanges(id: string): unknown[] {
+    const entry = this.filters.get(id);
+    if (!entry) throw Object.assign(new Error('filter not found'), { code: -32000 });
+
+    const fromBlock = entry.lastBlock + 1;
+    const toBlock = this.latestBlock.number;
+    entry.lastBlock = toBlock;
+    if (fromBlock > toBlock) return [];
+
+    if (!entry.filter) {
+      return this.blocks.slice(fromBlock, toBlock + 1).map(block => block.hash);
+    }
+    return this.getLogs({
+      ...entry.filter,
+      fromBlock: ethers.toQuantity(fromBlock),
+      toBlock: ethers.toQuantity(toBlock),
+    });
+  }
+
+  private formatTransaction(hash: string): unknown {
+    const tx = this.transactions.get(hash);
+    if (!tx) return null;
+
+    return {
+      hash: tx.hash,
+      from: tx.from,
+      to: tx.to,
+      input: tx.input,
+      gas: ethers.toQuantity(tx.gas),
+      gasPrice: ethers.toQuantity(ethers.parseUnits('1', 'gwei')),
+      value: '0x0',
+      nonce: ethers.toQuantity(tx.nonce),
+      type: '0x0',
+      chainId: ethers.toQuantity(this.config.chainId),
+      blockNumber: ethers.toQuantity(tx.blockNumber),
+      blockHash: this.blocks[tx.blockNumber].hash,
+      transactionIndex: '0x0',
+      ...MOCK_SIGNATURE,
+    };
+  }
+
+  private formatReceipt(hash: string): unknown {
+    const tx = this.transactions.get(hash);
+    if (!tx) return null;
+
+    return {
+      transactionHash: tx.hash,
+      transactionIndex: '0x0',
+      blockNumber: ethers.toQuantity(tx.blockNumber),
+      blockHash: this.blocks[tx.blockNumber].hash,
+      from: tx.from,
+      to: tx.to,
+      contractAddress: null,
+      gasUsed: ethers.toQuantity(tx.gas),
+      cumulativeGasUsed: ethers.toQuantity(tx.gas),
+      effectiveGasPrice: ethers.toQuantity(ethers.parseUnits('1', 'gwei')),
+      logsBloom: ethers.zeroPadValue('0x', 256),
+      status: ethers.toQuantity(tx.status),
+      type: '0x0',
+      logs: tx.logs.map(formatLog),
+    };
+  }
+
+  private formatBlock(number: number): unknown {
+    const block = this.blocks[number];
+    if (!block) return null;
+
+    return {
+      number: ethers.toQuantity(block.number),
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: ethers.toQuantity(block.timestamp),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: ethers.toQuantity(30000000),
+      gasUsed: '0x0',
+      miner: ethers.ZeroAddress,
+      extraData: '0x',
+      baseFeePerGas: ethers.toQuantity(ethers.parseUnits('1', 'gwei')),
+      transactions: block.transactions,
+    };
+  }
+}
+
+function formatLog(log: MockLog): Record<string, unknown> {
+  return {
+    ...log,
+    blockNumber: ethers.toQuantity(log.blockNumber),
+    transactionIndex: ethers.toQuantity(log.transactionIndex),
+    logIndex: ethers.toQuantity(log.logIndex),
+    removed: false,
+  };
+}
+
+function toRpcError(error: unknown): Error {
+  if (error instanceof MockRevert) {
+    return Object.assign(new Error('execution reverted'), { code: 3, data: error.data });
+  }
+  if (error instanceof OrbitalPoolError) {
+    const data = poolInterface.encodeErrorResult(error.errorName);
+    return Object.assign(new Error('execution reverted'), { code: 3, data });
+  }
+  return Object.assign(new Error(error instanceof Error ? error.message : 'execution reverted'), { code: -32603 });
+}
+
+function allowanceKey(owner: string, spender: string): string {
+  return `${owner.toLowerCase()}:${spender.toLowerCase()}`;
+}
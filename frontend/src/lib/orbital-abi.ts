@@ -7,6 +7,8 @@
  * @version 1.0.0
  */
 
+import type { Abi, AbiParameter } from 'viem';
+
 export const ORBITAL_POOL_ABI = [
     // Constructor
     {
@@ -100,6 +102,19 @@ export const ORBITAL_POOL_ABI = [
             { name: 'liquidity', type: 'uint256', internalType: 'uint256' },
             { name: 'reserves', type: 'uint256[5]', internalType: 'uint256[5]' },
             { name: 'totalLpShares', type: 'uint256', internalType: 'uint256' },
+            { name: 'status', type: 'uint8', internalType: 'enum orbitalPool.TickStatus' }
+        ],
+        stateMutability: 'view'
+    },
+    {
+        name: 'ticks',
+        type: 'function',
+        inputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
+        outputs: [
+            { name: 'r', type: 'uint256', internalType: 'uint256' },
+            { name: 'k', type: 'uint256', internalType: 'uint256' },
+            { name: 'liquidity', type: 'uint256', internalType: 'uint256' },
+            { name: 'totalLpShares', type: 'uint256', internalType: 'uint256' },
             { name: 'status', type: 'uint8', internalType: 'enum orbitalPool.TickStatus' },
             { name: 'accruedFees', type: 'uint256', internalType: 'uint256' }
         ],
@@ -225,9 +240,69 @@ export const ORBITAL_POOL_ABI = [
         name: 'InsufficientLpShares',
         type: 'error',
         inputs: []
+    },
+    {
+        name: 'SafeERC20FailedOperation',
+        type: 'error',
+        inputs: [{ name: 'token', type: 'address', internalType: 'address' }]
     }
 ] as const;
 
+// TOKENS_COUNT of the deployment ORBITAL_POOL_ABI was generated from
+export const ABI_TOKEN_COUNT = 5;
+
+// Suffix of the `TOKENS_COUNT`-long array types in ORBITAL_POOL_ABI
+const TOKEN_ARRAY_SUFFIX = `[${ABI_TOKEN_COUNT}]`;
+
+const poolAbiCache = new Map<number, Abi>();
+
+function resizeTokenArray(type: string, tokenCount: number): string {
+    return type.endsWith(TOKEN_ARRAY_SUFFIX)
+        ? `${type.slice(0, -TOKEN_ARRAY_SUFFIX.length)}[${tokenCount}]`
+        : type;
+}
+
+function resizeParameter<P extends AbiParameter>(parameter: P, tokenCount: number): P {
+    return {
+        ...parameter,
+        type: resizeTokenArray(parameter.type, tokenCount),
+        ...(parameter.internalType && { internalType: resizeTokenArray(parameter.internalType, tokenCount) }),
+    };
+}
+
+function resizeFragment(fragment: Abi[number], tokenCount: number): Abi[number] {
+    switch (fragment.type) {
+        case 'function':
+            return {
+                ...fragment,
+                inputs: fragment.inputs.map(input => resizeParameter(input, tokenCount)),
+                outputs: fragment.outputs.map(output => resizeParameter(output, tokenCount)),
+            };
+        case 'constructor':
+        case 'error':
+        case 'event':
+            return { ...fragment, inputs: fragment.inputs.map(input => resizeParameter(input, tokenCount)) };
+        default:
+            return fragment;
+    }
+}
+
+/**
+ * Pool ABI for a deployment with `tokenCount` tokens. The contract's
+ * `uint256[TOKENS_COUNT]` arrays are static, so their length is part of the
+ * encoding and the ABI differs per pool size. Its type is the wide `Abi`:
+ * array results decode as `bigint[]` of whatever length the pool has.
+ */
+export function orbitalPoolAbi(tokenCount: number): Abi {
+    let abi = poolAbiCache.get(tokenCount);
+    if (!abi) {
+        const base: Abi = ORBITAL_POOL_ABI;
+        abi = base.map(fragment => resizeFragment(fragment, tokenCount));
+        poolAbiCache.set(tokenCount, abi);
+    }
+    return abi;
+}
+
 // ERC20 ABI for token approvals and transfers
 export const ERC20_ABI = [
     {
@@ -277,5 +352,69 @@ export const ERC20_ABI = [
         inputs: [],
         outputs: [{ name: '', type: 'string' }],
         stateMutability: 'view'
+    },
+
+    // Errors (OpenZeppelin ERC20, bubbled up through the pool's transferFrom)
+    {
+        name: 'ERC20InsufficientBalance',
+        type: 'error',
+        inputs: [
+            { name: 'sender', type: 'address' },
+            { name: 'balance', type: 'uint256' },
+            { name: 'needed', type: 'uint256' }
+        ]
+    },
+    {
+        name: 'ERC20InsufficientAllowance',
+        type: 'error',
+        inputs: [
+            { name: 'spender', type: 'address' },
+            { name: 'allowance', type: 'uint256' },
+            { name: 'needed', type: 'uint256' }
+        ]
+    },
+    {
+        name: 'ERC20InvalidSpender',
+        type: 'error',
+        inputs: [{ name: 'spender', type: 'address' }]
+    },
+    {
+        name: 'ERC20InvalidApprover',
+        type: 'error',
+        inputs: [{ name: 'approver', type: 'address' }]
+    }
+] as const;
+
+/**
+ * Multicall3 (deployed at the same address on most EVM chains), used to batch reads
+ */
+export const MULTICALL3_ABI = [
+    {
+        name: 'tryBlockAndAggregate',
+        type: 'function',
+        inputs: [
+            { name: 'requireSuccess', type: 'bool' },
+            {
+                name: 'calls',
+                type: 'tuple[]',
+                components: [
+                    { name: 'target', type: 'address' },
+                    { name: 'callData', type: 'bytes' }
+                ]
+            }
+        ],
+        outputs: [
+            { name: 'blockNumber', type: 'uint256' },
+            { name: 'blockHash', type: 'bytes32' },
+            {
+                name: 'returnData',
+                type: 'tuple[]',
+                components: [
+                    { name: 'success', type: 'bool' },
+                    { name: 'returnData', type: 'bytes' }
+                ]
+            }
+        ],
+        stateMutability: 'payable'
     }
 ] as const;
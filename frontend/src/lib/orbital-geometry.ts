@@ -0,0 +1,212 @@
+/**
+ * Orbital AMM - Pool Geometry
+ *
+ * Projects the pool's n-dimensional reserve space onto three dimensions for
+ * display. The vertical axis is the equal-price direction v = (1, ..., 1)/√n,
+ * and the horizontal plane is an orthogonal projection of the subspace
+ * perpendicular to v, with token i's axis at angle 2πi/n. Each tick's sphere
+ * is centred on the v axis at (r, ..., r), so it keeps its radius in 3D, and
+ * its boundary plane x·v = k becomes a horizontal circle.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import { OrbitalMath, TickStatus, type OrbitalTick, type TickBoundaryCrossing } from './orbital-math';
+
+export type Vec3 = readonly [number, number, number];
+
+export interface TickGeometry {
+  /** Plane constant, in scene units */
+  k: number;
+  /** Sphere radius, in scene units */
+  r: number;
+  status: TickStatus;
+  /** Centre of the tick's sphere, the projection of (r, ..., r) */
+  center: Vec3;
+  /** Height of the boundary plane x·v = k */
+  boundaryHeight: number;
+  /** Radius of the boundary circle, √(r² - (r√n - k)²) */
+  boundaryRadius: number;
+  /** Polar angle, from the top of the sphere, where the tick's cap begins; the cap runs down to π */
+  capStartAngle: number;
+  /** The tick's own reserves */
+  point: Vec3;
+}
+
+export interface TokenPairPrice {
+  i: number;
+  j: number;
+  /** Marginal price of token i in units of token j */
+  price: number;
+}
+
+export interface PoolGeometry {
+  tokenCount: number;
+  /** Scene units per raw token unit */
+  scale: number;
+  /** Highest point drawn, so the scene can be centred vertically */
+  height: number;
+  ticks: TickGeometry[];
+  /** Total reserves across ticks */
+  current: Vec3;
+  /** Point on the equal-price axis level with `current`; the gap between them is the depeg */
+  currentOnAxis: Vec3;
+  /** Horizontal unit direction, [x, z], in which each token's reserve grows */
+  tokenDirections: readonly (readonly [number, number])[];
+  /** Marginal price of every token pair at the current reserves */
+  pairPrices: TokenPairPrice[];
+}
+
+export interface TradePath {
+  /** Total reserves at evenly spaced fractions of the input, from before the trade to after it */
+  points: Vec3[];
+  /** Total reserves once the trade settles */
+  end: Vec3;
+  crossing: TickBoundaryCrossing;
+  /** Where on the path the crossing happens, or null without one */
+  crossingPoint: Vec3 | null;
+}
+
+/**
+ * Horizontal unit direction of each token's axis, 2πi/n apart
+ */
+export function tokenDirections(tokenCount: number): [number, number][] {
+  return Array.from({ length: tokenCount }, (_, i) => {
+    const angle = (2 * Math.PI * i) / tokenCount;
+    return [Math.cos(angle), Math.sin(angle)];
+  });
+}
+
+/**
+ * 3D position of a reserve vector: [x, y, z] with y = x·v and (x, z) the
+ * projection of the part perpendicular to v
+ */
+export function projectReserves(reserves: readonly number[]): Vec3 {
+  const n = reserves.length;
+  if (n === 0) return [0, 0, 0];
+
+  const sum = reserves.reduce((total, x) => total + x, 0);
+  const mean = sum / n;
+  // Scales the direction vectors into an orthonormal basis of the plane (for n = 2 the plane is a line)
+  const norm = n === 2 ? Math.SQRT1_2 : Math.sqrt(2 / n);
+
+  let x = 0;
+  let z = 0;
+  tokenDirections(n).forEach(([dx, dz], i) => {
+    x += (reserves[i] - mean) * dx * norm;
+    z += (reserves[i] - mean) * dz * norm;
+  });
+  return [x, sum / Math.sqrt(n), z];
+}
+
+/**
+ * Scene geometry for a pool's ticks and total reserves, scaled so the largest
+ * tick sphere (or the current point, if higher) fits within `size` scene units
+ */
+export function buildPoolGeometry(
+  ticks: readonly OrbitalTick[],
+  totalReserves: readonly bigint[],
+  size = 4
+): PoolGeometry {
+  const tokenCount = totalReserves.length;
+  const sqrtN = Math.sqrt(tokenCount);
+  const total = totalReserves.map(Number);
+  const rawCurrent = projectReserves(total);
+
+  const rawHeight = Math.max(rawCurrent[1], ...ticks.map(tick => Number(tick.r) * (sqrtN + 1)));
+  const scale = rawHeight > 0 ? size / rawHeight : 1;
+  const scaled = (point: Vec3): Vec3 => [point[0] * scale, point[1] * scale, point[2] * scale];
+
+  const tickGeometry = ticks.map((tick): TickGeometry => {
+    const r = Number(tick.r) * scale;
+    const k = Number(tick.k) * scale;
+    const centerHeight = r * sqrtN;
+    // Clamped so rounding at the k bounds cannot produce NaN
+    const offset = Math.min(Math.max((k - centerHeight) / (r || 1), -1), 1);
+
+    return {
+      k,
+      r,
+      status: tick.status,
+      center: [0, centerHeight, 0],
+      boundaryHeight: k,
+      boundaryRadius: r * Math.sqrt(1 - offset * offset),
+      capStartAngle: Math.acos(offset),
+      point: scaled(projectReserves(tick.reserves.map(Number))),
+    };
+  });
+
+  const pairPrices: TokenPairPrice[] = [];
+  if (total.some(x => x > 0)) {
+    for (let i = 0; i < tokenCount; i++) {
+      for (let j = i + 1; j < tokenCount; j++) {
+        pairPrices.push({ i, j, price: OrbitalMath.spotPrice(totalReserves, i, j, ticks) });
+      }
+    }
+  }
+
+  const current = scaled(rawCurrent);
+  return {
+    tokenCount,
+    scale,
+    height: Math.max(current[1], ...tickGeometry.map(tick => tick.center[1] + tick.r)),
+    ticks: tickGeometry,
+    current,
+    currentOnAxis: [0, current[1], 0],
+    tokenDirections: tokenDirections(tokenCount),
+    pairPrices,
+  };
+}
+
+/**
+ * Path the total reserves take through the scene as a swap fills, sampled by
+ * quoting the swap for growing fractions of `amountIn`, with any tick
+ * boundary crossing the contract would detect along the way
+ * @param scale Scene units per raw token unit, from the pool's geometry
+ * @param steps Number of segments the path is sampled in
+ * @returns The path, or null when the pool cannot fill the trade
+ */
+export function buildTradePath(
+  ticks: readonly OrbitalTick[],
+  tokenIn: number,
+  tokenOut: number,
+  amountIn: bigint,
+  swapFee: bigint,
+  scale: number,
+  steps = 24
+): TradePath | null {
+  const tokenCount = ticks[0]?.reserves.length ?? 0;
+  if (tokenCount === 0 || amountIn <= BigInt(0)) return null;
+
+  const place = (reserves: readonly bigint[]): Vec3 => {
+    const [x, y, z] = projectReserves(reserves.map(Number));
+    return [x * scale, y * scale, z * scale];
+  };
+  const reservesAt = (amount: bigint) =>
+    amount === BigInt(0)
+      ? OrbitalMath.getTotalReserves(ticks, tokenCount)
+      : OrbitalMath.reservesAfterSwap(ticks, tokenIn, tokenOut, amount, swapFee);
+
+  try {
+    const points = Array.from({ length: steps + 1 }, (_, step) =>
+      place(reservesAt((amountIn * BigInt(step)) / BigInt(steps)))
+    );
+    const crossing = OrbitalMath.checkTickBoundaryCrossing(
+      ticks,
+      OrbitalMath.getTotalReserves(ticks, tokenCount),
+      reservesAt(amountIn),
+      amountIn
+    );
+
+    return {
+      points,
+      end: points[points.length - 1],
+      crossing,
+      crossingPoint: crossing.hasCrossing ? place(reservesAt(crossing.crossingAmountIn)) : null,
+    };
+  } catch {
+    // The contract would revert on this trade
+    return null;
+  }
+}
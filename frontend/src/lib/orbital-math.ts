@@ -8,9 +8,55 @@
  * @version 1.0.0
  */
 
+export enum TickStatus {
+  Interior = 0,
+  Boundary = 1,
+}
+
+/**
+ * On-chain tick state as stored by `orbitalPool.ticks(k)` / `getTickInfo(k)`
+ */
+export interface OrbitalTick {
+  k: bigint
+  r: bigint
+  liquidity: bigint
+  reserves: readonly bigint[]
+  status: TickStatus
+}
+
+/**
+ * Mirror of the contract's `ConsolidatedTickData` struct
+ */
+export interface ConsolidatedTickData {
+  totalReserves: bigint[]
+  sumSquaredReserves: bigint[]
+  totalLiquidity: bigint
+  tickCount: number
+  consolidatedRadius: bigint
+  totalKBound: bigint
+}
+
+/**
+ * Result of `_checkTickBoundaryCrossing`
+ */
+export interface TickBoundaryCrossing {
+  hasCrossing: boolean
+  /** Input at which the crossing happens, 0 without one */
+  crossingAmountIn: bigint
+  /** Plane constant of the critical tick that was crossed, 0 without a crossing */
+  crossedK: bigint
+}
+
 export class OrbitalMath {
   static readonly PRECISION = BigInt('1000000000000000000') // 10^18
 
+  // Fixed-point constants used by src/orbital.sol
+  static readonly CONTRACT_PRECISION = BigInt('1000000000000000') // 10^15
+  static readonly SQRT5_SCALED = BigInt('2236067977499790') // sqrt(5) * 10^15
+  static readonly TOKEN_COUNT = 5 // TOKENS_COUNT of the reference deployment; the default pool size
+  static readonly DEFAULT_SWAP_FEE = BigInt(3000) // 0.3%
+  static readonly FEE_DENOMINATOR = BigInt(1000000)
+
   /**
    * Calculate the radius (magnitude) of a reserve vector
    * @param reserves Array of token reserves
@@ -94,26 +140,603 @@ export class OrbitalMath {
   }
 
   /**
-   * Calculate price impact for a trade
+   * Quote a swap exactly as `orbitalPool.swap` computes `amountOut`
+   * @param ticks Active ticks of the pool
+   * @param tokenIn Index of input token
+   * @param tokenOut Index of output token
+   * @param amountIn Amount of input tokens, before fees
+   * @param swapFee Pool fee in `FEE_DENOMINATOR` units
+   * @returns Amount of output tokens
+   */
+  static quoteSwap(
+    ticks: readonly OrbitalTick[],
+    tokenIn: number,
+    tokenOut: number,
+    amountIn: bigint,
+    swapFee: bigint = this.DEFAULT_SWAP_FEE
+  ): bigint {
+    const amountInAfterFee = (amountIn * (this.FEE_DENOMINATOR - swapFee)) / this.FEE_DENOMINATOR
+    const totalReserves = this.getTotalReserves(ticks, ticks[0]?.reserves.length ?? 0)
+
+    return this.calculateSwapOutput(ticks, totalReserves, tokenIn, tokenOut, amountInAfterFee)
+  }
+
+  /**
+   * Inverse of `quoteSwap`: the smallest `amountIn`, before fees, for which the
+   * pool pays out at least `amountOut`. Bisects on `quoteSwap` itself, so the
+   * result holds under the contract's integer semantics and fee rounding.
+   * @param ticks Active ticks of the pool
+   * @param tokenIn Index of input token
+   * @param tokenOut Index of output token
+   * @param amountOut Target amount of output tokens
+   * @param swapFee Pool fee in `FEE_DENOMINATOR` units
+   * @returns Amount of input tokens, before fees
+   * @throws Error if the pool cannot pay out `amountOut`
+   */
+  static quoteSwapExactOut(
+    ticks: readonly OrbitalTick[],
+    tokenIn: number,
+    tokenOut: number,
+    amountOut: bigint,
+    swapFee: bigint = this.DEFAULT_SWAP_FEE
+  ): bigint {
+    const zero = BigInt(0)
+    const one = BigInt(1)
+    const reserves = this.getTotalReserves(ticks, ticks[0]?.reserves.length ?? 0)
+
+    if (tokenIn === tokenOut) {
+      throw new Error('Cannot trade same token')
+    }
+    if (tokenIn >= reserves.length || tokenOut >= reserves.length) {
+      throw new Error('Invalid token index')
+    }
+    if (amountOut <= zero) return zero
+
+    // `calculateSwapOutput` never pays out more than 95% of the output reserve
+    if (amountOut > (reserves[tokenOut] * BigInt(95)) / BigInt(100)) {
+      throw new Error('Insufficient liquidity')
+    }
+
+    const quote = (amountIn: bigint) => this.quoteSwap(ticks, tokenIn, tokenOut, amountIn, swapFee)
+
+    // Constant-product estimate grossed up for the fee, widened until it suffices
+    const netIn = this.ceilDiv(amountOut * reserves[tokenIn], reserves[tokenOut] - amountOut)
+    let high = this.ceilDiv(netIn * this.FEE_DENOMINATOR, this.FEE_DENOMINATOR - swapFee)
+    if (high === zero) high = one
+    let low = zero
+
+    for (let i = 0; quote(high) < amountOut; i++) {
+      if (i >= 128) throw new Error('Insufficient liquidity')
+      low = high
+      high *= BigInt(2)
+    }
+
+    while (high - low > one) {
+      const mid = (low + high) / BigInt(2)
+      if (quote(mid) >= amountOut) {
+        high = mid
+      } else {
+        low = mid
+      }
+    }
+
+    return high
+  }
+
+  /**
+   * Sum reserves across all ticks with a non-zero radius (`_getTotalReserves`)
+   */
+  static getTotalReserves(ticks: readonly OrbitalTick[], tokenCount: number): bigint[] {
+    const totalReserves = new Array<bigint>(tokenCount).fill(BigInt(0))
+
+    for (const tick of ticks) {
+      if (tick.r === BigInt(0)) continue
+      for (let j = 0; j < tokenCount; j++) {
+        totalReserves[j] += tick.reserves[j]
+      }
+    }
+
+    return totalReserves
+  }
+
+  /**
+   * Port of `_calculateSwapOutput`: Newton iterations on the torus invariant.
+   *
+   * Integer semantics follow the contract (truncating division, clamps and the
+   * 2% fallback), so results match the chain to the wei. The contract evaluates
+   * the invariant from stored tick state rather than the candidate reserves, and
+   * so does this port; see `test_SwapOutput_ParityVectors` in OrbitalFixed.t.sol.
+   * @param ticks Active ticks of the pool
+   * @param reserves Total reserves across ticks
+   * @param tokenIn Index of input token
+   * @param tokenOut Index of output token
+   * @param amountIn Amount of input tokens, after fees
+   * @returns Amount of output tokens, 0 for invalid input
+   * @throws Error where the contract would revert on arithmetic underflow
+   */
+  static calculateSwapOutput(
+    ticks: readonly OrbitalTick[],
+    reserves: readonly bigint[],
+    tokenIn: number,
+    tokenOut: number,
+    amountIn: bigint
+  ): bigint {
+    const zero = BigInt(0)
+    const minAmount = this.CONTRACT_PRECISION
+
+    if (tokenIn >= reserves.length || tokenOut >= reserves.length) return zero
+    if (reserves[tokenOut] === zero || amountIn === zero) return zero
+
+    const initialInvariant = this.computeTorusInvariant(ticks, reserves.length)
+    if (initialInvariant === zero) return zero
+
+    const maxIterations = 30
+    const tolerance = initialInvariant / BigInt(1000000)
+    const reserveOut = reserves[tokenOut]
+    const maxOut = (reserveOut * BigInt(95)) / BigInt(100)
+
+    // Constant product starting point
+    let amountOut = (amountIn * reserveOut) / (reserves[tokenIn] + amountIn)
+    if (amountOut === zero) amountOut = amountIn / BigInt(10)
+    if (amountOut >= reserveOut) amountOut = reserveOut / BigInt(2)
+
+    for (let i = 0; i < maxIterations; i++) {
+      if (amountOut >= reserveOut) amountOut = maxOut
+      if (amountOut === zero) amountOut = minAmount
+
+      const newReserves = [...reserves]
+      newReserves[tokenIn] += amountIn
+      newReserves[tokenOut] = this.checkedSub(newReserves[tokenOut], amountOut)
+
+      const fY = this.computeTorusInvariant(ticks, newReserves.length) - initialInvariant
+      if (this.abs(fY) <= tolerance) break
+
+      // Numerical derivative with an adaptive epsilon
+      let epsilon = amountOut / BigInt(1000)
+      if (epsilon < minAmount) epsilon = minAmount
+      if (epsilon > amountOut / BigInt(2)) epsilon = amountOut / BigInt(2)
+
+      let amountOutPlusEpsilon = amountOut + epsilon
+      if (amountOutPlusEpsilon >= reserveOut) {
+        epsilon = (reserveOut - amountOut) / BigInt(2)
+        if (epsilon === zero) break
+        amountOutPlusEpsilon = amountOut + epsilon
+      }
+
+      const reservesForDerivative = [...reserves]
+      reservesForDerivative[tokenIn] += amountIn
+      reservesForDerivative[tokenOut] = this.checkedSub(reservesForDerivative[tokenOut], amountOutPlusEpsilon)
+
+      const fYPlusEpsilon = this.computeTorusInvariant(ticks, reservesForDerivative.length) - initialInvariant
+      const derivative = (fYPlusEpsilon - fY) / epsilon
+
+      if (this.abs(derivative) < tolerance / BigInt(1000)) {
+        // Derivative too flat: step 10% in the direction of the error
+        amountOut = fY > zero ? amountOut + amountOut / BigInt(10) : amountOut - amountOut / BigInt(10)
+        continue
+      }
+
+      // Newton step, limited to 25% of the current value
+      let deltaY = fY / derivative
+      const maxStep = amountOut / BigInt(4)
+      if (this.abs(deltaY) > maxStep) {
+        deltaY = deltaY > zero ? maxStep : -maxStep
+      }
+
+      if (deltaY >= zero) {
+        amountOut = amountOut >= deltaY ? amountOut - deltaY : amountOut / BigInt(2)
+      } else if (amountOut - deltaY < reserveOut) {
+        amountOut -= deltaY
+      } else {
+        amountOut = (amountOut + maxOut) / BigInt(2)
+      }
+
+      if (amountOut < minAmount) amountOut = minAmount
+    }
+
+    if (amountOut >= reserveOut) amountOut = maxOut
+
+    // Fall back to a discounted proportional quote if the invariant drifted over 2%
+    const finalReserves = [...reserves]
+    finalReserves[tokenIn] += amountIn
+    if (finalReserves[tokenOut] >= amountOut) {
+      const finalInvariant = this.computeTorusInvariant(ticks, finalReserves.length)
+      const invariantDiff = this.abs(finalInvariant - initialInvariant)
+
+      if (invariantDiff > initialInvariant / BigInt(50)) {
+        amountOut = (amountIn * reserveOut) / (reserves[tokenIn] + amountIn)
+        amountOut = (amountOut * BigInt(98)) / BigInt(100)
+      }
+    }
+
+    return amountOut
+  }
+
+  /**
+   * Port of `_computeTorusInvariant` over the consolidated interior and boundary ticks:
+   * (Σx_int/√n - k_bound - r_int·√n)² + (√(Σx² - (Σx)²/n) - s_bound)²
+   * @param ticks Active ticks of the pool
+   * @param tokenCount Number of tokens in the pool
+   */
+  static computeTorusInvariant(ticks: readonly OrbitalTick[], tokenCount: number): bigint {
+    const P = this.CONTRACT_PRECISION
+    const n = BigInt(tokenCount)
+    const { interior, boundary } = this.getConsolidatedTickData(ticks, tokenCount)
+    const sqrtN = this.integerSqrt(n * P * P)
+
+    let sumInteriorReserves = BigInt(0)
+    for (const reserve of interior.totalReserves) {
+      sumInteriorReserves += reserve
+    }
+
+    // First term: sphere component of the consolidated interior ticks
+    const firstComponent = (sumInteriorReserves * P) / sqrtN
+    const secondComponent = boundary.totalKBound
+    const thirdComponent = (interior.consolidatedRadius * sqrtN) / P
+    const term1Sum = this.abs(firstComponent - secondComponent - thirdComponent)
+    const term1 = (term1Sum * term1Sum) / P
+
+    // Second term: orthogonal distance from the equal-price vector vs boundary radius
+    let sumTotalReserves = BigInt(0)
+    let sumTotalReservesSquared = BigInt(0)
+    for (let i = 0; i < tokenCount; i++) {
+      const totalReserve = interior.totalReserves[i] + boundary.totalReserves[i]
+      sumTotalReserves += totalReserve
+      sumTotalReservesSquared += (totalReserve * totalReserve) / P
+    }
+
+    const sumSquaredDivN = (sumTotalReserves * sumTotalReserves) / P / n
+
+    let term2Component = BigInt(0)
+    if (sumTotalReservesSquared > sumSquaredDivN) {
+      const sqrtTerm = this.integerSqrt((sumTotalReservesSquared - sumSquaredDivN) * P)
+      term2Component = this.abs(sqrtTerm - boundary.consolidatedRadius)
+    }
+    const term2 = (term2Component * term2Component) / P
+
+    return term1 + term2
+  }
+
+  /**
+   * Consolidate ticks by status (`_getConsolidatedTickData`).
+   * Interior radii add (r_c = r_a + r_b), boundary ticks add their s values.
+   */
+  static getConsolidatedTickData(
+    ticks: readonly OrbitalTick[],
+    tokenCount: number
+  ): { interior: ConsolidatedTickData; boundary: ConsolidatedTickData } {
+    const empty = (): ConsolidatedTickData => ({
+      totalReserves: new Array<bigint>(tokenCount).fill(BigInt(0)),
+      sumSquaredReserves: new Array<bigint>(tokenCount).fill(BigInt(0)),
+      totalLiquidity: BigInt(0),
+      tickCount: 0,
+      consolidatedRadius: BigInt(0),
+      totalKBound: BigInt(0),
+    })
+    const interior = empty()
+    const boundary = empty()
+
+    for (const tick of ticks) {
+      if (tick.r === BigInt(0)) continue
+
+      const data = tick.status === TickStatus.Interior ? interior : boundary
+      if (tick.status === TickStatus.Interior) {
+        data.consolidatedRadius += tick.r
+      } else {
+        data.consolidatedRadius += this.calculateBoundaryTickS(tick.r, tick.k, tokenCount)
+        data.totalKBound += tick.k
+      }
+      data.totalLiquidity += tick.liquidity
+      data.tickCount++
+
+      for (let j = 0; j < tokenCount; j++) {
+        data.totalReserves[j] += tick.reserves[j]
+        data.sumSquaredReserves[j] += tick.reserves[j] * tick.reserves[j]
+      }
+    }
+
+    return { interior, boundary }
+  }
+
+  /**
+   * Boundary tick radius in the orthogonal subspace: s = sqrt(r² - (k - r/√n)²)
+   */
+  static calculateBoundaryTickS(r: bigint, k: bigint, tokenCount: number): bigint {
+    const P = this.CONTRACT_PRECISION
+    const sqrtN = this.integerSqrt(BigInt(tokenCount) * P * P)
+    const rOverSqrtN = (r * P) / sqrtN
+
+    const diff = this.abs(k - rOverSqrtN)
+    const diffSquared = diff * diff
+    const rSquared = r * r
+
+    if (rSquared <= diffSquared) return BigInt(0)
+    return this.integerSqrt(rSquared - diffSquared)
+  }
+
+  /**
+   * Total reserves after a swap, updated as `orbitalPool.swap` updates them:
+   * the input after fees comes in and the quoted output goes out
+   * @throws Error where the contract would revert on arithmetic underflow
+   */
+  static reservesAfterSwap(
+    ticks: readonly OrbitalTick[],
+    tokenIn: number,
+    tokenOut: number,
+    amountIn: bigint,
+    swapFee: bigint = this.DEFAULT_SWAP_FEE
+  ): bigint[] {
+    const amountInAfterFee = (amountIn * (this.FEE_DENOMINATOR - swapFee)) / this.FEE_DENOMINATOR
+    const reserves = this.getTotalReserves(ticks, ticks[0]?.reserves.length ?? 0)
+    const amountOut = this.calculateSwapOutput(ticks, reserves, tokenIn, tokenOut, amountInAfterFee)
+
+    reserves[tokenIn] += amountInAfterFee
+    reserves[tokenOut] = reserves[tokenOut] >= amountOut ? reserves[tokenOut] - amountOut : BigInt(0)
+    return reserves
+  }
+
+  /**
+   * Lowest k among interior ticks and highest k among boundary ticks, 0 where
+   * there are none (`_findCriticalKValues`)
+   */
+  static findCriticalKValues(ticks: readonly OrbitalTick[]): { kIntMin: bigint; kBoundMax: bigint } {
+    let kIntMin = BigInt(0)
+    let kBoundMax = BigInt(0)
+
+    for (const tick of ticks) {
+      if (tick.r === BigInt(0)) continue
+
+      if (tick.status === TickStatus.Interior) {
+        if (kIntMin === BigInt(0) || tick.k < kIntMin) kIntMin = tick.k
+      } else if (tick.k > kBoundMax) {
+        kBoundMax = tick.k
+      }
+    }
+
+    return { kIntMin, kBoundMax }
+  }
+
+  /**
+   * Port of `_checkTickBoundaryCrossing`. The mean reserve α moving from below
+   * the lowest interior k to at or above it, or from above the highest boundary
+   * k to at or below it, is a crossing; both sides are normalized by the
+   * consolidated radii first. Like the contract, the crossing is placed halfway
+   * through the trade. The contract reports which tick was crossed only
+   * implicitly; `crossedK` names it.
+   * @param ticks Active ticks of the pool, before the trade
+   * @param currentReserves Total reserves before the trade
+   * @param newReserves Total reserves after the trade
+   * @param tradeAmountIn Amount of input tokens
+   */
+  static checkTickBoundaryCrossing(
+    ticks: readonly OrbitalTick[],
+    currentReserves: readonly bigint[],
+    newReserves: readonly bigint[],
+    tradeAmountIn: bigint
+  ): TickBoundaryCrossing {
+    const zero = BigInt(0)
+    const P = this.CONTRACT_PRECISION
+    const noCrossing: TickBoundaryCrossing = { hasCrossing: false, crossingAmountIn: zero, crossedK: zero }
+
+    const n = BigInt(currentReserves.length)
+    if (n === zero) return noCrossing
+    const alpha = (reserves: readonly bigint[]) => reserves.reduce((sum, x) => sum + x, zero) / n
+    const normalize = (value: bigint, r: bigint) => (r === zero ? zero : (value * P) / r)
+
+    const { interior, boundary } = this.getConsolidatedTickData(ticks, currentReserves.length)
+    const { kIntMin, kBoundMax } = this.findCriticalKValues(ticks)
+    if (interior.consolidatedRadius === zero || (kIntMin === zero && kBoundMax === zero)) return noCrossing
+
+    const currentAlphaNorm = normalize(alpha(currentReserves), interior.consolidatedRadius)
+    const newAlphaNorm = normalize(alpha(newReserves), interior.consolidatedRadius)
+    const kIntMinNorm = kIntMin > zero ? normalize(kIntMin, interior.consolidatedRadius) : zero
+    const kBoundMaxNorm = kBoundMax > zero ? normalize(kBoundMax, boundary.consolidatedRadius) : zero
+
+    const crossedK =
+      kIntMinNorm > zero && currentAlphaNorm < kIntMinNorm && newAlphaNorm >= kIntMinNorm
+        ? kIntMin
+        : kBoundMaxNorm > zero && currentAlphaNorm > kBoundMaxNorm && newAlphaNorm <= kBoundMaxNorm
+          ? kBoundMax
+          : zero
+    if (crossedK === zero) return noCrossing
+
+    // Simplified crossing point, as in the contract
+    return { hasCrossing: true, crossingAmountIn: tradeAmountIn / BigInt(2), crossedK }
+  }
+
+  /**
+   * Gradient of the pool invariant at `reserves`. With `ticks`, this is the
+   * whitepaper torus over the consolidated ticks,
+   * F = (x·v - k_bound - r_int·√n)² + (‖w‖ - s_bound)²,
+   * where v = (1, ..., 1)/√n and w = x - (x·v)v. Without ticks, the reserves
+   * are treated as one interior tick of radius ‖x‖, as a fresh deposit is
+   * @returns ∂F/∂xₖ for each token, up to a common positive factor
+   */
+  static invariantGradient(reserves: readonly bigint[], ticks?: readonly OrbitalTick[]): number[] {
+    const n = reserves.length
+    const sqrtN = Math.sqrt(n)
+    const x = reserves.map(Number)
+
+    let interiorRadius = Number(this.calculateRadius([...reserves]))
+    let kBound = 0
+    let sBound = 0
+    if (ticks && ticks.length > 0) {
+      const { interior, boundary } = this.getConsolidatedTickData(ticks, n)
+      interiorRadius = Number(interior.consolidatedRadius)
+      kBound = Number(boundary.totalKBound)
+      sBound = Number(boundary.consolidatedRadius)
+    }
+
+    const sum = x.reduce((total, xi) => total + xi, 0)
+    const mean = sum / n
+    const parallel = sum / sqrtN - kBound - interiorRadius * sqrtN
+    const orthogonal = Math.sqrt(x.reduce((total, xi) => total + (xi - mean) * (xi - mean), 0))
+
+    // ∂F/∂xₖ = 2(x·v - k_bound - r_int·√n)/√n + 2(‖w‖ - s_bound)(xₖ - x̄)/‖w‖
+    return x.map(xi =>
+      parallel / sqrtN + (orthogonal > 0 ? ((orthogonal - sBound) * (xi - mean)) / orthogonal : 0)
+    )
+  }
+
+  /**
+   * Marginal price of token i in units of token j: the ratio of the invariant's
+   * partial derivatives, ∂F/∂xᵢ / ∂F/∂xⱼ. For a single sphere this reduces to
+   * (r - xᵢ)/(r - xⱼ); 1 at the equal-price point
+   * @param reserves Total pool reserves
+   * @param ticks Active ticks; see `invariantGradient` when omitted
+   */
+  static spotPrice(reserves: readonly bigint[], i: number, j: number, ticks?: readonly OrbitalTick[]): number {
+    if (i >= reserves.length || j >= reserves.length) {
+      throw new Error('Invalid token index')
+    }
+    if (i === j) return 1
+
+    const gradient = this.invariantGradient(reserves, ticks)
+    return gradient[j] === 0 ? Infinity : gradient[i] / gradient[j]
+  }
+
+  /**
+   * Price impact of a trade: how far its execution price falls below the spot
+   * price, in percent. Amounts are raw units of tokens sharing decimals
+   * @param amountIn Input reaching the invariant, i.e. after fees
    */
   static calculatePriceImpact(
-    reserves: bigint[],
+    reserves: readonly bigint[],
     tokenIn: number,
     tokenOut: number,
     amountIn: bigint,
-    amountOut: bigint
+    amountOut: bigint,
+    ticks?: readonly OrbitalTick[]
   ): number {
-    const rIn = reserves[tokenIn]
-    const rOut = reserves[tokenOut]
+    if (amountIn <= BigInt(0)) return 0
 
-    // Old price: r_out / r_in
-    const oldPrice = Number(rOut * this.PRECISION / rIn) / Number(this.PRECISION)
-    
-    // Trade price: amount_out / amount_in
-    const tradePrice = Number(amountOut * this.PRECISION / amountIn) / Number(this.PRECISION)
-    
-    // Price impact as percentage
-    return Math.abs((tradePrice - oldPrice) / oldPrice) * 100
+    const spotPrice = this.spotPrice(reserves, tokenIn, tokenOut, ticks)
+    const executionPrice = Number((amountOut * this.PRECISION) / amountIn) / Number(this.PRECISION)
+    if (!Number.isFinite(spotPrice) || spotPrice <= 0) return 0
+
+    return Math.max(0, ((spotPrice - executionPrice) / spotPrice) * 100)
+  }
+
+  /**
+   * √n scaled by CONTRACT_PRECISION; n = 5 uses the contract's SQRT5_SCALED so
+   * the bounds below match `_isValidK` to the wei
+   */
+  static sqrtTokenCountScaled(tokenCount: number): bigint {
+    if (tokenCount === 5) return this.SQRT5_SCALED
+    const P = this.CONTRACT_PRECISION
+    return this.integerSqrt(BigInt(tokenCount) * P * P)
+  }
+
+  /**
+   * Validate k bounds for a tick radius (`_isValidK`):
+   * (√n-1)·r ≤ k ≤ (n-1)·r/√n and k ≥ r/√n
+   */
+  static isValidK(k: bigint, radius: bigint, tokenCount: number = this.TOKEN_COUNT): boolean {
+    if (radius === BigInt(0)) return false
+
+    const { lowerBound, upperBound } = this.getKBounds(radius, tokenCount)
+    if (k < lowerBound || k > upperBound) return false
+    return k >= this.calculateReserveConstraint(radius, tokenCount)
+  }
+
+  /**
+   * Plane constant range `_isValidK` accepts for a tick radius. The lower bound
+   * is the equal-price point r(√n-1), the upper bound r(n-1)/√n
+   */
+  static getKBounds(radius: bigint, tokenCount: number = this.TOKEN_COUNT): { lowerBound: bigint; upperBound: bigint } {
+    const P = this.CONTRACT_PRECISION
+    const sqrtN = this.sqrtTokenCountScaled(tokenCount)
+    return {
+      lowerBound: ((sqrtN - P) * radius) / P,
+      upperBound: (BigInt(tokenCount - 1) * radius * P) / sqrtN,
+    }
+  }
+
+  /**
+   * Plane constant for a tick of `radius` that stays active until one asset
+   * depegs to `depegPrice` (e.g. 0.97) against the rest, clamped to `_isValidK`
+   */
+  static kForDepegPrice(radius: bigint, depegPrice: number, tokenCount: number = this.TOKEN_COUNT): bigint {
+    const P = this.CONTRACT_PRECISION
+    const ratio = this.kRatioForDepegPrice(depegPrice, tokenCount)
+    const k = (radius * BigInt(Math.round(ratio * Number(P)))) / P
+
+    const { lowerBound, upperBound } = this.getKBounds(radius, tokenCount)
+    if (k < lowerBound) return lowerBound
+    if (k > upperBound) return upperBound
+    return k
+  }
+
+  /**
+   * Depeg price at which a tick (k, radius) reaches its boundary
+   */
+  static depegPriceForK(k: bigint, radius: bigint, tokenCount: number = this.TOKEN_COUNT): number {
+    return this.depegPriceForKRatio(this.toKRatio(k, radius), tokenCount)
+  }
+
+  /**
+   * Capital efficiency of a tick (k, radius) relative to a full-range position;
+   * see `tickEfficiency`
+   */
+  static calculateEfficiency(k: bigint, radius: bigint, tokenCount: number = this.TOKEN_COUNT): number {
+    return this.tickEfficiency(this.toKRatio(k, radius), tokenCount)
+  }
+
+  /**
+   * Normalized plane constant k/r of the tick whose boundary is the point where
+   * one asset trades at `depegPrice` and the other n-1 stay equal:
+   * k/r = √n - (p + n - 1) / √(n(p² + n - 1))
+   */
+  static kRatioForDepegPrice(depegPrice: number, tokenCount: number): number {
+    const p = Math.min(Math.max(depegPrice, 0), 1)
+    const n = tokenCount
+    return Math.sqrt(n) - (p + n - 1) / Math.sqrt(n * (p * p + n - 1))
+  }
+
+  /**
+   * Inverse of `kRatioForDepegPrice`: the smaller root of
+   * (c²n - 1)p² - 2(n-1)p + (n-1)(c²n - n + 1) = 0 with c = √n - k/r
+   */
+  static depegPriceForKRatio(kRatio: number, tokenCount: number): number {
+    const n = tokenCount
+    const c = Math.sqrt(n) - kRatio
+    const a = c * c * n - 1
+    const b = -2 * (n - 1)
+    const constant = (n - 1) * (c * c * n - n + 1)
+    const discriminant = Math.sqrt(Math.max(b * b - 4 * a * constant, 0))
+
+    // Same root written as 2·constant / (-b + √Δ), which stays finite as a → 0 (n = 2)
+    const p = (2 * constant) / (-b + discriminant)
+    return Math.min(Math.max(p, 0), 1)
+  }
+
+  /**
+   * Smallest reserve any single asset reaches inside a tick, normalized by r:
+   * x_min/r = (k√n - √(k²n - n((n-1) - k√n)²)) / n, with k normalized
+   */
+  static minReserveRatio(kRatio: number, tokenCount: number): number {
+    const n = tokenCount
+    const kSqrtN = kRatio * Math.sqrt(n)
+    const offset = n - 1 - kSqrtN
+    return (kSqrtN - Math.sqrt(Math.max(kRatio * kRatio * n - n * offset * offset, 0))) / n
+  }
+
+  /**
+   * Whitepaper capital efficiency: x_base / (x_base - x_min), where
+   * x_base = r(1 - 1/√n) is each reserve at the equal-price point. A full-range
+   * position (x_min = 0) scores 1; a tick at the lower k bound is unbounded
+   */
+  static tickEfficiency(kRatio: number, tokenCount: number): number {
+    const base = 1 - 1 / Math.sqrt(tokenCount)
+    const depth = base - Math.max(this.minReserveRatio(kRatio, tokenCount), 0)
+    return depth > 0 ? base / depth : Infinity
+  }
+
+  /**
+   * Plane constant at which a tick of radius r sits on its boundary: r/√n
+   */
+  static calculateReserveConstraint(radius: bigint, tokenCount: number = this.TOKEN_COUNT): bigint {
+    return (radius * this.CONTRACT_PRECISION) / this.sqrtTokenCountScaled(tokenCount)
   }
 
   /**
@@ -131,44 +754,47 @@ export class OrbitalMath {
     return normalizedPosition >= normalizedBoundary ? 'Boundary' : 'Interior'
   }
 
-  /**
-   * Calculate capital efficiency for concentrated liquidity
-   */
-  static calculateEfficiency(
-    concentratedReserves: bigint[],
-    uniformReserves: bigint[]
-  ): number {
-    const concentratedK = this.calculateKConstant(concentratedReserves)
-    const uniformK = this.calculateKConstant(uniformReserves)
-
-    if (concentratedK === BigInt(0)) return 1000 // Max efficiency
-
-    const efficiency = Number(uniformK * this.PRECISION / concentratedK) / Number(this.PRECISION)
-    return Math.min(efficiency, 1000) // Cap at 1000x
-  }
-
   /**
    * Integer square root using Newton's method
+   *
+   * Returns floor(sqrt(n)), the same value as the contract's `_sqrt`. Starting
+   * from a power of two above the root keeps the iteration count logarithmic
+   * in the bit length for 256-bit inputs.
    */
   static integerSqrt(n: bigint): bigint {
     if (n === BigInt(0)) return BigInt(0)
     if (n === BigInt(1)) return BigInt(1)
 
-    let x = n
-    let y = (x + BigInt(1)) / BigInt(2)
-
-    let iterations = 0
-    const maxIterations = 100
+    let x = BigInt(1) << BigInt(Math.ceil(n.toString(2).length / 2))
+    let y = (x + n / x) / BigInt(2)
 
-    while (y < x && iterations < maxIterations) {
+    while (y < x) {
       x = y
       y = (x + n / x) / BigInt(2)
-      iterations++
     }
 
     return x
   }
 
+  private static toKRatio(k: bigint, radius: bigint): number {
+    if (radius === BigInt(0)) return 0
+    return Number((k * this.CONTRACT_PRECISION) / radius) / Number(this.CONTRACT_PRECISION)
+  }
+
+  private static ceilDiv(a: bigint, b: bigint): bigint {
+    return (a + b - BigInt(1)) / b
+  }
+
+  private static abs(value: bigint): bigint {
+    return value < BigInt(0) ? -value : value
+  }
+
+  // Solidity 0.8 reverts on uint256 underflow
+  private static checkedSub(a: bigint, b: bigint): bigint {
+    if (b > a) throw new Error('Arithmetic underflow')
+    return a - b
+  }
+
   /**
    * Normalize reserves to unit vector
    */
@@ -186,22 +812,6 @@ export class OrbitalMath {
   static calculateLiquidity(reserves: bigint[]): bigint {
     return this.calculateRadius(reserves)
   }
-
-  /**
-   * Estimate gas cost for operations
-   */
-  static estimateGasCost(
-    operation: 'swap' | 'addLiquidity' | 'removeLiquidity',
-    complexity: number = 1
-  ): number {
-    const baseCosts = {
-      swap: 80000,
-      addLiquidity: 120000,
-      removeLiquidity: 100000
-    }
-
-    return baseCosts[operation] + (complexity * 15000)
-  }
 }
 
 // Helper functions for frontend calculations
@@ -0,0 +1,192 @@
+/**
+ * Orbital AMM - Pool Client (Ethers.js transport)
+ *
+ * Bridges `OrbitalPoolClient` to an ethers provider and optional signer.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import { ethers, Contract } from 'ethers';
+import { getProvider, getSigner } from './ethers-provider';
+import { ReadBatcher, withBatchedReads } from './read-batcher';
+import { getRegistry } from './registry';
+import {
+  OrbitalPoolClient,
+  type ContractCall,
+  type DecodedContractLog,
+  type OrbitalPoolTransport,
+  type ReplacementReason,
+  type SubmittedTransaction,
+  type TransactionReceiptSummary,
+} from './orbital-pool-client';
+
+// How often a pending transaction is re-checked while watching for replacements
+const REPLACEMENT_POLL_INTERVAL_MS = 4000;
+
+export function createEthersTransport(
+  provider: ethers.Provider,
+  signer: ethers.JsonRpcSigner | null = null
+): OrbitalPoolTransport {
+  const contractFor = (call: ContractCall, runner: ethers.ContractRunner) =>
+    new Contract(call.address, call.abi as ethers.InterfaceAbi, runner);
+
+  return {
+    getAccount: () => signer?.address ?? null,
+
+    readContract: call => contractFor(call, provider).getFunction(call.functionName).staticCall(...(call.args ?? [])),
+
+    async writeContract(call) {
+      if (!signer) throw new Error('Wallet not connected');
+      const tx = await contractFor(call, signer).getFunction(call.functionName).send(...(call.args ?? []));
+      return tx.hash;
+    },
+
+    simulateContract(call) {
+      if (!signer) throw new Error('Wallet not connected');
+      return contractFor(call, signer).getFunction(call.functionName).staticCall(...(call.args ?? []));
+    },
+
+    estimateContractGas(call) {
+      if (!signer) throw new Error('Wallet not connected');
+      return contractFor(call, signer).getFunction(call.functionName).estimateGas(...(call.args ?? []));
+    },
+
+    async getGasPrice() {
+      const feeData = await provider.getFeeData();
+      return feeData.gasPrice;
+    },
+
+    async getTransaction(hash) {
+      const [tx, latestBlock] = await Promise.all([provider.getTransaction(hash), provider.getBlockNumber()]);
+      if (!tx) return null;
+      return {
+        hash,
+        from: tx.from,
+        nonce: tx.nonce,
+        to: tx.to,
+        data: tx.data,
+        startBlock: BigInt(tx.blockNumber ?? latestBlock),
+      };
+    },
+
+    async waitForTransaction(hash, submitted) {
+      if (!submitted) {
+        const receipt = await provider.waitForTransaction(hash);
+        if (!receipt) throw new Error(`Transaction ${hash} not found`);
+        return toReceiptSummary(hash, receipt);
+      }
+
+      // Poll instead of subscribing: once the wallet replaces the transaction its receipt never arrives
+      for (;;) {
+        const receipt = await provider.getTransactionReceipt(hash);
+        if (receipt) return toReceiptSummary(hash, receipt);
+
+        const minedNonce = await provider.getTransactionCount(submitted.from, 'latest');
+        if (minedNonce > submitted.nonce) {
+          const replacement = await findNonceReuse(provider, submitted);
+          // The original itself may have been mined since the receipt check; the next poll picks it up
+          if (replacement && replacement.hash !== hash) {
+            const replacementReceipt = await provider.getTransactionReceipt(replacement.hash);
+            if (replacementReceipt) {
+              return {
+                ...toReceiptSummary(hash, replacementReceipt),
+                replacement: { hash: replacement.hash, reason: replacementReason(submitted, replacement) },
+              };
+            }
+          }
+        }
+
+        await new Promise(resolve => setTimeout(resolve, REPLACEMENT_POLL_INTERVAL_MS));
+      }
+    },
+
+    watchContractEvents(address, abi, onLogs) {
+      const iface = new ethers.Interface(abi as ethers.InterfaceAbi);
+      const filter = { address };
+      const listener = (log: ethers.Log) => {
+        const parsed = iface.parseLog(log);
+        if (!parsed) return;
+        const decoded: DecodedContractLog = {
+          eventName: parsed.name,
+          args: parsed.args.toObject(),
+          blockNumber: BigInt(log.blockNumber),
+          transactionHash: log.transactionHash,
+          logIndex: log.index,
+        };
+        onLogs([decoded]);
+      };
+
+      provider.on(filter, listener);
+      return () => {
+        provider.off(filter, listener);
+      };
+    },
+  };
+}
+
+function toReceiptSummary(hash: string, receipt: ethers.TransactionReceipt): TransactionReceiptSummary {
+  return {
+    hash,
+    blockNumber: BigInt(receipt.blockNumber),
+    status: receipt.status === 1 ? 'success' : 'reverted',
+  };
+}
+
+// Mined transaction from the same sender that used `submitted`'s nonce, scanning forward from its start block
+async function findNonceReuse(
+  provider: ethers.Provider,
+  submitted: SubmittedTransaction
+): Promise<ethers.TransactionResponse | null> {
+  const latestBlock = await provider.getBlockNumber();
+  for (let blockNumber = Number(submitted.startBlock); blockNumber <= latestBlock; blockNumber++) {
+    const block = await provider.getBlock(blockNumber, true);
+    const match = block?.prefetchedTransactions.find(
+      tx => tx.nonce === submitted.nonce && tx.from.toLowerCase() === submitted.from.toLowerCase()
+    );
+    if (match) return match;
+  }
+  return null;
+}
+
+// Same classification as ethers' own `TransactionResponse.wait`
+function replacementReason(original: SubmittedTransaction, replacement: ethers.TransactionResponse): ReplacementReason {
+  if (replacement.to === original.to && replacement.data === original.data) return 'repriced';
+  if (replacement.data === '0x' && replacement.to === replacement.from && replacement.value === BigInt(0)) return 'cancelled';
+  return 'replaced';
+}
+
+let readBatcher: ReadBatcher | null = null;
+
+// One batcher for every client, so reads from different hooks and pools share requests and cache
+function getReadBatcher(): ReadBatcher {
+  if (!readBatcher) {
+    const provider = getProvider();
+    const reads = createEthersTransport(provider);
+    const batcher = new ReadBatcher(call => reads.readContract(call), {
+      multicallAddress: getRegistry().multicall3 ?? null,
+    });
+    provider.on('block', (blockNumber: number) => batcher.advanceToBlock(BigInt(blockNumber)));
+    readBatcher = batcher;
+  }
+  return readBatcher;
+}
+
+/**
+ * Tell the shared read cache that the chain has reached `blockNumber`, for
+ * block sources other than the app-wide provider (e.g. a WebSocket subscription)
+ */
+export function advanceReadBlock(blockNumber: number): void {
+  getReadBatcher().advanceToBlock(BigInt(blockNumber));
+}
+
+/**
+ * Client bound to the app-wide ethers provider and the connected signer.
+ * Reads are batched and cached per block through a shared `ReadBatcher`.
+ */
+export function createEthersPoolClient(poolAddress?: string): OrbitalPoolClient {
+  return new OrbitalPoolClient(
+    withBatchedReads(createEthersTransport(getProvider(), getSigner()), getReadBatcher()),
+    poolAddress
+  );
+}
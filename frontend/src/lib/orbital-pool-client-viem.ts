@@ -0,0 +1,109 @@
+/**
+ * Orbital AMM - Pool Client (viem transport)
+ *
+ * Bridges `OrbitalPoolClient` to the viem clients exposed by wagmi.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import { TransactionNotFoundError, type Abi, type Address, type Hash, type PublicClient, type WalletClient } from 'viem';
+import type {
+  ContractCall,
+  DecodedContractLog,
+  OrbitalPoolTransport,
+  TransactionReplacement,
+} from './orbital-pool-client';
+
+export function createViemTransport(
+  publicClient: PublicClient,
+  walletClient: WalletClient | null = null
+): OrbitalPoolTransport {
+  const toRequest = (call: ContractCall) => ({
+    address: call.address as Address,
+    abi: call.abi as Abi,
+    functionName: call.functionName,
+    args: call.args ?? [],
+  });
+
+  return {
+    getAccount: () => walletClient?.account?.address ?? null,
+
+    readContract: call => publicClient.readContract(toRequest(call)),
+
+    writeContract(call) {
+      if (!walletClient?.account) throw new Error('Wallet not connected');
+      return walletClient.writeContract({
+        ...toRequest(call),
+        account: walletClient.account,
+        chain: walletClient.chain,
+      });
+    },
+
+    async simulateContract(call) {
+      if (!walletClient?.account) throw new Error('Wallet not connected');
+      const { result } = await publicClient.simulateContract({ ...toRequest(call), account: walletClient.account });
+      return result;
+    },
+
+    estimateContractGas(call) {
+      if (!walletClient?.account) throw new Error('Wallet not connected');
+      return publicClient.estimateContractGas({ ...toRequest(call), account: walletClient.account });
+    },
+
+    getGasPrice: () => publicClient.getGasPrice(),
+
+    async getTransaction(hash) {
+      try {
+        const [tx, latestBlock] = await Promise.all([
+          publicClient.getTransaction({ hash: hash as Hash }),
+          publicClient.getBlockNumber(),
+        ]);
+        return {
+          hash,
+          from: tx.from,
+          nonce: tx.nonce,
+          to: tx.to,
+          data: tx.input,
+          startBlock: tx.blockNumber ?? latestBlock,
+        };
+      } catch (error) {
+        if (error instanceof TransactionNotFoundError) return null;
+        throw error;
+      }
+    },
+
+    // viem tracks replacements itself from the transaction's nonce
+    async waitForTransaction(hash) {
+      let replacement: TransactionReplacement | undefined;
+      const receipt = await publicClient.waitForTransactionReceipt({
+        hash: hash as Hash,
+        onReplaced: replaced => {
+          replacement = { hash: replaced.transaction.hash, reason: replaced.reason };
+        },
+      });
+      return { hash, blockNumber: receipt.blockNumber, status: receipt.status, ...(replacement && { replacement }) };
+    },
+
+    watchContractEvents(address, abi, onLogs) {
+      return publicClient.watchContractEvent({
+        address: address as Address,
+        abi: abi as Abi,
+        onLogs: logs =>
+          onLogs(
+            logs.map((rawLog): DecodedContractLog => {
+              // Logs are decoded against `abi`; the wide Abi type hides the decoded fields
+              const log = rawLog as typeof rawLog & { eventName?: string; args?: Record<string, unknown> };
+              return {
+                eventName: log.eventName ?? '',
+                args: log.args ?? {},
+                blockNumber: log.blockNumber ?? BigInt(0),
+                transactionHash: log.transactionHash ?? '',
+                logIndex: log.logIndex ?? 0,
+              };
+            })
+          ),
+      });
+    },
+  };
+}
@@ -0,0 +1,496 @@
+/**
+ * Orbital AMM - Pool Client
+ *
+ * Framework-agnostic client for the Orbital pool contract. Reads, writes and
+ * event subscriptions go through an `OrbitalPoolTransport`, so the ethers and
+ * wagmi stacks share one typed API and one pool address.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import type { Abi } from 'viem';
+import { ORBITAL_POOL_ABI, ERC20_ABI, orbitalPoolAbi } from './orbital-abi';
+import { CONTRACTS } from './constants';
+import { decodeContractError, type ContractErrorDetails } from './contract-errors';
+import { OrbitalMath, type OrbitalTick } from './orbital-math';
+import type { OrbitalPoolEvent } from './orbital-simulator';
+
+/**
+ * One amount per pool token, in contract index order (`TOKENS_COUNT` long)
+ */
+export type PoolTokenAmounts = readonly bigint[];
+
+export interface TickInfo {
+  r: bigint;
+  liquidity: bigint;
+  reserves: PoolTokenAmounts;
+  totalLpShares: bigint;
+  status: number; // 0 = Interior, 1 = Boundary
+  accruedFees: bigint;
+}
+
+export interface LiquidityPosition {
+  k: string;
+  lpShares: bigint;
+  reserves: PoolTokenAmounts;
+  efficiency: number;
+}
+
+export interface PoolState {
+  tokenCount: number;
+  totalReserves: PoolTokenAmounts;
+  activeTicks: readonly bigint[];
+  swapFee: bigint;
+}
+
+/**
+ * Any contract ABI; the pool's is sized per deployment, so only its wide type is known
+ */
+export type ContractAbi = Abi;
+
+export interface ContractCall {
+  address: string;
+  abi: ContractAbi;
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+/**
+ * How a wallet replaced a pending transaction: `repriced` is a speed-up of the
+ * same call, `cancelled` a zero-value self-transfer, `replaced` anything else
+ */
+export type ReplacementReason = 'repriced' | 'cancelled' | 'replaced';
+
+export interface TransactionReplacement {
+  hash: string;
+  reason: ReplacementReason;
+}
+
+/**
+ * Identity of a sent transaction; enough to recognise a replacement that
+ * reuses its nonce, even after the original has been dropped
+ */
+export interface SubmittedTransaction {
+  hash: string;
+  from: string;
+  nonce: number;
+  to: string | null;
+  data: string;
+  /** Latest block when the transaction was first seen (its own block if already mined) */
+  startBlock: bigint;
+}
+
+export interface TransactionReceiptSummary {
+  hash: string;
+  blockNumber: bigint;
+  status: 'success' | 'reverted';
+  /** Set when the wallet replaced `hash`; block and status then describe the replacement */
+  replacement?: TransactionReplacement;
+}
+
+/**
+ * Outcome of running a write as `eth_call` + `estimateGas` from the connected account
+ */
+export type TransactionSimulation<T> =
+  | {
+      ok: true;
+      /** Value the call would return */
+      result: T;
+      /** Gas the node estimates, or null when the call was only checked locally */
+      gasEstimate: bigint | null;
+      /** Current gas price, when the node reports one */
+      gasPrice: bigint | null;
+      /** gasEstimate * gasPrice in wei */
+      gasCost: bigint | null;
+    }
+  | { ok: false; error: ContractErrorDetails };
+
+export interface DecodedContractLog {
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface PoolEventMeta {
+  blockNumber: bigint;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/**
+ * Library-specific bridge used by `OrbitalPoolClient`
+ */
+export interface OrbitalPoolTransport {
+  /** Connected account, or null for read-only access */
+  getAccount(): string | null;
+  readContract(call: ContractCall): Promise<unknown>;
+  /** Submits a transaction and resolves with its hash */
+  writeContract(call: ContractCall): Promise<string>;
+  /** Runs a write as `eth_call` from the connected account and returns its result */
+  simulateContract(call: ContractCall): Promise<unknown>;
+  estimateContractGas(call: ContractCall): Promise<bigint>;
+  getGasPrice(): Promise<bigint | null>;
+  /** Sender and nonce of a sent transaction, or null while the node has not seen it */
+  getTransaction(hash: string): Promise<SubmittedTransaction | null>;
+  /**
+   * Resolves once `hash`, or a transaction replacing it, is mined. Replacements
+   * are detected from `submitted` when given.
+   */
+  waitForTransaction(hash: string, submitted?: SubmittedTransaction): Promise<TransactionReceiptSummary>;
+  /** Streams decoded logs for `address` until the returned function is called */
+  watchContractEvents(
+    address: string,
+    abi: ContractAbi,
+    onLogs: (logs: DecodedContractLog[]) => void
+  ): () => void;
+}
+
+/**
+ * Typed access to a single Orbital pool
+ */
+export class OrbitalPoolClient {
+  private tokenCount: Promise<number> | null;
+
+  /**
+   * @param tokenCount Pool size when already known; otherwise read from `TOKENS_COUNT` on first use
+   */
+  constructor(
+    private readonly transport: OrbitalPoolTransport,
+    readonly poolAddress: string = CONTRACTS.ORBITAL_POOL,
+    tokenCount?: number
+  ) {
+    this.tokenCount = tokenCount === undefined ? null : Promise.resolve(tokenCount);
+  }
+
+  get account(): string | null {
+    return this.transport.getAccount();
+  }
+
+  // Pool reads
+
+  async getTotalReserves(): Promise<PoolTokenAmounts> {
+    const reserves = await this.readPool('_getTotalReserves');
+    return toTokenAmounts(reserves);
+  }
+
+  async getActiveTicks(): Promise<readonly bigint[]> {
+    const ticks = await this.readPool('getActiveTicks');
+    return Array.from(ticks as Iterable<bigint>);
+  }
+
+  async getSwapFee(): Promise<bigint> {
+    return (await this.readPool('swapFee')) as bigint;
+  }
+
+  /**
+   * `TOKENS_COUNT`, which fixes the length of every amounts array; cached after the first read
+   */
+  getTokenCount(): Promise<number> {
+    if (!this.tokenCount) {
+      // Read with the base ABI: TOKENS_COUNT takes no array, so its encoding does not depend on N
+      this.tokenCount = this.transport
+        .readContract({ address: this.poolAddress, abi: ORBITAL_POOL_ABI, functionName: 'TOKENS_COUNT', args: [] })
+        .then(Number);
+      this.tokenCount.catch(() => {
+        this.tokenCount = null;
+      });
+    }
+    return this.tokenCount;
+  }
+
+  async getTokenAddress(index: number): Promise<string> {
+    return (await this.readPool('tokens', [BigInt(index)])) as string;
+  }
+
+  async getFeeDenominator(): Promise<bigint> {
+    return (await this.readPool('FEE_DENOMINATOR')) as bigint;
+  }
+
+  getGasPrice(): Promise<bigint | null> {
+    return this.transport.getGasPrice();
+  }
+
+  async getPoolState(): Promise<PoolState> {
+    const [tokenCount, totalReserves, activeTicks, swapFee] = await Promise.all([
+      this.getTokenCount(),
+      this.getTotalReserves(),
+      this.getActiveTicks(),
+      this.getSwapFee(),
+    ]);
+    return { tokenCount, totalReserves, activeTicks, swapFee };
+  }
+
+  /**
+   * Output of `swap` for `amountIn`, fee included; computed locally with
+   * `OrbitalMath.quoteSwap` since the pool exposes no quote function
+   */
+  async getSwapQuote(tokenIn: number, tokenOut: number, amountIn: bigint): Promise<bigint> {
+    const [ticks, swapFee] = await Promise.all([this.getPoolTicks(), this.getSwapFee()]);
+    return OrbitalMath.quoteSwap(ticks, tokenIn, tokenOut, amountIn, swapFee);
+  }
+
+  /**
+   * Amount of `tokenIn`, before fees, needed to receive `amountOut`; solved
+   * locally with `OrbitalMath.quoteSwapExactOut` over the current tick state
+   */
+  async getSwapQuoteExactOut(tokenIn: number, tokenOut: number, amountOut: bigint): Promise<bigint> {
+    const [ticks, swapFee] = await Promise.all([this.getPoolTicks(), this.getSwapFee()]);
+    return OrbitalMath.quoteSwapExactOut(ticks, tokenIn, tokenOut, amountOut, swapFee);
+  }
+
+  /**
+   * Price impact, in percent, of swapping `amountIn` (before fees) for
+   * `amountOut`, measured against the invariant's current spot price
+   */
+  async getPriceImpact(tokenIn: number, tokenOut: number, amountIn: bigint, amountOut: bigint): Promise<number> {
+    const [ticks, swapFee] = await Promise.all([this.getPoolTicks(), this.getSwapFee()]);
+    const reserves = OrbitalMath.getTotalReserves(ticks, ticks[0]?.reserves.length ?? 0);
+    const amountInAfterFee = (amountIn * (OrbitalMath.FEE_DENOMINATOR - swapFee)) / OrbitalMath.FEE_DENOMINATOR;
+    return OrbitalMath.calculatePriceImpact(reserves, tokenIn, tokenOut, amountInAfterFee, amountOut, ticks);
+  }
+
+  /**
+   * Every active tick in the shape `OrbitalMath` consumes
+   */
+  async getPoolTicks(): Promise<OrbitalTick[]> {
+    const activeTicks = await this.getActiveTicks();
+    const infos = await Promise.all(activeTicks.map(k => this.getTickInfo(k)));
+    return infos.map((info, i) => ({
+      k: activeTicks[i],
+      r: info.r,
+      liquidity: info.liquidity,
+      reserves: info.reserves,
+      status: info.status,
+    }));
+  }
+
+  async getTickInfo(k: bigint): Promise<TickInfo> {
+    // getTickInfo omits accruedFees; the public `ticks` getter has it but not the reserves array
+    const [info, tick] = (await Promise.all([
+      this.readPool('getTickInfo', [k]),
+      this.readPool('ticks', [k]),
+    ])) as [readonly unknown[], readonly unknown[]];
+    return {
+      r: info[0] as bigint,
+      liquidity: info[1] as bigint,
+      reserves: toTokenAmounts(info[2]),
+      totalLpShares: info[3] as bigint,
+      status: Number(info[4]),
+      accruedFees: tick[5] as bigint,
+    };
+  }
+
+  async getUserLpShares(k: bigint, owner: string): Promise<bigint> {
+    return (await this.readPool('getUserLpShares', [k, owner])) as bigint;
+  }
+
+  // Token reads
+
+  async getTokenAllowance(tokenAddress: string, owner: string): Promise<bigint> {
+    return (await this.readToken(tokenAddress, 'allowance', [owner, this.poolAddress])) as bigint;
+  }
+
+  async getTokenBalance(tokenAddress: string, owner: string): Promise<bigint> {
+    return (await this.readToken(tokenAddress, 'balanceOf', [owner])) as bigint;
+  }
+
+  // Writes (resolve with the transaction hash)
+
+  swap(tokenIn: number, tokenOut: number, amountIn: bigint, minAmountOut: bigint): Promise<string> {
+    return this.writePool('swap', [BigInt(tokenIn), BigInt(tokenOut), amountIn, minAmountOut]);
+  }
+
+  async addLiquidity(k: bigint, amounts: PoolTokenAmounts): Promise<string> {
+    await this.requireTokenAmounts(amounts);
+    return this.writePool('addLiquidity', [k, amounts]);
+  }
+
+  async removeLiquidity(k: bigint, lpSharesToRemove: bigint, minAmountsOut: PoolTokenAmounts): Promise<string> {
+    await this.requireTokenAmounts(minAmountsOut);
+    return this.writePool('removeLiquidity', [k, lpSharesToRemove, minAmountsOut]);
+  }
+
+  approveToken(tokenAddress: string, amount: bigint): Promise<string> {
+    this.requireAccount();
+    return this.transport.writeContract({
+      address: tokenAddress,
+      abi: ERC20_ABI,
+      functionName: 'approve',
+      args: [this.poolAddress, amount],
+    });
+  }
+
+  // Pre-flight simulation (same arguments as the matching write)
+
+  simulateSwap(
+    tokenIn: number,
+    tokenOut: number,
+    amountIn: bigint,
+    minAmountOut: bigint
+  ): Promise<TransactionSimulation<bigint>> {
+    return this.simulate('swap', [BigInt(tokenIn), BigInt(tokenOut), amountIn, minAmountOut], result => result as bigint);
+  }
+
+  async simulateAddLiquidity(k: bigint, amounts: PoolTokenAmounts): Promise<TransactionSimulation<null>> {
+    await this.requireTokenAmounts(amounts);
+    return this.simulate('addLiquidity', [k, amounts], () => null);
+  }
+
+  async simulateRemoveLiquidity(
+    k: bigint,
+    lpSharesToRemove: bigint,
+    minAmountsOut: PoolTokenAmounts
+  ): Promise<TransactionSimulation<PoolTokenAmounts>> {
+    await this.requireTokenAmounts(minAmountsOut);
+    return this.simulate('removeLiquidity', [k, lpSharesToRemove, minAmountsOut], toTokenAmounts);
+  }
+
+  /**
+   * Sender and nonce of a sent transaction, for tracking it through replacements
+   */
+  getSubmittedTransaction(hash: string): Promise<SubmittedTransaction | null> {
+    return this.transport.getTransaction(hash);
+  }
+
+  /**
+   * Wait for a transaction (or the wallet's replacement of it) to be mined,
+   * throwing if it reverted
+   */
+  async waitForTransaction(hash: string, submitted?: SubmittedTransaction): Promise<TransactionReceiptSummary> {
+    const receipt = await this.transport.waitForTransaction(hash, submitted);
+    if (receipt.status === 'reverted') {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+    return receipt;
+  }
+
+  // Events
+
+  /**
+   * Subscribe to pool events
+   * @returns Function that stops the subscription
+   */
+  subscribe(listener: (event: OrbitalPoolEvent, meta: PoolEventMeta) => void): () => void {
+    let stop: (() => void) | null = null;
+    let stopped = false;
+
+    // Event amounts are uint256[TOKENS_COUNT], so decoding waits for the pool size
+    this.getTokenCount()
+      .then(tokenCount => {
+        if (stopped) return;
+        stop = this.transport.watchContractEvents(this.poolAddress, orbitalPoolAbi(tokenCount), logs => {
+          for (const log of logs) {
+            const event = toPoolEvent(log);
+            if (event) {
+              listener(event, {
+                blockNumber: log.blockNumber,
+                transactionHash: log.transactionHash,
+                logIndex: log.logIndex,
+              });
+            }
+          }
+        });
+      })
+      .catch(error => console.error('Failed to subscribe to pool events:', error));
+
+    return () => {
+      stopped = true;
+      stop?.();
+    };
+  }
+
+  private async simulate<T>(
+    functionName: string,
+    args: readonly unknown[],
+    parse: (result: unknown) => T
+  ): Promise<TransactionSimulation<T>> {
+    this.requireAccount();
+    try {
+      const call = await this.poolCall(functionName, args);
+      const [result, gasEstimate, gasPrice] = await Promise.all([
+        this.transport.simulateContract(call),
+        this.transport.estimateContractGas(call),
+        this.transport.getGasPrice(),
+      ]);
+      return {
+        ok: true,
+        result: parse(result),
+        gasEstimate,
+        gasPrice,
+        gasCost: gasPrice === null ? null : gasEstimate * gasPrice,
+      };
+    } catch (error) {
+      return { ok: false, error: decodeContractError(error) };
+    }
+  }
+
+  private async poolCall(functionName: string, args: readonly unknown[] = []): Promise<ContractCall> {
+    return { address: this.poolAddress, abi: orbitalPoolAbi(await this.getTokenCount()), functionName, args };
+  }
+
+  private async readPool(functionName: string, args: readonly unknown[] = []): Promise<unknown> {
+    return this.transport.readContract(await this.poolCall(functionName, args));
+  }
+
+  private readToken(tokenAddress: string, functionName: string, args: readonly unknown[]): Promise<unknown> {
+    return this.transport.readContract({ address: tokenAddress, abi: ERC20_ABI, functionName, args });
+  }
+
+  private async writePool(functionName: string, args: readonly unknown[]): Promise<string> {
+    this.requireAccount();
+    return this.transport.writeContract(await this.poolCall(functionName, args));
+  }
+
+  private async requireTokenAmounts(amounts: PoolTokenAmounts): Promise<void> {
+    const tokenCount = await this.getTokenCount();
+    if (amounts.length !== tokenCount) {
+      throw new Error(`Expected ${tokenCount} token amounts, got ${amounts.length}`);
+    }
+  }
+
+  private requireAccount(): void {
+    if (!this.transport.getAccount()) {
+      throw new Error('Wallet not connected');
+    }
+  }
+}
+
+function toTokenAmounts(value: unknown): PoolTokenAmounts {
+  return Array.from(value as Iterable<bigint>);
+}
+
+function toPoolEvent({ eventName, args }: DecodedContractLog): OrbitalPoolEvent | null {
+  switch (eventName) {
+    case 'LiquidityAdded':
+    case 'LiquidityRemoved':
+      return {
+        name: eventName,
+        provider: args.provider as string,
+        k: args.k as bigint,
+        amounts: Array.from(args.amounts as Iterable<bigint>),
+        lpShares: args.lpShares as bigint,
+      };
+    case 'Swap':
+      return {
+        name: 'Swap',
+        trader: args.trader as string,
+        tokenIn: args.tokenIn as bigint,
+        tokenOut: args.tokenOut as bigint,
+        amountIn: args.amountIn as bigint,
+        amountOut: args.amountOut as bigint,
+        fee: args.fee as bigint,
+      };
+    case 'TickStatusChanged':
+      return {
+        name: 'TickStatusChanged',
+        k: args.k as bigint,
+        oldStatus: Number(args.oldStatus),
+        newStatus: Number(args.newStatus),
+      };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,472 @@
+/**
+ * Orbital AMM - Pool Simulator
+ *
+ * In-memory model of `src/orbital.sol` for testing UI flows and strategies
+ * without a chain. State transitions, rounding, custom errors and events
+ * follow the contract; every call is atomic like a transaction.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import { OrbitalMath, TickStatus, type OrbitalTick } from './orbital-math';
+
+export type OrbitalPoolErrorName =
+  | 'InvalidKValue'
+  | 'InvalidAmounts'
+  | 'TickAlreadyExists'
+  | 'InsufficientLiquidity'
+  | 'InvalidTokenIndex'
+  | 'SlippageExceeded'
+  | 'InsufficientLpShares';
+
+/**
+ * Custom error raised by the pool, named after the Solidity `error`
+ */
+export class OrbitalPoolError extends Error {
+  constructor(readonly errorName: OrbitalPoolErrorName) {
+    super(errorName);
+    this.name = 'OrbitalPoolError';
+  }
+}
+
+export type OrbitalPoolEvent =
+  | { name: 'LiquidityAdded'; provider: string; k: bigint; amounts: bigint[]; lpShares: bigint }
+  | { name: 'LiquidityRemoved'; provider: string; k: bigint; amounts: bigint[]; lpShares: bigint }
+  | {
+      name: 'Swap';
+      trader: string;
+      tokenIn: bigint;
+      tokenOut: bigint;
+      amountIn: bigint;
+      amountOut: bigint;
+      fee: bigint;
+    }
+  | { name: 'TickStatusChanged'; k: bigint; oldStatus: TickStatus; newStatus: TickStatus };
+
+/**
+ * Token movements requested by the pool. Implementations throw to revert.
+ * Ledger state is not rolled back by the simulator when a later step reverts.
+ */
+export interface TokenLedger {
+  transferFrom(tokenIndex: number, from: string, amount: bigint): void;
+  transfer(tokenIndex: number, to: string, amount: bigint): void;
+}
+
+export interface SimulatedTickInfo {
+  r: bigint;
+  liquidity: bigint;
+  reserves: bigint[];
+  totalLpShares: bigint;
+  status: TickStatus;
+  accruedFees: bigint;
+}
+
+export interface OrbitalPoolSimulatorOptions {
+  tokenCount?: number;
+  swapFee?: bigint;
+  ledger?: TokenLedger;
+}
+
+interface SimulatedTick extends SimulatedTickInfo {
+  k: bigint;
+  lpShares: Map<string, bigint>;
+}
+
+/**
+ * Opaque copy of the pool state, see `snapshot()`
+ */
+export interface OrbitalPoolSnapshot {
+  ticks: Map<bigint, SimulatedTick>;
+  activeTicks: bigint[];
+}
+
+const ZERO = BigInt(0);
+
+export class OrbitalPoolSimulator {
+  readonly TOKENS_COUNT: number;
+  readonly FEE_DENOMINATOR = OrbitalMath.FEE_DENOMINATOR;
+  swapFee: bigint;
+
+  private state: OrbitalPoolSnapshot = { ticks: new Map(), activeTicks: [] };
+  private readonly ledger?: TokenLedger;
+  private readonly listeners = new Set<(event: OrbitalPoolEvent) => void>();
+  private pendingEvents: OrbitalPoolEvent[] = [];
+
+  constructor(options: OrbitalPoolSimulatorOptions = {}) {
+    this.TOKENS_COUNT = options.tokenCount ?? 5;
+    this.swapFee = options.swapFee ?? OrbitalMath.DEFAULT_SWAP_FEE;
+    this.ledger = options.ledger;
+  }
+
+  /**
+   * Subscribe to emitted events. Events of a reverted call are never delivered.
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (event: OrbitalPoolEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  addLiquidity(sender: string, k: bigint, amounts: readonly bigint[]): OrbitalPoolEvent[] {
+    return this.execute(() => {
+      if (k === ZERO) throw new OrbitalPoolError('InvalidKValue');
+      if (!this.validateAmounts(amounts)) throw new OrbitalPoolError('InvalidAmounts');
+
+      const tick = this.getOrCreateTick(k);
+      const tickExists = tick.r > ZERO;
+      const previousRadius = tickExists ? tick.r : ZERO;
+      const previousTotalLpShares = tickExists ? tick.totalLpShares : ZERO;
+
+      const newReserves = tickExists ? tick.reserves.map((reserve, i) => reserve + amounts[i]) : [...amounts];
+      const radius = OrbitalMath.calculateRadius(newReserves);
+      if (!OrbitalMath.isValidK(k, radius, this.TOKENS_COUNT)) throw new OrbitalPoolError('InvalidKValue');
+
+      tick.r = radius;
+      tick.liquidity = radius;
+      tick.reserves = newReserves;
+      tick.status = this.statusForRadius(k, radius);
+
+      if (!tickExists && !this.state.activeTicks.includes(k)) {
+        this.state.activeTicks.push(k);
+      }
+
+      amounts.forEach((amount, i) => {
+        if (amount > ZERO) this.ledger?.transferFrom(i, sender, amount);
+      });
+
+      let lpShares: bigint;
+      if (!tickExists || previousTotalLpShares === ZERO) {
+        lpShares = tick.r;
+      } else if (tick.r > previousRadius) {
+        lpShares = ((tick.r - previousRadius) * previousTotalLpShares) / previousRadius;
+      } else {
+        lpShares = BigInt(1);
+      }
+
+      const provider = normalizeAddress(sender);
+      tick.lpShares.set(provider, (tick.lpShares.get(provider) ?? ZERO) + lpShares);
+      tick.totalLpShares += lpShares;
+
+      this.emit({ name: 'LiquidityAdded', provider, k, amounts: [...amounts], lpShares });
+    });
+  }
+
+  /**
+   * @returns Token amounts returned to the sender
+   */
+  removeLiquidity(
+    sender: string,
+    k: bigint,
+    lpSharesToRemove: bigint,
+    minAmountsOut: readonly bigint[]
+  ): bigint[] {
+    let amounts: bigint[] = [];
+
+    this.execute(() => {
+      if (k === ZERO) throw new OrbitalPoolError('InvalidKValue');
+      if (lpSharesToRemove === ZERO) throw new OrbitalPoolError('InvalidAmounts');
+
+      const tick = this.state.ticks.get(k);
+      if (!tick || tick.r === ZERO) throw new OrbitalPoolError('InsufficientLiquidity');
+
+      const provider = normalizeAddress(sender);
+      const userShares = tick.lpShares.get(provider) ?? ZERO;
+      if (userShares < lpSharesToRemove) throw new OrbitalPoolError('InsufficientLpShares');
+
+      amounts = tick.reserves.map((reserve, i) => {
+        const amount = (lpSharesToRemove * reserve) / tick.totalLpShares;
+        if (amount < (minAmountsOut[i] ?? ZERO)) throw new OrbitalPoolError('SlippageExceeded');
+        return amount;
+      });
+
+      tick.reserves = tick.reserves.map((reserve, i) => reserve - amounts[i]);
+      tick.r = OrbitalMath.calculateRadius(tick.reserves);
+      tick.liquidity = tick.r;
+
+      tick.lpShares.set(provider, userShares - lpSharesToRemove);
+      tick.totalLpShares -= lpSharesToRemove;
+
+      if (tick.totalLpShares === ZERO) {
+        this.removeFromActiveTicks(k);
+        this.state.ticks.delete(k);
+      } else {
+        this.setTickStatus(tick, this.statusForRadius(k, tick.r));
+      }
+
+      amounts.forEach((amount, i) => {
+        if (amount > ZERO) this.ledger?.transfer(i, sender, amount);
+      });
+
+      this.emit({ name: 'LiquidityRemoved', provider, k, amounts: [...amounts], lpShares: lpSharesToRemove });
+    });
+
+    return amounts;
+  }
+
+  /**
+   * @returns Amount of output tokens sent to the sender
+   */
+  swap(sender: string, tokenIn: number, tokenOut: number, amountIn: bigint, minAmountOut: bigint): bigint {
+    let amountOut = ZERO;
+
+    this.execute(() => {
+      if (tokenIn >= this.TOKENS_COUNT || tokenOut >= this.TOKENS_COUNT) {
+        throw new OrbitalPoolError('InvalidTokenIndex');
+      }
+      if (tokenIn === tokenOut) throw new OrbitalPoolError('InvalidAmounts');
+      if (amountIn === ZERO) throw new OrbitalPoolError('InvalidAmounts');
+
+      this.ledger?.transferFrom(tokenIn, sender, amountIn);
+
+      const amountInAfterFee = (amountIn * (this.FEE_DENOMINATOR - this.swapFee)) / this.FEE_DENOMINATOR;
+      const totalReserves = this.getTotalReserves();
+
+      amountOut = OrbitalMath.calculateSwapOutput(
+        this.getTicks(),
+        totalReserves,
+        tokenIn,
+        tokenOut,
+        amountInAfterFee
+      );
+
+      if (amountOut < minAmountOut) throw new OrbitalPoolError('SlippageExceeded');
+
+      totalReserves[tokenIn] += amountInAfterFee;
+      totalReserves[tokenOut] = totalReserves[tokenOut] >= amountOut ? totalReserves[tokenOut] - amountOut : ZERO;
+      this.updateTickReservesWithCrossings(totalReserves);
+
+      this.ledger?.transfer(tokenOut, sender, amountOut);
+
+      this.distributeFees(amountIn - amountInAfterFee);
+
+      this.emit({
+        name: 'Swap',
+        trader: normalizeAddress(sender),
+        tokenIn: BigInt(tokenIn),
+        tokenOut: BigInt(tokenOut),
+        amountIn,
+        amountOut,
+        fee: amountIn - amountInAfterFee,
+      });
+    });
+
+    return amountOut;
+  }
+
+  /**
+   * Recompute every tick's status from its radius (`_updateTickStatusesAtCrossing`).
+   * Like the contract, `swap` does not call this; it uses the projection-based update.
+   */
+  updateTickStatusesAtCrossing(): OrbitalPoolEvent[] {
+    return this.execute(() => {
+      for (const tick of this.activeTickEntries()) {
+        this.setTickStatus(tick, this.statusForRadius(tick.k, tick.r));
+      }
+    });
+  }
+
+  /**
+   * Capture the pool state, e.g. to dry-run a call and `restore` afterwards
+   */
+  snapshot(): OrbitalPoolSnapshot {
+    return cloneState(this.state);
+  }
+
+  restore(snapshot: OrbitalPoolSnapshot): void {
+    this.state = cloneState(snapshot);
+  }
+
+  // View functions
+
+  getTickInfo(k: bigint): SimulatedTickInfo {
+    const tick = this.state.ticks.get(k);
+    return {
+      r: tick?.r ?? ZERO,
+      liquidity: tick?.liquidity ?? ZERO,
+      reserves: tick ? [...tick.reserves] : this.zeroReserves(),
+      totalLpShares: tick?.totalLpShares ?? ZERO,
+      status: tick?.status ?? TickStatus.Interior,
+      accruedFees: tick?.accruedFees ?? ZERO,
+    };
+  }
+
+  getUserLpShares(k: bigint, user: string): bigint {
+    return this.state.ticks.get(k)?.lpShares.get(normalizeAddress(user)) ?? ZERO;
+  }
+
+  getActiveTicks(): bigint[] {
+    return [...this.state.activeTicks];
+  }
+
+  getTotalReserves(): bigint[] {
+    return OrbitalMath.getTotalReserves(this.getTicks(), this.TOKENS_COUNT);
+  }
+
+  computeTorusInvariant(): bigint {
+    return OrbitalMath.computeTorusInvariant(this.getTicks(), this.TOKENS_COUNT);
+  }
+
+  /**
+   * Active ticks in `activeTicks` order, in the shape used by `OrbitalMath`
+   */
+  getTicks(): OrbitalTick[] {
+    return this.activeTickEntries().map(tick => ({
+      k: tick.k,
+      r: tick.r,
+      liquidity: tick.liquidity,
+      reserves: [...tick.reserves],
+      status: tick.status,
+    }));
+  }
+
+  // Internal state transitions
+
+  private execute(operation: () => void): OrbitalPoolEvent[] {
+    const snapshot = cloneState(this.state);
+    this.pendingEvents = [];
+
+    try {
+      operation();
+    } catch (error) {
+      this.state = snapshot;
+      this.pendingEvents = [];
+      throw error;
+    }
+
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    events.forEach(event => this.listeners.forEach(listener => listener(event)));
+    return events;
+  }
+
+  private emit(event: OrbitalPoolEvent): void {
+    this.pendingEvents.push(event);
+  }
+
+  private updateTickReservesWithCrossings(newTotalReserves: bigint[]): void {
+    const newProjection = this.calculateAlpha(newTotalReserves);
+    const P = OrbitalMath.CONTRACT_PRECISION;
+
+    for (const tick of this.activeTickEntries()) {
+      const normalizedProjection = (newProjection * P) / tick.r;
+      const normalizedBoundary = (tick.k * P) / tick.r;
+      const newStatus = normalizedProjection < normalizedBoundary ? TickStatus.Interior : TickStatus.Boundary;
+      this.setTickStatus(tick, newStatus);
+    }
+
+    this.updateIndividualTickReserves(newTotalReserves);
+  }
+
+  private updateIndividualTickReserves(newTotalReserves: bigint[]): void {
+    const ticks = this.activeTickEntries();
+    const totalInteriorRadius = ticks
+      .filter(tick => tick.status === TickStatus.Interior)
+      .reduce((sum, tick) => sum + tick.r, ZERO);
+
+    for (const tick of ticks) {
+      if (tick.status === TickStatus.Interior && totalInteriorRadius > ZERO) {
+        tick.reserves = newTotalReserves.map(reserve => (reserve * tick.r) / totalInteriorRadius);
+      } else if (tick.status === TickStatus.Boundary) {
+        this.projectTickToBoundary(tick);
+      }
+    }
+  }
+
+  private projectTickToBoundary(tick: SimulatedTick): void {
+    const currentProjection = this.calculateAlpha(tick.reserves);
+
+    if (currentProjection !== tick.k) {
+      if (currentProjection === ZERO) throw new Error('Division by zero');
+      tick.reserves = tick.reserves.map(reserve => (reserve * tick.k) / currentProjection);
+    }
+  }
+
+  private distributeFees(feeAmount: bigint): void {
+    const ticks = this.state.activeTicks.map(k => this.state.ticks.get(k)).filter(isDefined);
+    const totalLiquidity = ticks.reduce((sum, tick) => sum + tick.liquidity, ZERO);
+
+    if (totalLiquidity === ZERO) return;
+
+    for (const tick of ticks) {
+      if (tick.liquidity === ZERO) continue;
+      tick.accruedFees += (feeAmount * tick.liquidity) / totalLiquidity;
+    }
+  }
+
+  private removeFromActiveTicks(k: bigint): void {
+    const index = this.state.activeTicks.indexOf(k);
+    if (index === -1) return;
+
+    // Swap-and-pop, preserving the contract's iteration order
+    const last = this.state.activeTicks.length - 1;
+    this.state.activeTicks[index] = this.state.activeTicks[last];
+    this.state.activeTicks.pop();
+  }
+
+  private setTickStatus(tick: SimulatedTick, newStatus: TickStatus): void {
+    const oldStatus = tick.status;
+    if (oldStatus === newStatus) return;
+
+    tick.status = newStatus;
+    this.emit({ name: 'TickStatusChanged', k: tick.k, oldStatus, newStatus });
+  }
+
+  private statusForRadius(k: bigint, radius: bigint): TickStatus {
+    return OrbitalMath.calculateReserveConstraint(radius, this.TOKENS_COUNT) === k ? TickStatus.Boundary : TickStatus.Interior;
+  }
+
+  private calculateAlpha(reserves: readonly bigint[]): bigint {
+    return reserves.reduce((sum, reserve) => sum + reserve, ZERO) / BigInt(this.TOKENS_COUNT);
+  }
+
+  private validateAmounts(amounts: readonly bigint[]): boolean {
+    return amounts.length === this.TOKENS_COUNT && amounts.every(amount => amount > ZERO);
+  }
+
+  private activeTickEntries(): SimulatedTick[] {
+    return this.state.activeTicks
+      .map(k => this.state.ticks.get(k))
+      .filter((tick): tick is SimulatedTick => !!tick && tick.r > ZERO);
+  }
+
+  private getOrCreateTick(k: bigint): SimulatedTick {
+    let tick = this.state.ticks.get(k);
+    if (!tick) {
+      tick = {
+        k,
+        r: ZERO,
+        liquidity: ZERO,
+        reserves: this.zeroReserves(),
+        totalLpShares: ZERO,
+        lpShares: new Map(),
+        status: TickStatus.Interior,
+        accruedFees: ZERO,
+      };
+      this.state.ticks.set(k, tick);
+    }
+    return tick;
+  }
+
+  private zeroReserves(): bigint[] {
+    return new Array<bigint>(this.TOKENS_COUNT).fill(ZERO);
+  }
+}
+
+function cloneState(state: OrbitalPoolSnapshot): OrbitalPoolSnapshot {
+  const ticks = new Map<bigint, SimulatedTick>();
+  state.ticks.forEach((tick, k) => {
+    ticks.set(k, { ...tick, reserves: [...tick.reserves], lpShares: new Map(tick.lpShares) });
+  });
+  return { ticks, activeTicks: [...state.activeTicks] };
+}
+
+function normalizeAddress(address: string): string {
+  return address.toLowerCase();
+}
+
+function isDefined<T>(value: T | undefined): value is T {
+  return value !== undefined;
+}
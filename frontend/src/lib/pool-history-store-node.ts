@@ -0,0 +1,51 @@
+/**
+ * Orbital AMM - Pool History Storage (Node.js)
+ *
+ * JSON-file persistence for running the pool indexer outside the browser.
+ * Kept separate from `pool-history-store` so `fs` never reaches the client bundle.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { deserializeHistory, serializeHistory, type PoolHistoryRecord, type PoolHistorySnapshot } from './pool-history';
+import type { PoolHistoryStore } from './pool-history-store';
+
+export class JsonFileHistoryStore implements PoolHistoryStore {
+  private snapshot: PoolHistorySnapshot | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<PoolHistorySnapshot> {
+    if (!this.snapshot) {
+      try {
+        this.snapshot = deserializeHistory(await fs.readFile(this.filePath, 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        this.snapshot = { lastIndexedBlock: -1, records: [] };
+      }
+    }
+    return { lastIndexedBlock: this.snapshot.lastIndexedBlock, records: [...this.snapshot.records] };
+  }
+
+  async append(records: readonly PoolHistoryRecord[], lastIndexedBlock: number): Promise<void> {
+    const current = await this.load();
+    this.snapshot = { lastIndexedBlock, records: [...current.records, ...records] };
+    await this.write(this.snapshot);
+  }
+
+  async clear(): Promise<void> {
+    this.snapshot = { lastIndexedBlock: -1, records: [] };
+    await this.write(this.snapshot);
+  }
+
+  private async write(snapshot: PoolHistorySnapshot): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so an interrupted process never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, serializeHistory(snapshot));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Orbital AMM - Pool History Storage
+ *
+ * Persistence backends for the pool indexer. The browser uses IndexedDB;
+ * Node processes use `JsonFileHistoryStore` from `pool-history-store-node`.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import type { PoolHistoryRecord, PoolHistorySnapshot } from './pool-history';
+
+export interface PoolHistoryStore {
+  load(): Promise<PoolHistorySnapshot>;
+  /** Persist new records together with the block they have been indexed up to */
+  append(records: readonly PoolHistoryRecord[], lastIndexedBlock: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const EMPTY_SNAPSHOT: PoolHistorySnapshot = { lastIndexedBlock: -1, records: [] };
+
+/**
+ * Non-persistent store, used during SSR and when IndexedDB is unavailable
+ */
+export class MemoryHistoryStore implements PoolHistoryStore {
+  private snapshot: PoolHistorySnapshot = EMPTY_SNAPSHOT;
+
+  async load(): Promise<PoolHistorySnapshot> {
+    return { lastIndexedBlock: this.snapshot.lastIndexedBlock, records: [...this.snapshot.records] };
+  }
+
+  async append(records: readonly PoolHistoryRecord[], lastIndexedBlock: number): Promise<void> {
+    this.snapshot = { lastIndexedBlock, records: [...this.snapshot.records, ...records] };
+  }
+
+  async clear(): Promise<void> {
+    this.snapshot = EMPTY_SNAPSHOT;
+  }
+}
+
+const DB_VERSION = 1;
+const RECORDS = 'records';
+const META = 'meta';
+const CURSOR_KEY = 'lastIndexedBlock';
+
+/**
+ * IndexedDB store; one database per chain and pool
+ */
+export class IndexedDBHistoryStore implements PoolHistoryStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly databaseName: string) {}
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async load(): Promise<PoolHistorySnapshot> {
+    const db = await this.open();
+    const tx = db.transaction([RECORDS, META], 'readonly');
+    const [records, cursor] = await Promise.all([
+      request<PoolHistoryRecord[]>(tx.objectStore(RECORDS).getAll()),
+      request<number | undefined>(tx.objectStore(META).get(CURSOR_KEY)),
+    ]);
+    return { lastIndexedBlock: cursor ?? -1, records };
+  }
+
+  async append(records: readonly PoolHistoryRecord[], lastIndexedBlock: number): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([RECORDS, META], 'readwrite');
+    const recordStore = tx.objectStore(RECORDS);
+    records.forEach(record => recordStore.put(record));
+    tx.objectStore(META).put(lastIndexedBlock, CURSOR_KEY);
+    await complete(tx);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([RECORDS, META], 'readwrite');
+    tx.objectStore(RECORDS).clear();
+    tx.objectStore(META).clear();
+    await complete(tx);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const openRequest = indexedDB.open(this.databaseName, DB_VERSION);
+        openRequest.onupgradeneeded = () => {
+          const db = openRequest.result;
+          // Records are bigint-bearing objects; IndexedDB's structured clone stores them as-is
+          db.createObjectStore(RECORDS, { keyPath: 'id' });
+          db.createObjectStore(META);
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => reject(openRequest.error);
+      });
+    }
+    return this.db;
+  }
+}
+
+/**
+ * Persistent store for the current environment
+ */
+export function createBrowserHistoryStore(chainId: number, poolAddress: string): PoolHistoryStore {
+  if (!IndexedDBHistoryStore.isSupported()) return new MemoryHistoryStore();
+  return new IndexedDBHistoryStore(`orbital-history-${chainId}-${poolAddress.toLowerCase()}`);
+}
+
+function request<T>(req: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function complete(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
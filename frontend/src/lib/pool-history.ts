@@ -0,0 +1,186 @@
+/**
+ * Orbital AMM - Pool History
+ *
+ * Normalized pool history reconstructed from `LiquidityAdded`,
+ * `LiquidityRemoved`, `Swap` and `TickStatusChanged` logs, with typed queries
+ * for analytics, positions and history views.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import { TickStatus } from './orbital-math';
+
+interface RecordBase {
+  /** `${blockNumber}:${logIndex}`, unique per log */
+  id: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  /** Block timestamp in seconds */
+  timestamp: number;
+}
+
+export interface SwapRecord extends RecordBase {
+  type: 'swap';
+  trader: string;
+  tokenIn: number;
+  tokenOut: number;
+  amountIn: bigint;
+  amountOut: bigint;
+  fee: bigint;
+}
+
+export interface LiquidityRecord extends RecordBase {
+  type: 'liquidityAdded' | 'liquidityRemoved';
+  provider: string;
+  k: bigint;
+  amounts: bigint[];
+  lpShares: bigint;
+}
+
+export interface TickStatusRecord extends RecordBase {
+  type: 'tickStatusChanged';
+  k: bigint;
+  oldStatus: TickStatus;
+  newStatus: TickStatus;
+}
+
+export type PoolHistoryRecord = SwapRecord | LiquidityRecord | TickStatusRecord;
+
+export interface PoolHistorySnapshot {
+  /** Last block whose logs are fully contained in `records` (-1 when nothing is indexed) */
+  lastIndexedBlock: number;
+  records: PoolHistoryRecord[];
+}
+
+export interface TickLiquidityPoint {
+  blockNumber: number;
+  timestamp: number;
+  /** Total LP shares in the tick after this change */
+  lpShares: bigint;
+  /** Net token amounts deposited into the tick after this change (swaps excluded) */
+  amounts: bigint[];
+}
+
+export interface HistoryRange {
+  fromTimestamp?: number;
+  toTimestamp?: number;
+}
+
+/**
+ * In-memory history with typed queries. Records are kept in chain order.
+ */
+export class PoolHistory {
+  private readonly records: PoolHistoryRecord[] = [];
+  private readonly ids = new Set<string>();
+  lastIndexedBlock: number;
+
+  constructor(snapshot: PoolHistorySnapshot = { lastIndexedBlock: -1, records: [] }) {
+    this.lastIndexedBlock = snapshot.lastIndexedBlock;
+    this.add(snapshot.records);
+  }
+
+  /**
+   * Merge records, ignoring ones already present
+   * @returns Records that were new
+   */
+  add(records: readonly PoolHistoryRecord[]): PoolHistoryRecord[] {
+    const added = records.filter(record => !this.ids.has(record.id));
+    if (added.length === 0) return added;
+
+    added.forEach(record => this.ids.add(record.id));
+    this.records.push(...added);
+    this.records.sort(compareRecords);
+    return added;
+  }
+
+  clear(): void {
+    this.records.length = 0;
+    this.ids.clear();
+    this.lastIndexedBlock = -1;
+  }
+
+  snapshot(): PoolHistorySnapshot {
+    return { lastIndexedBlock: this.lastIndexedBlock, records: [...this.records] };
+  }
+
+  getRecords(range: HistoryRange = {}): PoolHistoryRecord[] {
+    return this.records.filter(record => inRange(record, range));
+  }
+
+  getSwaps(range: HistoryRange = {}): SwapRecord[] {
+    return this.getRecords(range).filter((record): record is SwapRecord => record.type === 'swap');
+  }
+
+  getSwapsByTrader(trader: string, range: HistoryRange = {}): SwapRecord[] {
+    const target = trader.toLowerCase();
+    return this.getSwaps(range).filter(swap => swap.trader.toLowerCase() === target);
+  }
+
+  getLiquidityChanges(filter: HistoryRange & { provider?: string; k?: bigint } = {}): LiquidityRecord[] {
+    const provider = filter.provider?.toLowerCase();
+    return this.getRecords(filter).filter(
+      (record): record is LiquidityRecord =>
+        (record.type === 'liquidityAdded' || record.type === 'liquidityRemoved') &&
+        (provider === undefined || record.provider.toLowerCase() === provider) &&
+        (filter.k === undefined || record.k === filter.k)
+    );
+  }
+
+  /**
+   * Every tick k a provider has ever deposited into, including ticks since removed
+   */
+  getTicksForProvider(provider: string): bigint[] {
+    const ticks = new Set<bigint>();
+    this.getLiquidityChanges({ provider }).forEach(change => ticks.add(change.k));
+    return Array.from(ticks);
+  }
+
+  /**
+   * LP shares and net deposits of a tick after each liquidity change
+   */
+  getTickLiquidityHistory(k: bigint): TickLiquidityPoint[] {
+    let lpShares = BigInt(0);
+    let amounts: bigint[] = [];
+
+    return this.getLiquidityChanges({ k }).map(change => {
+      const sign = change.type === 'liquidityAdded' ? BigInt(1) : BigInt(-1);
+      lpShares += sign * change.lpShares;
+      amounts = change.amounts.map((amount, i) => (amounts[i] ?? BigInt(0)) + sign * amount);
+      return { blockNumber: change.blockNumber, timestamp: change.timestamp, lpShares, amounts: [...amounts] };
+    });
+  }
+
+  getStatusTransitions(filter: HistoryRange & { k?: bigint } = {}): TickStatusRecord[] {
+    return this.getRecords(filter).filter(
+      (record): record is TickStatusRecord =>
+        record.type === 'tickStatusChanged' && (filter.k === undefined || record.k === filter.k)
+    );
+  }
+}
+
+/**
+ * JSON-safe encoding (bigints become decimal strings)
+ */
+export function serializeHistory(snapshot: PoolHistorySnapshot): string {
+  return JSON.stringify(snapshot, (_key, value) =>
+    typeof value === 'bigint' ? { $bigint: value.toString() } : value
+  );
+}
+
+export function deserializeHistory(json: string): PoolHistorySnapshot {
+  return JSON.parse(json, (_key, value) =>
+    value && typeof value === 'object' && typeof value.$bigint === 'string' ? BigInt(value.$bigint) : value
+  );
+}
+
+function compareRecords(a: PoolHistoryRecord, b: PoolHistoryRecord): number {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
+
+function inRange(record: PoolHistoryRecord, range: HistoryRange): boolean {
+  if (range.fromTimestamp !== undefined && record.timestamp < range.fromTimestamp) return false;
+  if (range.toTimestamp !== undefined && record.timestamp > range.toTimestamp) return false;
+  return true;
+}
@@ -0,0 +1,274 @@
+/**
+ * Orbital AMM - Pool Event Indexer
+ *
+ * Reconstructs pool history from contract logs. Backfills with `eth_getLogs`
+ * in block ranges from the deploy block (or the last persisted block), then
+ * follows new blocks, persisting each indexed range through a `PoolHistoryStore`.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import { ethers } from 'ethers';
+import { orbitalPoolAbi } from './orbital-abi';
+import { CONTRACTS, POOL_CONFIG, TOKENS } from './constants';
+import { getProvider, NETWORK, PROVIDER_MODE } from './ethers-provider';
+import { PoolHistory, type PoolHistoryRecord } from './pool-history';
+import { createBrowserHistoryStore, MemoryHistoryStore, type PoolHistoryStore } from './pool-history-store';
+
+export interface PoolIndexerOptions {
+  poolAddress?: string;
+  /**
+   * The pool's `TOKENS_COUNT`, which fixes the `uint256[N]` in its liquidity
+   * events' signatures; defaults to the registry's count for the primary pool
+   */
+  tokenCount?: number;
+  /**
+   * First block to scan when nothing has been persisted yet; without one the
+   * pool's deployment block is located on chain
+   */
+  fromBlock?: number;
+  /** Blocks per `eth_getLogs` request; halved automatically when the node rejects a range */
+  batchSize?: number;
+  store?: PoolHistoryStore;
+}
+
+export type PoolHistoryListener = (added: PoolHistoryRecord[], history: PoolHistory) => void;
+
+const INDEXED_EVENTS = ['LiquidityAdded', 'LiquidityRemoved', 'Swap', 'TickStatusChanged'];
+const DEFAULT_BATCH_SIZE = 2000;
+
+export class PoolIndexer {
+  readonly history = new PoolHistory();
+  readonly poolAddress: string;
+
+  private readonly poolInterface: ethers.Interface;
+  private fromBlock: number | null;
+  private readonly store: PoolHistoryStore;
+  private batchSize: number;
+  private loaded: Promise<void> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly listeners = new Set<PoolHistoryListener>();
+
+  constructor(private readonly provider: ethers.Provider, options: PoolIndexerOptions = {}) {
+    this.poolAddress = options.poolAddress ?? CONTRACTS.ORBITAL_POOL;
+    this.poolInterface = new ethers.Interface(
+      orbitalPoolAbi(options.tokenCount ?? TOKENS.length) as ethers.InterfaceAbi
+    );
+    this.fromBlock = options.fromBlock ?? POOL_CONFIG.deployBlock ?? null;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.store = options.store ?? new MemoryHistoryStore();
+  }
+
+  get lastIndexedBlock(): number {
+    return this.history.lastIndexedBlock;
+  }
+
+  /**
+   * Listen for newly indexed records
+   * @returns Function that removes the listener
+   */
+  onUpdate(listener: PoolHistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Index every block up to `toBlock` (default: the current head).
+   * Calls are serialized, so concurrent syncs never fetch the same range twice.
+   * @returns Records added by this sync
+   */
+  sync(toBlock?: number): Promise<PoolHistoryRecord[]> {
+    const run = this.queue.then(() => this.syncTo(toBlock));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Backfill, then index each new block as it arrives
+   * @returns Function that stops following the chain
+   */
+  start(onError: (error: unknown) => void = console.error): () => void {
+    const onBlock = (blockNumber: number) => {
+      this.sync(blockNumber).catch(onError);
+    };
+
+    this.sync().catch(onError);
+    this.provider.on('block', onBlock);
+    return () => {
+      this.provider.off('block', onBlock);
+    };
+  }
+
+  /**
+   * Drop persisted history and re-index from the start block on the next sync
+   */
+  reset(): Promise<void> {
+    const run = this.queue.then(async () => {
+      await this.store.clear();
+      this.history.clear();
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.load().then(snapshot => {
+        this.history.add(snapshot.records);
+        this.history.lastIndexedBlock = snapshot.lastIndexedBlock;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async syncTo(target?: number): Promise<PoolHistoryRecord[]> {
+    await this.load();
+    const head = target ?? (await this.provider.getBlockNumber());
+    const added: PoolHistoryRecord[] = [];
+
+    // Resuming from persisted history never needs the deploy block
+    if (this.fromBlock === null && this.history.lastIndexedBlock < 0) {
+      this.fromBlock = await this.locateDeployBlock(head);
+    }
+
+    let from = Math.max(this.history.lastIndexedBlock + 1, this.fromBlock ?? 0);
+    while (from <= head) {
+      const to = Math.min(from + this.batchSize - 1, head);
+      let logs: ethers.Log[];
+      try {
+        logs = await this.provider.getLogs({ address: this.poolAddress, fromBlock: from, toBlock: to });
+      } catch (error) {
+        if (this.batchSize === 1) throw error;
+        // Most RPCs cap the range or result size of eth_getLogs; retry with a smaller window
+        this.batchSize = Math.max(1, Math.floor(this.batchSize / 2));
+        continue;
+      }
+
+      const records = this.history.add(await this.decodeLogs(logs));
+      this.history.lastIndexedBlock = to;
+      await this.store.append(records, to);
+      added.push(...records);
+      this.notify(records);
+      from = to + 1;
+    }
+
+    return added;
+  }
+
+  /**
+   * First block at which the pool has code, found by bisection: a few dozen
+   * `eth_getCode` calls instead of scanning every block from genesis
+   */
+  private async locateDeployBlock(head: number): Promise<number> {
+    const hasCode = async (blockNumber: number) => (await this.provider.getCode(this.poolAddress, blockNumber)) !== '0x';
+    try {
+      if (!(await hasCode(head))) return head;
+
+      let low = 0;
+      let high = head;
+      while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        if (await hasCode(mid)) {
+          high = mid;
+        } else {
+          low = mid + 1;
+        }
+      }
+      return low;
+    } catch (error) {
+      // Nodes that prune old state cannot answer for past blocks
+      console.warn('Could not locate the pool deployment block; indexing from genesis:', error);
+      return 0;
+    }
+  }
+
+  private async decodeLogs(logs: readonly ethers.Log[]): Promise<PoolHistoryRecord[]> {
+    const timestamps = new Map<number, number>();
+    await Promise.all(
+      Array.from(new Set(logs.map(log => log.blockNumber))).map(async blockNumber => {
+        const block = await this.provider.getBlock(blockNumber);
+        timestamps.set(blockNumber, block?.timestamp ?? 0);
+      })
+    );
+
+    const records: PoolHistoryRecord[] = [];
+    for (const log of logs) {
+      const record = toHistoryRecord(this.poolInterface, log, timestamps.get(log.blockNumber) ?? 0);
+      if (record) records.push(record);
+    }
+    return records;
+  }
+
+  private notify(records: PoolHistoryRecord[]): void {
+    if (records.length === 0) return;
+    this.listeners.forEach(listener => listener(records, this.history));
+  }
+}
+
+function toHistoryRecord(poolInterface: ethers.Interface, log: ethers.Log, timestamp: number): PoolHistoryRecord | null {
+  const parsed = poolInterface.parseLog(log);
+  if (!parsed || !INDEXED_EVENTS.includes(parsed.name)) return null;
+
+  const base = {
+    id: `${log.blockNumber}:${log.index}`,
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    transactionHash: log.transactionHash,
+    timestamp,
+  };
+  const args = parsed.args;
+
+  switch (parsed.name) {
+    case 'Swap':
+      return {
+        ...base,
+        type: 'swap',
+        trader: args.trader,
+        tokenIn: Number(args.tokenIn),
+        tokenOut: Number(args.tokenOut),
+        amountIn: args.amountIn,
+        amountOut: args.amountOut,
+        fee: args.fee,
+      };
+    case 'LiquidityAdded':
+    case 'LiquidityRemoved':
+      return {
+        ...base,
+        type: parsed.name === 'LiquidityAdded' ? 'liquidityAdded' : 'liquidityRemoved',
+        provider: args.provider,
+        k: args.k,
+        amounts: Array.from(args.amounts as Iterable<bigint>),
+        lpShares: args.lpShares,
+      };
+    default:
+      return {
+        ...base,
+        type: 'tickStatusChanged',
+        k: args.k,
+        oldStatus: Number(args.oldStatus),
+        newStatus: Number(args.newStatus),
+      };
+  }
+}
+
+// App-wide indexer instance
+let indexer: PoolIndexer | null = null;
+
+/**
+ * Indexer for the configured pool, persisted in IndexedDB when available
+ */
+export function getPoolIndexer(): PoolIndexer {
+  if (!indexer) {
+    indexer = new PoolIndexer(getProvider(), {
+      // The mock chain restarts with every page load, so its history is never persisted
+      store:
+        PROVIDER_MODE === 'mock'
+          ? new MemoryHistoryStore()
+          : createBrowserHistoryStore(NETWORK.chainId, CONTRACTS.ORBITAL_POOL),
+    });
+  }
+  return indexer;
+}
@@ -0,0 +1,238 @@
+/**
+ * Orbital AMM - Pool Metrics
+ *
+ * Time-bucketed analytics series derived from indexed pool history: pair
+ * price, volume, fees, TVL, trade count, capital turnover and fee APY.
+ * Amounts are valued at $1 per token, as every pool asset is a USD stablecoin.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import { ethers } from 'ethers';
+import { TOKENS } from './constants';
+import type { PoolHistoryRecord } from './pool-history';
+
+export type MetricsTimeframe = '1H' | '4H' | '1D' | '1W' | '1M';
+
+export interface TimeframeBuckets {
+  /** Bucket width in seconds */
+  bucketSeconds: number;
+  bucketCount: number;
+}
+
+export const TIMEFRAME_BUCKETS: Record<MetricsTimeframe, TimeframeBuckets> = {
+  '1H': { bucketSeconds: 5 * 60, bucketCount: 12 },
+  '4H': { bucketSeconds: 15 * 60, bucketCount: 16 },
+  '1D': { bucketSeconds: 60 * 60, bucketCount: 24 },
+  '1W': { bucketSeconds: 6 * 60 * 60, bucketCount: 28 },
+  '1M': { bucketSeconds: 24 * 60 * 60, bucketCount: 30 },
+};
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+export interface PoolMetricsPoint {
+  /** Bucket start, unix seconds */
+  timestamp: number;
+  /** Volume traded in (USD) */
+  volume: number;
+  /** Swap fees charged (USD) */
+  fees: number;
+  /** Pool reserves at the end of the bucket (USD) */
+  tvl: number;
+  trades: number;
+  /** Capital turnover: volume / TVL over the bucket */
+  efficiency: number;
+  /** Bucket fees annualized against TVL, in percent */
+  apy: number;
+  /** Volume-weighted execution price of `pair[0]` in `pair[1]`, net of fees; carried forward when no pair trades occur */
+  price: number | null;
+}
+
+export interface PoolSeriesOptions extends TimeframeBuckets {
+  /** End of the series, unix seconds (default: now) */
+  now?: number;
+  /** Token indexes whose price is tracked (default: first two tokens) */
+  pair?: readonly [number, number];
+}
+
+export interface TokenMetrics {
+  token: number;
+  symbol: string;
+  /** Current reserves (USD) */
+  reserves: number;
+  /** Volume swapped in (USD) since the window start */
+  volume: number;
+  /** Fees paid in this token (USD) since the window start */
+  fees: number;
+  trades: number;
+}
+
+/**
+ * Convert a raw token amount to USD
+ */
+export function toUsd(token: number, amount: bigint): number {
+  return Number(ethers.formatUnits(amount, TOKENS[token]?.decimals ?? 18));
+}
+
+/**
+ * Build a bucketed series ending at `options.now` from records in chain order
+ */
+export function buildPoolSeries(records: readonly PoolHistoryRecord[], options: PoolSeriesOptions): PoolMetricsPoint[] {
+  const { bucketSeconds, bucketCount } = options;
+  const [base, quote] = options.pair ?? [0, 1];
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const start = Math.floor(now / bucketSeconds) * bucketSeconds - (bucketCount - 1) * bucketSeconds;
+
+  const reserves = new ReserveTracker();
+  let cursor = 0;
+  let lastPrice: number | null = null;
+
+  // Replay everything before the window to establish opening reserves and price
+  while (cursor < records.length && records[cursor].timestamp < start) {
+    reserves.apply(records[cursor]);
+    lastPrice = pairPrice(records[cursor], base, quote) ?? lastPrice;
+    cursor++;
+  }
+
+  const points: PoolMetricsPoint[] = [];
+  for (let i = 0; i < bucketCount; i++) {
+    const bucketStart = start + i * bucketSeconds;
+    const bucketEnd = i === bucketCount - 1 ? Infinity : bucketStart + bucketSeconds;
+    let volume = 0;
+    let fees = 0;
+    let trades = 0;
+    let priceWeight = 0;
+    let weightedPrice = 0;
+
+    while (cursor < records.length && records[cursor].timestamp < bucketEnd) {
+      const record = records[cursor++];
+      reserves.apply(record);
+      if (record.type !== 'swap') continue;
+
+      const usdIn = toUsd(record.tokenIn, record.amountIn);
+      volume += usdIn;
+      fees += toUsd(record.tokenIn, record.fee);
+      trades++;
+
+      const price = pairPrice(record, base, quote);
+      if (price !== null) {
+        weightedPrice += price * usdIn;
+        priceWeight += usdIn;
+      }
+    }
+
+    if (priceWeight > 0) lastPrice = weightedPrice / priceWeight;
+    const tvl = reserves.totalUsd();
+    points.push({
+      timestamp: bucketStart,
+      volume,
+      fees,
+      tvl,
+      trades,
+      efficiency: tvl > 0 ? volume / tvl : 0,
+      apy: tvl > 0 ? (fees / tvl) * (SECONDS_PER_YEAR / bucketSeconds) * 100 : 0,
+      price: lastPrice,
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Per-token reserves, plus volume and fees since `fromTimestamp`
+ */
+export function getTokenMetrics(records: readonly PoolHistoryRecord[], fromTimestamp: number): TokenMetrics[] {
+  const reserves = new ReserveTracker();
+  const metrics: TokenMetrics[] = TOKENS.map((token, index) => ({
+    token: index,
+    symbol: token.symbol,
+    reserves: 0,
+    volume: 0,
+    fees: 0,
+    trades: 0,
+  }));
+
+  for (const record of records) {
+    reserves.apply(record);
+    if (record.type !== 'swap' || record.timestamp < fromTimestamp) continue;
+    const entry = metrics[record.tokenIn];
+    if (!entry) continue;
+    entry.volume += toUsd(record.tokenIn, record.amountIn);
+    entry.fees += toUsd(record.tokenIn, record.fee);
+    entry.trades++;
+  }
+
+  metrics.forEach(entry => {
+    entry.reserves = reserves.usd(entry.token);
+  });
+  return metrics;
+}
+
+/**
+ * The `limit - 1` largest entries by `value`, followed by one entry built by
+ * `merge` from everything else, so per-token charts stay readable for large
+ * pools. Entries that already fit are returned as they are.
+ */
+export function groupSmallEntries<T>(
+  entries: readonly T[],
+  limit: number,
+  value: (entry: T) => number,
+  merge: (rest: T[]) => T
+): T[] {
+  if (entries.length <= limit) return [...entries];
+  const sorted = [...entries].sort((a, b) => value(b) - value(a));
+  return [...sorted.slice(0, limit - 1), merge(sorted.slice(limit - 1))];
+}
+
+/**
+ * Pool-wide reserves rebuilt from events, mirroring the contract's accounting:
+ * deposits and withdrawals move every token, swaps add `amountIn - fee` and
+ * remove `amountOut` (fees are credited to ticks, not reserves).
+ */
+class ReserveTracker {
+  private readonly reserves: bigint[] = TOKENS.map(() => BigInt(0));
+
+  apply(record: PoolHistoryRecord): void {
+    switch (record.type) {
+      case 'liquidityAdded':
+        record.amounts.forEach((amount, i) => this.adjust(i, amount));
+        break;
+      case 'liquidityRemoved':
+        record.amounts.forEach((amount, i) => this.adjust(i, -amount));
+        break;
+      case 'swap':
+        this.adjust(record.tokenIn, record.amountIn - record.fee);
+        this.adjust(record.tokenOut, -record.amountOut);
+        break;
+    }
+  }
+
+  usd(token: number): number {
+    return toUsd(token, this.reserves[token] ?? BigInt(0));
+  }
+
+  totalUsd(): number {
+    return this.reserves.reduce((sum, _reserve, i) => sum + this.usd(i), 0);
+  }
+
+  private adjust(token: number, delta: bigint): void {
+    if (token >= this.reserves.length) return;
+    const next = this.reserves[token] + delta;
+    this.reserves[token] = next > BigInt(0) ? next : BigInt(0);
+  }
+}
+
+/**
+ * Execution price of `base` in `quote` for a swap between the two, net of fees
+ */
+function pairPrice(record: PoolHistoryRecord, base: number, quote: number): number | null {
+  if (record.type !== 'swap') return null;
+  const netIn = toUsd(record.tokenIn, record.amountIn - record.fee);
+  const out = toUsd(record.tokenOut, record.amountOut);
+  if (netIn === 0 || out === 0) return null;
+
+  if (record.tokenIn === base && record.tokenOut === quote) return out / netIn;
+  if (record.tokenIn === quote && record.tokenOut === base) return netIn / out;
+  return null;
+}
@@ -0,0 +1,249 @@
+/**
+ * Orbital AMM - Live Pool State
+ *
+ * Keeps one snapshot of the pool (reserves, active ticks and their info, fee)
+ * current for every consumer. Pool events refresh it as soon as they arrive and
+ * new blocks refresh it periodically, so trades by other accounts show up
+ * without a reload. Blocks and events come over WebSocket when the chain has
+ * an endpoint for it, and from the HTTP provider's polling otherwise.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import { ethers } from 'ethers';
+import { createWebSocketProvider, getProvider } from './ethers-provider';
+import { advanceReadBlock, createEthersPoolClient } from './orbital-pool-client-ethers';
+import type { OrbitalTick } from './orbital-math';
+import type { OrbitalPoolClient, PoolState, TickInfo } from './orbital-pool-client';
+
+export interface PoolSnapshot extends PoolState {
+  /** Latest block seen when the snapshot was read */
+  blockNumber: number;
+  /** Info for each of `activeTicks`, in the same order */
+  tickInfo: readonly TickInfo[];
+}
+
+export type PoolSnapshotListener = (snapshot: PoolSnapshot) => void;
+
+export type PoolUpdateTransport = 'websocket' | 'polling';
+
+export interface PoolSubscriptionOptions {
+  /** Opens a WebSocket provider, or returns null to poll from the start */
+  connectWebSocket?: () => ethers.WebSocketProvider | null;
+  /** Least time between refreshes prompted by new blocks alone; pool events refresh immediately */
+  blockRefreshIntervalMs?: number;
+  /** A WebSocket that delivers no block for this long is dropped in favour of polling */
+  staleAfterMs?: number;
+  /** Called with each new block, before any refresh it prompts */
+  onBlock?: (blockNumber: number) => void;
+}
+
+/**
+ * The snapshot's active ticks in the shape `OrbitalMath` works with
+ */
+export function snapshotTicks(snapshot: PoolSnapshot): OrbitalTick[] {
+  return snapshot.activeTicks.map((k, index) => ({
+    k,
+    r: snapshot.tickInfo[index].r,
+    liquidity: snapshot.tickInfo[index].liquidity,
+    reserves: snapshot.tickInfo[index].reserves,
+    status: snapshot.tickInfo[index].status,
+  }));
+}
+
+const DEFAULT_BLOCK_REFRESH_INTERVAL_MS = 5000;
+const DEFAULT_STALE_AFTER_MS = 30000;
+
+export class PoolSubscription {
+  private snapshot: PoolSnapshot | null = null;
+  private snapshotKey = '';
+  private readonly listeners = new Set<PoolSnapshotListener>();
+  private latestBlock = 0;
+  private lastBlockAt = 0;
+  private lastRefreshAt = 0;
+  private refreshing: Promise<void> | null = null;
+  private queuedRefresh: Promise<void> | null = null;
+  private transport: PoolUpdateTransport | null = null;
+  private stopTransport: (() => void) | null = null;
+
+  private readonly connectWebSocket: () => ethers.WebSocketProvider | null;
+  private readonly blockRefreshIntervalMs: number;
+  private readonly staleAfterMs: number;
+  private readonly onBlock: (blockNumber: number) => void;
+
+  /**
+   * @param createClient Client the pool state is read through
+   * @param pollingProvider Source of blocks and events when no WebSocket is available
+   */
+  constructor(
+    private readonly createClient: () => OrbitalPoolClient,
+    private readonly pollingProvider: ethers.Provider,
+    options: PoolSubscriptionOptions = {}
+  ) {
+    this.connectWebSocket = options.connectWebSocket ?? (() => null);
+    this.blockRefreshIntervalMs = options.blockRefreshIntervalMs ?? DEFAULT_BLOCK_REFRESH_INTERVAL_MS;
+    this.staleAfterMs = options.staleAfterMs ?? DEFAULT_STALE_AFTER_MS;
+    this.onBlock = options.onBlock ?? (() => undefined);
+  }
+
+  /**
+   * Most recent pool state, or null before the first read completes
+   */
+  getSnapshot(): PoolSnapshot | null {
+    return this.snapshot;
+  }
+
+  /**
+   * How blocks and events currently arrive, or null while stopped
+   */
+  get updateTransport(): PoolUpdateTransport | null {
+    return this.transport;
+  }
+
+  /**
+   * Listen for pool state changes; a refresh that finds nothing changed is not reported
+   * @returns Function that removes the listener
+   */
+  onUpdate(listener: PoolSnapshotListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Read the current state, then follow new blocks and pool events
+   * @returns Function that stops following the chain
+   */
+  start(): () => void {
+    if (!this.transport) {
+      let socket: ethers.WebSocketProvider | null = null;
+      try {
+        socket = this.connectWebSocket();
+      } catch (error) {
+        console.warn('Could not open a WebSocket for live pool updates; polling instead:', error);
+      }
+      this.listen(socket ?? this.pollingProvider, socket ? 'websocket' : 'polling');
+      this.refresh().catch(error => console.error('Failed to load pool state:', error));
+    }
+
+    return () => {
+      this.stopTransport?.();
+      this.stopTransport = null;
+      this.transport = null;
+    };
+  }
+
+  /**
+   * Re-read the pool now, e.g. once the user's own transaction is mined.
+   * A call made while a read is in flight waits for one more read after it,
+   * since the in-flight one may predate the change that prompted the call.
+   */
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.read().finally(() => {
+        this.refreshing = null;
+      });
+      return this.refreshing;
+    }
+
+    if (!this.queuedRefresh) {
+      this.queuedRefresh = this.refreshing
+        .catch(() => undefined)
+        .then(() => {
+          this.queuedRefresh = null;
+          return this.refresh();
+        });
+    }
+    return this.queuedRefresh;
+  }
+
+  private async read(): Promise<void> {
+    this.lastRefreshAt = Date.now();
+    const blockNumber = this.latestBlock;
+    const client = this.createClient();
+
+    const state = await client.getPoolState();
+    const tickInfo = await Promise.all(state.activeTicks.map(k => client.getTickInfo(k)));
+    const snapshot: PoolSnapshot = { ...state, tickInfo, blockNumber };
+
+    const key = JSON.stringify({ ...snapshot, blockNumber: undefined }, (_, value) =>
+      typeof value === 'bigint' ? value.toString() : value
+    );
+    if (key === this.snapshotKey) return;
+
+    this.snapshot = snapshot;
+    this.snapshotKey = key;
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  private listen(provider: ethers.Provider, transport: PoolUpdateTransport): void {
+    const onBlock = (blockNumber: number) => this.handleBlock(blockNumber, false);
+    const onLog = (log: ethers.Log) => this.handleBlock(log.blockNumber, true);
+    // Every pool event (Swap, LiquidityAdded/Removed, TickStatusChanged) changes its state
+    const filter = { address: this.createClient().poolAddress };
+    const onSubscribeError = (error: unknown) =>
+      transport === 'websocket'
+        ? this.fallBackToPolling(`subscribing failed (${error instanceof Error ? error.message : error})`)
+        : console.error('Failed to follow pool updates:', error);
+
+    provider.on('block', onBlock).catch(onSubscribeError);
+    provider.on(filter, onLog).catch(onSubscribeError);
+
+    let watchdog: ReturnType<typeof setInterval> | null = null;
+    if (transport === 'websocket') {
+      const socket = provider as ethers.WebSocketProvider;
+      socket.websocket.onerror = () => this.fallBackToPolling('the connection failed');
+      // ethers does not surface a dropped connection, so a silent socket is treated as one
+      this.lastBlockAt = Date.now();
+      watchdog = setInterval(() => {
+        if (Date.now() - this.lastBlockAt > this.staleAfterMs) this.fallBackToPolling('no new blocks arrived');
+      }, this.staleAfterMs);
+    }
+
+    this.transport = transport;
+    this.stopTransport = () => {
+      if (watchdog) clearInterval(watchdog);
+      provider.off('block', onBlock);
+      provider.off(filter, onLog);
+      if (transport === 'websocket') (provider as ethers.WebSocketProvider).destroy();
+    };
+  }
+
+  private fallBackToPolling(reason: string): void {
+    if (this.transport !== 'websocket') return;
+    console.warn(`Live pool updates over WebSocket stopped: ${reason}. Polling instead.`);
+    this.stopTransport?.();
+    this.listen(this.pollingProvider, 'polling');
+  }
+
+  private handleBlock(blockNumber: number, poolEvent: boolean): void {
+    this.lastBlockAt = Date.now();
+    if (blockNumber > this.latestBlock) {
+      this.latestBlock = blockNumber;
+      this.onBlock(blockNumber);
+    }
+
+    if (poolEvent || Date.now() - this.lastRefreshAt >= this.blockRefreshIntervalMs) {
+      this.refresh().catch(error => console.error('Failed to refresh pool state:', error));
+    }
+  }
+}
+
+// App-wide subscription instance
+let subscription: PoolSubscription | null = null;
+
+/**
+ * Live state of the configured pool, read through the app's batched client
+ */
+export function getPoolSubscription(): PoolSubscription {
+  if (!subscription) {
+    subscription = new PoolSubscription(() => createEthersPoolClient(), getProvider(), {
+      connectWebSocket: createWebSocketProvider,
+      // The batched-read cache must not serve reads from before a block this subscription has already seen
+      onBlock: advanceReadBlock,
+    });
+  }
+  return subscription;
+}
@@ -0,0 +1,138 @@
+/**
+ * Orbital AMM - Portfolio
+ *
+ * LP positions of an account across every tick it has deposited into,
+ * including ticks no longer returned by `getActiveTicks`.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import { TickStatus } from './orbital-math';
+import type { OrbitalPoolClient, PoolTokenAmounts, TickInfo } from './orbital-pool-client';
+import { toUsd } from './pool-metrics';
+
+export interface PortfolioPosition {
+  k: bigint;
+  lpShares: bigint;
+  totalLpShares: bigint;
+  /** Fraction of the tick's LP shares held, in percent */
+  sharePercent: number;
+  /** Pro-rata share of the tick reserves */
+  reserves: bigint[];
+  /** Pro-rata share of the tick's accrued fee total */
+  accruedFees: bigint;
+  status: TickStatus;
+  /** Whether the tick is still in `getActiveTicks` */
+  isActive: boolean;
+  /** Value of the pro-rata reserves, stablecoins at $1 */
+  usdValue: number;
+}
+
+export interface PortfolioSummary {
+  positions: PortfolioPosition[];
+  totalUsdValue: number;
+  totalAccruedFeesUsd: number;
+}
+
+export interface RemovalQuote {
+  lpSharesToRemove: bigint;
+  /** Amounts the contract will return at current tick reserves */
+  amountsOut: PoolTokenAmounts;
+  /** `amountsOut` reduced by the slippage tolerance */
+  minAmountsOut: PoolTokenAmounts;
+}
+
+const SHARE_PRECISION = BigInt(1000000);
+const BPS = BigInt(10000);
+
+/**
+ * Load every position `owner` holds, checking active ticks plus `knownTicks`
+ * (typically the ticks the owner deposited into, from indexed history)
+ */
+export async function loadPortfolio(
+  client: OrbitalPoolClient,
+  owner: string,
+  knownTicks: readonly bigint[] = []
+): Promise<PortfolioSummary> {
+  const activeTicks = await client.getActiveTicks();
+  const active = new Set(activeTicks.map(k => k.toString()));
+  const candidates = Array.from(new Set([...activeTicks, ...knownTicks].map(k => k.toString()))).map(k => BigInt(k));
+
+  const positions = (
+    await Promise.all(
+      candidates.map(async k => {
+        const lpShares = await client.getUserLpShares(k, owner);
+        if (lpShares === BigInt(0)) return null;
+        const tick = await client.getTickInfo(k);
+        return toPosition(k, lpShares, tick.totalLpShares, tick.reserves, tick.accruedFees, tick.status, active.has(k.toString()));
+      })
+    )
+  )
+    .filter((position): position is PortfolioPosition => position !== null)
+    .sort((a, b) => b.usdValue - a.usdValue);
+
+  return {
+    positions,
+    totalUsdValue: positions.reduce((sum, position) => sum + position.usdValue, 0),
+    // Fees from every token are summed into one counter on-chain; all tokens share 18 decimals
+    totalAccruedFeesUsd: positions.reduce((sum, position) => sum + toUsd(0, position.accruedFees), 0),
+  };
+}
+
+function toPosition(
+  k: bigint,
+  lpShares: bigint,
+  totalLpShares: bigint,
+  tickReserves: PoolTokenAmounts,
+  tickFees: bigint,
+  status: TickStatus,
+  isActive: boolean
+): PortfolioPosition {
+  const proRata = (amount: bigint) => (totalLpShares > BigInt(0) ? (amount * lpShares) / totalLpShares : BigInt(0));
+  const reserves = tickReserves.map(proRata);
+
+  return {
+    k,
+    lpShares,
+    totalLpShares,
+    sharePercent:
+      totalLpShares > BigInt(0) ? Number((lpShares * BigInt(100) * SHARE_PRECISION) / totalLpShares) / Number(SHARE_PRECISION) : 0,
+    reserves,
+    accruedFees: proRata(tickFees),
+    status,
+    isActive,
+    usdValue: reserves.reduce((sum, amount, i) => sum + toUsd(i, amount), 0),
+  };
+}
+
+/**
+ * Shares corresponding to `percent` of a position; 100 returns every share so no dust is left
+ */
+export function sharesForPercent(lpShares: bigint, percent: number): bigint {
+  if (percent >= 100) return lpShares;
+  if (percent <= 0) return BigInt(0);
+  return (lpShares * BigInt(Math.round(percent * 100))) / BPS;
+}
+
+/**
+ * Preview a `removeLiquidity` call using the contract's formula,
+ * amounts[i] = lpSharesToRemove * tick.reserves[i] / tick.totalLpShares
+ * @param slippagePercent Tolerance applied to each amount, e.g. 0.5 for 0.5%
+ */
+export function quoteRemoval(
+  tick: Pick<TickInfo, 'reserves' | 'totalLpShares'>,
+  lpSharesToRemove: bigint,
+  slippagePercent: number
+): RemovalQuote {
+  const toleranceBps = BigInt(Math.round(Math.min(Math.max(slippagePercent, 0), 100) * 100));
+  const amountsOut = tick.reserves.map(reserve =>
+    tick.totalLpShares > BigInt(0) ? (lpSharesToRemove * reserve) / tick.totalLpShares : BigInt(0)
+  );
+
+  return {
+    lpSharesToRemove,
+    amountsOut,
+    minAmountsOut: amountsOut.map(amount => (amount * (BPS - toleranceBps)) / BPS),
+  };
+}
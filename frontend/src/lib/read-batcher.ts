@@ -0,0 +1,210 @@
+/**
+ * Orbital AMM - Batched Reads
+ *
+ * Coalesces contract reads issued within a few milliseconds of each other
+ * into one Multicall3 `tryBlockAndAggregate` call, or, where Multicall3 is not
+ * deployed, into parallel `eth_call`s that the provider sends as a single
+ * JSON-RPC batch. Identical reads share one request while in flight, and
+ * results are reused until the chain moves past the block they were read at.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import { ethers } from 'ethers';
+import { MULTICALL3_ABI } from './orbital-abi';
+import type { ContractAbi, ContractCall, OrbitalPoolTransport } from './orbital-pool-client';
+
+export interface ReadBatcherOptions {
+  /** Multicall3 deployment; without one each batch goes out as individual `eth_call`s */
+  multicallAddress?: string | null;
+  /** How long reads are collected before a batch is sent */
+  batchWindowMs?: number;
+  /** Most calls aggregated into one Multicall3 request */
+  maxBatchSize?: number;
+}
+
+interface QueuedRead {
+  call: ContractCall;
+  callData: string;
+  key: string;
+  result: Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+interface MulticallResult {
+  success: boolean;
+  returnData: string;
+}
+
+const DEFAULT_BATCH_WINDOW_MS = 10;
+const DEFAULT_MAX_BATCH_SIZE = 200;
+
+const interfaces = new WeakMap<ContractAbi, ethers.Interface>();
+
+export class ReadBatcher {
+  private multicallAddress: string | null;
+  private readonly batchWindowMs: number;
+  private readonly maxBatchSize: number;
+  /** Reads for the current block, in flight or settled, keyed by target and calldata */
+  private readonly cache = new Map<string, Promise<unknown>>();
+  private cacheBlock = BigInt(-1);
+  private queue: QueuedRead[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param readContract Unbatched read, normally a transport's `readContract`
+   */
+  constructor(
+    private readonly readContract: (call: ContractCall) => Promise<unknown>,
+    options: ReadBatcherOptions = {}
+  ) {
+    this.multicallAddress = options.multicallAddress ?? null;
+    this.batchWindowMs = options.batchWindowMs ?? DEFAULT_BATCH_WINDOW_MS;
+    this.maxBatchSize = options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+  }
+
+  /**
+   * Same result as `readContract(call)`, decoded the way ethers decodes a static call
+   */
+  read(call: ContractCall): Promise<unknown> {
+    let callData: string;
+    try {
+      callData = interfaceFor(call.abi).encodeFunctionData(call.functionName, call.args ?? []);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    const key = `${call.address.toLowerCase()}:${callData}`;
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    let settle: Pick<QueuedRead, 'resolve' | 'reject'> | null = null;
+    const result = new Promise<unknown>((resolve, reject) => {
+      settle = { resolve, reject };
+    });
+    this.queue.push({ call, callData, key, result, ...settle! });
+    this.cache.set(key, result);
+    // A failed read is sent again next time rather than served from the cache
+    result.catch(() => {
+      if (this.cache.get(key) === result) this.cache.delete(key);
+    });
+
+    if (!this.timer) this.timer = setTimeout(() => this.flush(), this.batchWindowMs);
+    return result;
+  }
+
+  /**
+   * Record that the chain has reached `blockNumber`, dropping reads cached for earlier blocks
+   */
+  advanceToBlock(blockNumber: bigint): void {
+    if (blockNumber > this.cacheBlock) {
+      this.cacheBlock = blockNumber;
+      this.cache.clear();
+    }
+  }
+
+  private flush(): void {
+    this.timer = null;
+    const queued = this.queue;
+    this.queue = [];
+
+    for (let i = 0; i < queued.length; i += this.maxBatchSize) {
+      this.dispatch(queued.slice(i, i + this.maxBatchSize));
+    }
+  }
+
+  private async dispatch(batch: QueuedRead[]): Promise<void> {
+    if (this.multicallAddress && batch.length > 1) {
+      try {
+        await this.dispatchMulticall(this.multicallAddress, batch);
+        return;
+      } catch (error) {
+        if (isMissingContract(error)) {
+          console.warn(`No Multicall3 at ${this.multicallAddress}; sending reads as JSON-RPC batches`);
+          this.multicallAddress = null;
+        }
+        // Otherwise a one-off failure: this batch is retried call by call below
+      }
+    }
+
+    // Sent in the same tick, so a batching provider (ethers' JsonRpcProvider) packs them into one request
+    for (const read of batch) {
+      this.readContract(read.call).then(read.resolve, read.reject);
+    }
+  }
+
+  private async dispatchMulticall(address: string, batch: QueuedRead[]): Promise<void> {
+    const [blockNumber, , results] = (await this.readContract({
+      address,
+      abi: MULTICALL3_ABI,
+      functionName: 'tryBlockAndAggregate',
+      args: [false, batch.map(read => ({ target: read.call.address, callData: read.callData }))],
+    })) as [bigint, string, MulticallResult[]];
+
+    // Results are as of `blockNumber`: they stay cached unless the chain is already past it
+    this.advanceToBlock(BigInt(blockNumber));
+    if (BigInt(blockNumber) === this.cacheBlock) {
+      batch.forEach(read => this.cache.set(read.key, read.result));
+    }
+
+    batch.forEach((read, i) => {
+      const { success, returnData } = results[i];
+      if (!success) {
+        // Carries the revert data so `decodeContractError` can explain it
+        read.reject(Object.assign(new Error(`${read.call.functionName} reverted`), { data: returnData }));
+        return;
+      }
+      try {
+        const decoded = interfaceFor(read.call.abi).decodeFunctionResult(read.call.functionName, returnData);
+        read.resolve(decoded.length === 1 ? decoded[0] : decoded);
+      } catch (error) {
+        read.reject(error);
+      }
+    });
+  }
+}
+
+/**
+ * `transport` with reads routed through `batcher`. Receipts and event logs
+ * advance the batcher's block, so reads made in response to them are fresh.
+ */
+export function withBatchedReads(transport: OrbitalPoolTransport, batcher: ReadBatcher): OrbitalPoolTransport {
+  return {
+    ...transport,
+
+    readContract: call => batcher.read(call),
+
+    async waitForTransaction(hash, submitted) {
+      const receipt = await transport.waitForTransaction(hash, submitted);
+      batcher.advanceToBlock(receipt.blockNumber);
+      return receipt;
+    },
+
+    watchContractEvents(address, abi, onLogs) {
+      return transport.watchContractEvents(address, abi, logs => {
+        logs.forEach(log => batcher.advanceToBlock(log.blockNumber));
+        onLogs(logs);
+      });
+    },
+  };
+}
+
+function interfaceFor(abi: ContractAbi): ethers.Interface {
+  let iface = interfaces.get(abi);
+  if (!iface) {
+    iface = new ethers.Interface(abi as ethers.InterfaceAbi);
+    interfaces.set(abi, iface);
+  }
+  return iface;
+}
+
+// Calling an address without code returns empty data: ethers reports BAD_DATA, viem a zero-data error
+function isMissingContract(error: unknown, depth = 0): boolean {
+  if (!error || typeof error !== 'object' || depth > 5) return false;
+  const candidate = error as { code?: unknown; value?: unknown; name?: unknown; cause?: unknown };
+  if (candidate.code === 'BAD_DATA' && candidate.value === '0x') return true;
+  if (candidate.name === 'ContractFunctionZeroDataError') return true;
+  return isMissingContract(candidate.cause, depth + 1);
+}
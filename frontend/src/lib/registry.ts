@@ -0,0 +1,263 @@
+/**
+ * Orbital AMM - Pool & Token Registry
+ *
+ * Typed view of the per-chain JSON registries in `./registries`: each
+ * network's RPC endpoints, explorer and native currency, the pools deployed
+ * on it, their tokens in contract index order, and the fee each pool is
+ * expected to charge. `verifyRegistry` cross-checks a registry against the
+ * deployed contracts. One chain is active per page load; see `getActiveChainId`.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import type { OrbitalPoolClient } from './orbital-pool-client';
+import somniaTestnet from './registries/50312.json';
+import anvilLocal from './registries/31337.json';
+
+export interface RegistryToken {
+  symbol: string;
+  name: string;
+  address: string;
+  decimals: number;
+  logo: string;
+  color: string;
+}
+
+export interface RegistryPool {
+  name: string;
+  address: string;
+  /**
+   * Block the pool was deployed in, where the history indexer starts; when
+   * left out, the indexer locates it on chain
+   */
+  deployBlock?: number;
+  /** Token symbols, in the pool's contract index order */
+  tokens: readonly string[];
+  swapFee: number;
+  feeDenominator: number;
+}
+
+export interface NativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface ChainRegistry {
+  chainId: number;
+  name: string;
+  testnet?: boolean;
+  /** JSON-RPC endpoints, in order of preference; later ones are fallbacks */
+  rpcUrls: readonly string[];
+  /** Block explorer base URL, without a trailing slash */
+  blockExplorer?: string;
+  nativeCurrency: NativeCurrency;
+  /** Multicall3 deployment used to batch reads; reads go out as JSON-RPC batches without one */
+  multicall3?: string;
+  /** WebSocket JSON-RPC endpoint for live pool updates; blocks and events are polled over HTTP without one */
+  wsUrl?: string;
+  tokens: readonly RegistryToken[];
+  pools: readonly RegistryPool[];
+}
+
+/**
+ * A registry token as held by a specific pool
+ */
+export interface PoolToken extends RegistryToken {
+  /** Contract token index */
+  index: number;
+}
+
+export interface RegistryMismatch {
+  pool: string;
+  field: string;
+  expected: string;
+  actual: string;
+}
+
+/**
+ * Thrown when a registry disagrees with the contracts it describes
+ */
+export class RegistryMismatchError extends Error {
+  constructor(readonly mismatches: readonly RegistryMismatch[]) {
+    super(
+      `Pool registry does not match the chain: ${mismatches
+        .map(m => `${m.pool} ${m.field} is ${m.actual}, expected ${m.expected}`)
+        .join('; ')}`
+    );
+    this.name = 'RegistryMismatchError';
+  }
+}
+
+export const DEFAULT_CHAIN_ID = 50312;
+
+// Chain the deployment's environment overrides apply to, and the starting chain
+const CONFIGURED_CHAIN_ID = Number(process.env.NEXT_PUBLIC_ORBITAL_CHAIN_ID) || DEFAULT_CHAIN_ID;
+
+const REGISTRIES: Record<number, ChainRegistry> = Object.fromEntries(
+  [somniaTestnet, anvilLocal].map(json => {
+    const registry = parseRegistry(json);
+    return [registry.chainId, registry.chainId === CONFIGURED_CHAIN_ID ? withEnvOverrides(registry) : registry];
+  })
+);
+
+const ACTIVE_CHAIN_KEY = 'orbital:chain';
+let activeChainId: number | null = null;
+
+/**
+ * Registry for `chainId`, by default the active chain's
+ */
+export function getRegistry(chainId: number = getActiveChainId()): ChainRegistry {
+  const registry = REGISTRIES[chainId];
+  if (!registry) throw new Error(`No pool registry for chain ${chainId}`);
+  return registry;
+}
+
+/**
+ * Every chain with a registry, i.e. every network the app can run on
+ */
+export function getRegistries(): ChainRegistry[] {
+  return Object.values(REGISTRIES);
+}
+
+export function hasRegistry(chainId: number): boolean {
+  return chainId in REGISTRIES;
+}
+
+/**
+ * Chain whose deployment this page load uses: the one last selected in this
+ * browser, else `NEXT_PUBLIC_ORBITAL_CHAIN_ID`, else the default. Tokens and
+ * pools are resolved once at startup, so this is fixed for the page's
+ * lifetime. Server rendering cannot see the browser's choice and uses the
+ * configured chain, so `Web3Provider` renders the app only in the browser.
+ */
+export function getActiveChainId(): number {
+  if (activeChainId === null) {
+    let stored: number | null = null;
+    try {
+      stored = typeof localStorage === 'undefined' ? null : Number(localStorage.getItem(ACTIVE_CHAIN_KEY));
+    } catch {
+      // Storage disabled: fall back to the configured chain
+    }
+    activeChainId = stored && hasRegistry(stored) ? stored : CONFIGURED_CHAIN_ID;
+  }
+  return activeChainId;
+}
+
+/**
+ * Choose the chain the next page load runs on
+ */
+export function setActiveChainId(chainId: number): void {
+  if (!hasRegistry(chainId)) throw new Error(`No pool registry for chain ${chainId}`);
+  try {
+    localStorage.setItem(ACTIVE_CHAIN_KEY, String(chainId));
+  } catch (error) {
+    console.warn('Could not save the network choice:', error);
+  }
+}
+
+/**
+ * `pool`'s tokens, resolved against the registry and ordered by contract index
+ */
+export function getPoolTokens(registry: ChainRegistry, pool: RegistryPool): PoolToken[] {
+  return pool.tokens.map((symbol, index) => ({ ...findToken(registry, symbol), index }));
+}
+
+/**
+ * Compare `pool` against the deployed contract's `TOKENS_COUNT`, `tokens(i)`
+ * and fee. Returns every mismatch found; an empty list means the pool checks out.
+ */
+export async function verifyPool(client: OrbitalPoolClient, registry: ChainRegistry, pool: RegistryPool): Promise<RegistryMismatch[]> {
+  const tokens = getPoolTokens(registry, pool);
+  const [tokenCount, swapFee, feeDenominator, addresses] = await Promise.all([
+    client.getTokenCount(),
+    client.getSwapFee(),
+    client.getFeeDenominator(),
+    Promise.all(tokens.map(token => client.getTokenAddress(token.index))),
+  ]);
+
+  const mismatches: RegistryMismatch[] = [];
+  const compare = (field: string, expected: string, actual: string) => {
+    if (expected.toLowerCase() !== actual.toLowerCase()) {
+      mismatches.push({ pool: pool.name, field, expected, actual });
+    }
+  };
+
+  compare('TOKENS_COUNT', String(tokens.length), tokenCount.toString());
+  compare('swapFee', String(pool.swapFee), swapFee.toString());
+  compare('FEE_DENOMINATOR', String(pool.feeDenominator), feeDenominator.toString());
+  tokens.forEach((token, i) => compare(`tokens(${i}) (${token.symbol})`, token.address, addresses[i]));
+
+  return mismatches;
+}
+
+/**
+ * Verify every pool in `registry`, throwing `RegistryMismatchError` on any mismatch
+ */
+export async function verifyRegistry(
+  registry: ChainRegistry,
+  clientFor: (poolAddress: string) => OrbitalPoolClient
+): Promise<void> {
+  const results = await Promise.all(registry.pools.map(pool => verifyPool(clientFor(pool.address), registry, pool)));
+  const mismatches = results.flat();
+  if (mismatches.length > 0) throw new RegistryMismatchError(mismatches);
+}
+
+/**
+ * Validate the shape of a JSON registry; pools may only reference listed tokens
+ */
+function parseRegistry(json: ChainRegistry): ChainRegistry {
+  if (json.rpcUrls.length === 0) throw new Error(`Registry for chain ${json.chainId} lists no RPC endpoints`);
+
+  const symbols = new Set<string>();
+  for (const token of json.tokens) {
+    if (symbols.has(token.symbol)) throw new Error(`Registry for chain ${json.chainId} lists ${token.symbol} twice`);
+    symbols.add(token.symbol);
+  }
+
+  for (const pool of json.pools) {
+    if (pool.tokens.length < 2) throw new Error(`Pool ${pool.name} needs at least two tokens`);
+    for (const symbol of pool.tokens) findToken(json, symbol);
+    if (pool.feeDenominator <= 0 || pool.swapFee < 0 || pool.swapFee >= pool.feeDenominator) {
+      throw new Error(`Pool ${pool.name} has an invalid fee of ${pool.swapFee}/${pool.feeDenominator}`);
+    }
+  }
+
+  return json;
+}
+
+// Deployment-specific overrides for the chain's endpoints and primary pool
+function withEnvOverrides(registry: ChainRegistry): ChainRegistry {
+  const [primary, ...rest] = registry.pools;
+  const wsUrl = process.env.NEXT_PUBLIC_ORBITAL_WS_URL || registry.wsUrl;
+  // Comma-separated endpoints, tried before the registry's own
+  const extraRpcUrls = (process.env.NEXT_PUBLIC_ORBITAL_RPC_URLS || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+  const rpcUrls = [...extraRpcUrls, ...registry.rpcUrls.filter(url => !extraRpcUrls.includes(url))];
+  if (!primary) return { ...registry, wsUrl, rpcUrls };
+
+  return {
+    ...registry,
+    wsUrl,
+    rpcUrls,
+    pools: [
+      {
+        ...primary,
+        address: process.env.NEXT_PUBLIC_ORBITAL_POOL_ADDRESS || primary.address,
+        deployBlock: process.env.NEXT_PUBLIC_ORBITAL_POOL_DEPLOY_BLOCK
+          ? Number(process.env.NEXT_PUBLIC_ORBITAL_POOL_DEPLOY_BLOCK)
+          : primary.deployBlock,
+      },
+      ...rest,
+    ],
+  };
+}
+
+function findToken(registry: ChainRegistry, symbol: string): RegistryToken {
+  const token = registry.tokens.find(candidate => candidate.symbol === symbol);
+  if (!token) throw new Error(`Token ${symbol} is not in the registry for chain ${registry.chainId}`);
+  return token;
+}
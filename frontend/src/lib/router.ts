@@ -0,0 +1,239 @@
+/**
+ * Orbital AMM - Router
+ *
+ * Multi-hop route finding across Orbital pools. Paths of up to `maxHops`
+ * swaps are enumerated over every pool holding the tokens involved, quoted
+ * with `OrbitalMath` against each pool's tick state, and ranked by output net
+ * of fees and estimated gas.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import { OrbitalMath, type OrbitalTick } from './orbital-math';
+import type { OrbitalPoolClient } from './orbital-pool-client';
+
+/**
+ * A pool as the router sees it: its token list (by contract index) and tick state
+ */
+export interface RoutablePool {
+  address: string;
+  name: string;
+  /** Token addresses, in the pool's contract index order */
+  tokens: readonly string[];
+  ticks: readonly OrbitalTick[];
+  swapFee: bigint;
+}
+
+export interface RouteHop {
+  pool: string;
+  poolName: string;
+  tokenIn: string;
+  tokenOut: string;
+  /** Contract indexes within `pool` */
+  tokenInIndex: number;
+  tokenOutIndex: number;
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+export interface SwapRoute {
+  /** Token addresses from input to output */
+  path: string[];
+  hops: RouteHop[];
+  amountIn: bigint;
+  amountOut: bigint;
+  gasEstimate: bigint;
+  /** Estimated gas cost, in output token units */
+  gasCost: bigint;
+  /** `amountOut - gasCost`, the figure routes are ranked by */
+  netAmountOut: bigint;
+  /** Shortfall of the route's execution price against the product of hop spot prices, in percent */
+  priceImpact: number;
+}
+
+/**
+ * A hop as submitted: spends what the previous hop is guaranteed to return
+ */
+export interface RouteExecutionStep extends RouteHop {
+  minAmountOut: bigint;
+}
+
+export interface RouterOptions {
+  maxHops?: number;
+  gasPerHop?: bigint;
+  /** Gas price in wei; gas is ignored when unknown */
+  gasPrice?: bigint | null;
+  /** Output tokens per whole native token, used to value gas (both 18 decimals) */
+  nativeTokenPrice?: number;
+}
+
+export const MAX_ROUTE_HOPS = 3;
+
+/** Gas used by one `orbitalPool.swap`, including the token transfers */
+export const SWAP_GAS_PER_HOP = BigInt(250000);
+
+interface RouteLeg {
+  pool: RoutablePool;
+  tokenInIndex: number;
+  tokenOutIndex: number;
+}
+
+const PRICE_SCALE = 1000000;
+
+/**
+ * Snapshot one pool's tick state for routing
+ */
+export async function loadRoutablePool(
+  client: OrbitalPoolClient,
+  name: string,
+  tokens: readonly string[]
+): Promise<RoutablePool> {
+  const [ticks, swapFee] = await Promise.all([client.getPoolTicks(), client.getSwapFee()]);
+  return { address: client.poolAddress, name, tokens, ticks, swapFee };
+}
+
+/**
+ * Every quotable route from `tokenIn` to `tokenOut`, best net output first
+ */
+export function findRoutes(
+  pools: readonly RoutablePool[],
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  options: RouterOptions = {}
+): SwapRoute[] {
+  return enumeratePaths(pools, tokenIn, tokenOut, options.maxHops ?? MAX_ROUTE_HOPS)
+    .map(legs => quoteRoute(legs, amountIn, options))
+    .filter((route): route is SwapRoute => route !== null)
+    .sort((a, b) => {
+      if (a.netAmountOut !== b.netAmountOut) return a.netAmountOut > b.netAmountOut ? -1 : 1;
+      return a.hops.length - b.hops.length;
+    });
+}
+
+/**
+ * The route with the highest output net of gas, or null if the tokens are not connected
+ */
+export function findBestRoute(
+  pools: readonly RoutablePool[],
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  options: RouterOptions = {}
+): SwapRoute | null {
+  return findRoutes(pools, tokenIn, tokenOut, amountIn, options)[0] ?? null;
+}
+
+/**
+ * Per-hop amounts for executing `route` as one swap per hop. Each hop after
+ * the first spends the previous hop's minimum output, so it never needs more
+ * than the swaps before it actually delivered.
+ */
+export function planRouteExecution(route: SwapRoute, slippagePercent: number): RouteExecutionStep[] {
+  const keepBps = BigInt(10000 - Math.round(slippagePercent * 100));
+  let amountIn = route.amountIn;
+
+  return route.hops.map(hop => {
+    const expectedOut = hop.amountIn > BigInt(0) ? (hop.amountOut * amountIn) / hop.amountIn : BigInt(0);
+    const step = { ...hop, amountIn, minAmountOut: (expectedOut * keepBps) / BigInt(10000) };
+    amountIn = step.minAmountOut;
+    return step;
+  });
+}
+
+/**
+ * Depth-first enumeration of simple paths: no token is revisited and no pool is used twice
+ */
+function enumeratePaths(
+  pools: readonly RoutablePool[],
+  tokenIn: string,
+  tokenOut: string,
+  maxHops: number
+): RouteLeg[][] {
+  const target = tokenOut.toLowerCase();
+  const paths: RouteLeg[][] = [];
+
+  const visit = (token: string, legs: RouteLeg[], visitedTokens: Set<string>) => {
+    if (legs.length >= maxHops) return;
+
+    for (const pool of pools) {
+      if (legs.some(leg => leg.pool === pool)) continue;
+      const tokenInIndex = indexOfToken(pool, token);
+      if (tokenInIndex < 0) continue;
+
+      pool.tokens.forEach((next, tokenOutIndex) => {
+        const nextToken = next.toLowerCase();
+        if (tokenOutIndex === tokenInIndex || visitedTokens.has(nextToken)) return;
+
+        const path = [...legs, { pool, tokenInIndex, tokenOutIndex }];
+        if (nextToken === target) {
+          paths.push(path);
+        } else {
+          visit(nextToken, path, new Set(visitedTokens).add(nextToken));
+        }
+      });
+    }
+  };
+
+  const start = tokenIn.toLowerCase();
+  if (start !== target) visit(start, [], new Set([start]));
+  return paths;
+}
+
+function quoteRoute(legs: RouteLeg[], amountIn: bigint, options: RouterOptions): SwapRoute | null {
+  const hops: RouteHop[] = [];
+  let amount = amountIn;
+  let spotProduct = 1;
+  let feeFactor = 1;
+
+  for (const { pool, tokenInIndex, tokenOutIndex } of legs) {
+    let amountOut: bigint;
+    try {
+      amountOut = OrbitalMath.quoteSwap(pool.ticks, tokenInIndex, tokenOutIndex, amount, pool.swapFee);
+    } catch {
+      return null;
+    }
+    if (amountOut <= BigInt(0)) return null;
+
+    const reserves = OrbitalMath.getTotalReserves(pool.ticks, pool.tokens.length);
+    spotProduct *= OrbitalMath.spotPrice(reserves, tokenInIndex, tokenOutIndex, pool.ticks);
+    feeFactor *= 1 - Number(pool.swapFee) / Number(OrbitalMath.FEE_DENOMINATOR);
+
+    hops.push({
+      pool: pool.address,
+      poolName: pool.name,
+      tokenIn: pool.tokens[tokenInIndex],
+      tokenOut: pool.tokens[tokenOutIndex],
+      tokenInIndex,
+      tokenOutIndex,
+      amountIn: amount,
+      amountOut,
+    });
+    amount = amountOut;
+  }
+
+  const gasEstimate = (options.gasPerHop ?? SWAP_GAS_PER_HOP) * BigInt(hops.length);
+  const gasCost =
+    options.gasPrice && options.nativeTokenPrice
+      ? (gasEstimate * options.gasPrice * BigInt(Math.round(options.nativeTokenPrice * PRICE_SCALE))) / BigInt(PRICE_SCALE)
+      : BigInt(0);
+
+  // Execution price net of fees, so impact reflects the curves alone
+  const executionPrice = Number(amount) / Number(amountIn) / feeFactor;
+
+  return {
+    path: [hops[0].tokenIn, ...hops.map(hop => hop.tokenOut)],
+    hops,
+    amountIn,
+    amountOut: amount,
+    gasEstimate,
+    gasCost,
+    netAmountOut: amount - gasCost,
+    priceImpact: spotProduct > 0 ? Math.max(0, ((spotProduct - executionPrice) / spotProduct) * 100) : 0,
+  };
+}
+
+function indexOfToken(pool: RoutablePool, token: string): number {
+  return pool.tokens.findIndex(address => address.toLowerCase() === token);
+}
@@ -0,0 +1,326 @@
+/**
+ * Orbital AMM - Transaction Manager
+ *
+ * Runs wallet actions as ordered flows of transactions (token approvals
+ * followed by `addLiquidity`, one swap per route hop) and tracks each one
+ * through pending-signature → submitted → confirmed / failed / replaced.
+ * Flows are persisted, so transactions still pending when the page closes are
+ * followed to completion on the next load, and speed-ups or cancels made in
+ * the wallet are recognised instead of leaving a flow waiting forever.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+import { NETWORK, PROVIDER_MODE } from './ethers-provider';
+import { createEthersPoolClient } from './orbital-pool-client-ethers';
+import { decodeContractError, TransactionReplacedError } from './contract-errors';
+import type { OrbitalPoolClient, SubmittedTransaction, TransactionReplacement } from './orbital-pool-client';
+
+export type TransactionStatus =
+  | 'queued'
+  | 'skipped'
+  | 'pending-signature'
+  | 'submitted'
+  | 'confirmed'
+  | 'failed'
+  | 'replaced';
+
+export type TransactionFlowStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * One transaction of a flow, as passed to `TransactionManager.run`
+ */
+export interface TransactionStep {
+  label: string;
+  /** Resolves true when the step is unnecessary, e.g. an allowance that already covers the amount */
+  skip?: () => Promise<boolean>;
+  /** Asks the wallet to sign and send the transaction; resolves with its hash */
+  send: () => Promise<string>;
+}
+
+export interface TrackedTransaction {
+  label: string;
+  status: TransactionStatus;
+  hash: string | null;
+  /** Sender and nonce, kept so replacements are still detected after a reload */
+  submitted: SubmittedTransaction | null;
+  /** Wallet speed-up or cancel that took this transaction's place */
+  replacement: TransactionReplacement | null;
+  blockNumber: bigint | null;
+  error: string | null;
+}
+
+export interface TransactionFlow {
+  id: string;
+  label: string;
+  /** Account that started the flow */
+  account: string | null;
+  status: TransactionFlowStatus;
+  createdAt: number;
+  steps: TrackedTransaction[];
+}
+
+export type TransactionFlowListener = (flows: readonly TransactionFlow[]) => void;
+
+export interface TransactionStore {
+  load(): TransactionFlow[];
+  save(flows: readonly TransactionFlow[]): void;
+}
+
+// Finished flows kept for display, newest first; running flows are never dropped
+const MAX_FINISHED_FLOWS = 20;
+const INTERRUPTED = 'Interrupted by a page reload before this step was sent';
+
+/**
+ * Non-persistent store, used during SSR, on the mock chain and when localStorage is unavailable
+ */
+export class MemoryTransactionStore implements TransactionStore {
+  private flows: TransactionFlow[] = [];
+
+  load(): TransactionFlow[] {
+    return [...this.flows];
+  }
+
+  save(flows: readonly TransactionFlow[]): void {
+    this.flows = [...flows];
+  }
+}
+
+/**
+ * localStorage store; bigints are tagged so they survive the JSON round trip
+ */
+export class LocalStorageTransactionStore implements TransactionStore {
+  constructor(private readonly key: string) {}
+
+  static isSupported(): boolean {
+    return typeof localStorage !== 'undefined';
+  }
+
+  load(): TransactionFlow[] {
+    try {
+      const raw = localStorage.getItem(this.key);
+      if (!raw) return [];
+      return JSON.parse(raw, (_, value) =>
+        value && typeof value.$bigint === 'string' ? BigInt(value.$bigint) : value
+      ) as TransactionFlow[];
+    } catch (error) {
+      console.error('Failed to load stored transactions:', error);
+      return [];
+    }
+  }
+
+  save(flows: readonly TransactionFlow[]): void {
+    localStorage.setItem(
+      this.key,
+      JSON.stringify(flows, (_, value) => (typeof value === 'bigint' ? { $bigint: value.toString() } : value))
+    );
+  }
+}
+
+export class TransactionManager {
+  private flows: TransactionFlow[];
+  private readonly listeners = new Set<TransactionFlowListener>();
+  private resumed = false;
+
+  /**
+   * @param createClient Client used to look up and wait for sent transactions
+   */
+  constructor(
+    private readonly createClient: () => OrbitalPoolClient,
+    private readonly store: TransactionStore = new MemoryTransactionStore()
+  ) {
+    this.flows = store.load();
+  }
+
+  /**
+   * Every tracked flow, newest first
+   */
+  getFlows(): readonly TransactionFlow[] {
+    return this.flows;
+  }
+
+  /**
+   * Listen for flow and step changes
+   * @returns Function that removes the listener
+   */
+  onUpdate(listener: TransactionFlowListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Run `steps` in order, sending each only once the previous one is confirmed.
+   * Rejects with the first failure, leaving the remaining steps queued.
+   */
+  async run(label: string, steps: readonly TransactionStep[]): Promise<TransactionFlow> {
+    const flow: TransactionFlow = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      label,
+      account: this.createClient().account,
+      status: 'running',
+      createdAt: Date.now(),
+      steps: steps.map(step => ({
+        label: step.label,
+        status: 'queued',
+        hash: null,
+        submitted: null,
+        replacement: null,
+        blockNumber: null,
+        error: null,
+      })),
+    };
+    this.flows = [flow, ...this.flows];
+    this.commit();
+
+    let index = 0;
+    try {
+      for (; index < steps.length; index++) {
+        const step = steps[index];
+        if (step.skip && (await step.skip())) {
+          this.updateStep(flow.id, index, { status: 'skipped' });
+          continue;
+        }
+
+        this.updateStep(flow.id, index, { status: 'pending-signature' });
+        const hash = await step.send();
+        this.updateStep(flow.id, index, { status: 'submitted', hash });
+        await this.track(flow.id, index);
+      }
+      this.updateFlow(flow.id, 'completed');
+    } catch (error) {
+      this.fail(flow.id, index, error);
+      throw error;
+    }
+
+    return this.getFlow(flow.id) ?? flow;
+  }
+
+  /**
+   * Pick up flows left running by a previous page load. Submitted
+   * transactions are followed to completion; a step that was never sent
+   * cannot be resumed and fails its flow.
+   */
+  resume(): void {
+    if (this.resumed) return;
+    this.resumed = true;
+
+    for (const flow of this.flows) {
+      if (flow.status === 'running') {
+        this.resumeFlow(flow.id).catch(error => console.error('Failed to resume transaction:', error));
+      }
+    }
+  }
+
+  /**
+   * Remove a finished flow
+   */
+  dismiss(id: string): void {
+    this.flows = this.flows.filter(flow => flow.id !== id || flow.status === 'running');
+    this.commit();
+  }
+
+  private async resumeFlow(id: string): Promise<void> {
+    let index = this.unfinishedStep(id);
+    try {
+      if (index !== -1 && this.getFlow(id)?.steps[index].status === 'submitted') {
+        await this.track(id, index);
+        index = this.unfinishedStep(id);
+      }
+      if (index !== -1) throw new Error(INTERRUPTED);
+      this.updateFlow(id, 'completed');
+    } catch (error) {
+      this.fail(id, index, error);
+    }
+  }
+
+  // Wait for a submitted step; throws when it reverts or the wallet cancels or replaces it
+  private async track(id: string, index: number): Promise<void> {
+    const step = this.getFlow(id)?.steps[index];
+    if (!step?.hash) throw new Error(`Step ${index} of ${id} has not been sent`);
+
+    const client = this.createClient();
+    let submitted = step.submitted;
+    if (!submitted) {
+      // Unknown to the node yet means replacements cannot be detected, but the receipt still arrives
+      submitted = await client.getSubmittedTransaction(step.hash);
+      if (submitted) this.updateStep(id, index, { submitted });
+    }
+
+    const receipt = await client.waitForTransaction(step.hash, submitted ?? undefined);
+    const replacement = receipt.replacement ?? null;
+
+    // A speed-up runs the same call, so the step still succeeded
+    if (replacement && replacement.reason !== 'repriced') {
+      this.updateStep(id, index, { status: 'replaced', replacement, blockNumber: receipt.blockNumber });
+      throw new TransactionReplacedError(step.hash, { hash: replacement.hash, reason: replacement.reason });
+    }
+    this.updateStep(id, index, { status: 'confirmed', replacement, blockNumber: receipt.blockNumber });
+  }
+
+  private fail(id: string, index: number, error: unknown): void {
+    const step = this.getFlow(id)?.steps[index];
+    if (step) {
+      const details = decodeContractError(error);
+      this.updateStep(id, index, {
+        status: step.status === 'replaced' ? 'replaced' : 'failed',
+        error: `${details.title}: ${details.explanation}`,
+      });
+    }
+    this.updateFlow(id, 'failed');
+  }
+
+  private unfinishedStep(id: string): number {
+    return this.getFlow(id)?.steps.findIndex(step => step.status !== 'confirmed' && step.status !== 'skipped') ?? -1;
+  }
+
+  private getFlow(id: string): TransactionFlow | undefined {
+    return this.flows.find(flow => flow.id === id);
+  }
+
+  private updateFlow(id: string, status: TransactionFlowStatus): void {
+    this.flows = this.flows.map(flow => (flow.id === id ? { ...flow, status } : flow));
+    this.commit();
+  }
+
+  private updateStep(id: string, index: number, patch: Partial<TrackedTransaction>): void {
+    this.flows = this.flows.map(flow =>
+      flow.id === id
+        ? { ...flow, steps: flow.steps.map((step, i) => (i === index ? { ...step, ...patch } : step)) }
+        : flow
+    );
+    this.commit();
+  }
+
+  private commit(): void {
+    let finished = 0;
+    this.flows = this.flows.filter(flow => flow.status === 'running' || ++finished <= MAX_FINISHED_FLOWS);
+
+    try {
+      this.store.save(this.flows);
+    } catch (error) {
+      console.error('Failed to persist transactions:', error);
+    }
+    this.listeners.forEach(listener => listener(this.flows));
+  }
+}
+
+let manager: TransactionManager | null = null;
+
+/**
+ * Manager for the app's wallet transactions, persisted in localStorage when available
+ */
+export function getTransactionManager(): TransactionManager {
+  if (!manager) {
+    manager = new TransactionManager(
+      () => createEthersPoolClient(),
+      // The mock chain restarts with every page load, so its transactions are never persisted
+      PROVIDER_MODE === 'mock' || !LocalStorageTransactionStore.isSupported()
+        ? new MemoryTransactionStore()
+        : new LocalStorageTransactionStore(`orbital-transactions-${NETWORK.chainId}`)
+    );
+  }
+  return manager;
+}
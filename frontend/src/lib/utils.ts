@@ -35,20 +35,6 @@ export function truncateAddress(address: string, chars: number = 4): string {
   return `${address.slice(0, chars + 2)}...${address.slice(-chars)}`
 }
 
-export function calculatePriceImpact(
-  inputAmount: number,
-  outputAmount: number,
-  inputReserve: number,
-  outputReserve: number
-): number {
-  if (!inputAmount || !outputAmount || !inputReserve || !outputReserve) return 0
-  
-  const expectedOutput = (inputAmount * outputReserve) / (inputReserve + inputAmount)
-  const priceImpact = ((expectedOutput - outputAmount) / expectedOutput) * 100
-  
-  return Math.max(0, priceImpact)
-}
-
 export function calculateSlippage(
   expectedAmount: number,
   actualAmount: number
@@ -0,0 +1,151 @@
+/**
+ * Orbital AMM - Wallet Discovery
+ *
+ * Finds the browser's injected wallets through EIP-6963 provider
+ * announcements, so several installed wallets can coexist instead of racing
+ * for `window.ethereum`. A wallet that only injects `window.ethereum` is still
+ * offered, as a generic browser wallet. The user's choice is remembered so the
+ * app can reconnect to the same wallet after a reload.
+ *
+ * @author Orbital Protocol Team
+ * @version 1.0.0
+ */
+
+/**
+ * EIP-1193 provider, as injected by browser wallets
+ */
+export interface EIP1193Provider {
+  request(args: { method: string; params?: unknown[] | object }): Promise<any>;
+  on?(event: string, listener: (...args: any[]) => void): void;
+  removeListener?(event: string, listener: (...args: any[]) => void): void;
+}
+
+export interface EIP6963ProviderInfo {
+  /** Identifies the announcement; changes with every page load */
+  uuid: string;
+  name: string;
+  /** Data URI of the wallet's icon */
+  icon: string;
+  /** Reverse-DNS id of the wallet, e.g. `io.metamask`; stable across loads */
+  rdns: string;
+}
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo;
+  provider: EIP1193Provider;
+}
+
+export type WalletsListener = (wallets: readonly EIP6963ProviderDetail[]) => void;
+
+// Id under which a wallet found only through `window.ethereum` is offered and remembered
+export const LEGACY_INJECTED_RDNS = 'injected';
+
+const ANNOUNCE_EVENT = 'eip6963:announceProvider';
+const REQUEST_EVENT = 'eip6963:requestProvider';
+const PREFERRED_WALLET_KEY = 'orbital:wallet';
+
+// Wallets announced so far, by rdns; a re-announcement replaces the earlier one
+const announced = new Map<string, EIP6963ProviderDetail>();
+const listeners = new Set<WalletsListener>();
+let discovering = false;
+
+/**
+ * Listen for wallet announcements and ask installed wallets to announce
+ * themselves. Safe to call repeatedly; does nothing outside the browser.
+ */
+export function startWalletDiscovery(): void {
+  if (discovering || typeof window === 'undefined') return;
+  discovering = true;
+
+  window.addEventListener(ANNOUNCE_EVENT, event => {
+    const detail = (event as CustomEvent<EIP6963ProviderDetail>).detail;
+    if (!detail?.info?.rdns || !detail.provider) return;
+
+    announced.set(detail.info.rdns, detail);
+    const wallets = getDiscoveredWallets();
+    listeners.forEach(listener => listener(wallets));
+  });
+  window.dispatchEvent(new Event(REQUEST_EVENT));
+}
+
+/**
+ * Wallets found so far: every announced wallet, then `window.ethereum` if no
+ * announced wallet provides it
+ */
+export function getDiscoveredWallets(): EIP6963ProviderDetail[] {
+  const wallets = Array.from(announced.values());
+  const legacy = typeof window === 'undefined' ? undefined : (window as { ethereum?: EIP1193Provider }).ethereum;
+
+  if (legacy && !wallets.some(wallet => wallet.provider === legacy)) {
+    wallets.push({
+      info: { uuid: LEGACY_INJECTED_RDNS, name: 'Browser Wallet', icon: '', rdns: LEGACY_INJECTED_RDNS },
+      provider: legacy,
+    });
+  }
+  return wallets;
+}
+
+/**
+ * Listen for newly announced wallets
+ * @returns Function that removes the listener
+ */
+export function onWalletsDiscovered(listener: WalletsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Wait for a wallet to be found, since wallets may announce themselves after the app loads
+ * @returns The wallet, or null if it has not announced itself within `timeoutMs`
+ */
+export function waitForWallet(rdns: string, timeoutMs: number): Promise<EIP6963ProviderDetail | null> {
+  startWalletDiscovery();
+  const find = () => getDiscoveredWallets().find(wallet => wallet.info.rdns === rdns) ?? null;
+
+  const found = find();
+  if (found || timeoutMs <= 0) return Promise.resolve(found);
+
+  return new Promise(resolve => {
+    const timer = setTimeout(() => {
+      removeListener();
+      resolve(find());
+    }, timeoutMs);
+    const removeListener = onWalletsDiscovered(() => {
+      const wallet = find();
+      if (!wallet) return;
+      clearTimeout(timer);
+      removeListener();
+      resolve(wallet);
+    });
+  });
+}
+
+/**
+ * rdns of the wallet the user last connected with, or null
+ */
+export function getPreferredWallet(): string | null {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    return localStorage.getItem(PREFERRED_WALLET_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remember the wallet to reconnect to after a reload, or forget it with null
+ */
+export function setPreferredWallet(rdns: string | null): void {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    if (rdns) {
+      localStorage.setItem(PREFERRED_WALLET_KEY, rdns);
+    } else {
+      localStorage.removeItem(PREFERRED_WALLET_KEY);
+    }
+  } catch (error) {
+    console.warn('Could not save the wallet choice:', error);
+  }
+}
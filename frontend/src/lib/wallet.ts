@@ -8,58 +8,50 @@
  */
 
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { defineChain } from 'viem';
+import { defineChain, type Chain } from 'viem';
+import { getActiveChainId, getRegistries, getRegistry, type ChainRegistry } from './registry';
 
-// Define Somnia testnet properly
-export const somniaTestnet = defineChain({
-  id: 50312,
-  name: 'Somnia Testnet',
-  nativeCurrency: {
-    decimals: 18,
-    name: 'STT',
-    symbol: 'STT',
-  },
-  rpcUrls: {
-    default: {
-      http: ['https://dream-rpc.somnia.network'],
+// Wagmi chain for a network in the registry
+function toChain(network: ChainRegistry): Chain {
+  return defineChain({
+    id: network.chainId,
+    name: network.name,
+    nativeCurrency: network.nativeCurrency,
+    rpcUrls: {
+      default: { http: [...network.rpcUrls] },
+      public: { http: [...network.rpcUrls] },
     },
-    public: {
-      http: ['https://dream-rpc.somnia.network'],
-    },
-  },
-  blockExplorers: {
-    default: { name: 'Explorer', url: 'https://shannon-explorer.somnia.network' },
-  },
-  testnet: true,
-});
+    blockExplorers: network.blockExplorer
+      ? { default: { name: 'Explorer', url: network.blockExplorer } }
+      : undefined,
+    testnet: network.testnet,
+  });
+}
+
+// Default chain: the network this page load runs on
+export const DEFAULT_CHAIN = toChain(getRegistry(getActiveChainId()));
+
+// Every network in the registry, the active one first
+const chains: [Chain, ...Chain[]] = [
+  DEFAULT_CHAIN,
+  ...getRegistries().filter(network => network.chainId !== DEFAULT_CHAIN.id).map(toChain),
+];
 
 // Wallet configuration
 export const config = getDefaultConfig({
   appName: 'Orbital AMM',
   projectId: process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || 'orbital-amm-default-project-id',
-  chains: [somniaTestnet],
+  chains,
   ssr: true,
 });
 
-// Contract addresses
-export const CONTRACTS = {
-  ORBITAL_POOL: process.env.NEXT_PUBLIC_ORBITAL_POOL_ADDRESS || '0xc8b4956D500a5bBA4316078cEf8c8EB70aEcc7cB',
-  // Token addresses (these should match the tokens array in the orbital pool contract)
-  USDC: '0x35517FBbdC45Be29394dAcf18555953BCBB04Ec8', // tokens[0]
-  USDT: '0x58b12d91a1d9C84B2Ab5eEA278bC47f19Dc0b972', // tokens[1]
-  DAI: '0x5c01b4B48c5a7f7FF2A47eB1CF09acB11d5f8182',  // tokens[2]
-  FRAX: '0x414d7aac54808a954Acd902Db929CC8E3C8469Df', // tokens[3]
-  LUSD: '0xc169519b792c4dB9343Bb1dA77D1E1835Bf92CD1', // tokens[4]
-} as const;
+export { CONTRACTS } from './constants';
 
 // Chain configuration
-export const SUPPORTED_CHAINS = {
-  [somniaTestnet.id]: {
-    name: 'Somnia Testnet',
-    rpcUrl: 'https://dream-rpc.somnia.network',
-    blockExplorer: 'https://shannon-explorer.somnia.network/',
-  },
-} as const;
-
-// Default chain
-export const DEFAULT_CHAIN = somniaTestnet;
\ No newline at end of file
+export const SUPPORTED_CHAINS: Record<number, { name: string; rpcUrl: string; blockExplorer?: string }> =
+  Object.fromEntries(
+    getRegistries().map(network => [
+      network.chainId,
+      { name: network.name, rpcUrl: network.rpcUrls[0], blockExplorer: network.blockExplorer },
+    ])
+  );
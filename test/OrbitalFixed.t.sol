@@ -567,6 +567,90 @@ contract OrbitalPoolTest is Test {
         vm.stopPrank();
     }
 
+    // ========== SWAP OUTPUT PARITY VECTORS ==========
+    // Expected values are mirrored by OrbitalMath.quoteSwap in frontend/src/lib/orbital-math.ts.
+    // Update both sides together when the swap math changes.
+
+    function test_SwapOutput_ParityVectors_Basic() public {
+        uint256 k = _calculateValidK(testAmounts1);
+        assertEq(k, 2786292702275208879404);
+        _approveTokens(alice, testAmounts1);
+        vm.prank(alice);
+        pool.addLiquidity(k, testAmounts1);
+
+        assertEq(pool._computeTorusInvariant(pool._getTotalReserves()), 7639320225002090578160031323);
+
+        vm.startPrank(bob);
+        tokens[0].approve(address(pool), 20 * 1e18);
+        uint256 amountOut = pool.swap(0, 1, 20 * 1e18, 0);
+        vm.stopPrank();
+
+        assertEq(amountOut, 19550169617820656117);
+    }
+
+    function test_SwapOutput_ParityVectors_Medium() public {
+        uint256 k = _calculateValidK(testAmounts1);
+        _approveTokens(alice, testAmounts1);
+        vm.prank(alice);
+        pool.addLiquidity(k, testAmounts1);
+
+        vm.startPrank(bob);
+        tokens[0].approve(address(pool), 100 * 1e18);
+        assertEq(pool.swap(0, 1, 100 * 1e18, 0), 90661089388014913158);
+        vm.stopPrank();
+    }
+
+    function test_SwapOutput_ParityVectors_Small() public {
+        uint256 k = _calculateValidK(testAmounts1);
+        _approveTokens(alice, testAmounts1);
+        vm.prank(alice);
+        pool.addLiquidity(k, testAmounts1);
+
+        vm.startPrank(bob);
+        tokens[0].approve(address(pool), 1e15);
+        assertEq(pool.swap(0, 1, 1e15, 0), 996999005991991);
+        vm.stopPrank();
+    }
+
+    function test_SwapOutput_ParityVectors_Large() public {
+        uint256[5] memory largeAmounts;
+        for (uint i = 0; i < 5; i++) {
+            largeAmounts[i] = 50000 * 1e18;
+        }
+
+        uint256 k = _calculateValidK(largeAmounts);
+        _approveTokens(alice, largeAmounts);
+        vm.prank(alice);
+        pool.addLiquidity(k, largeAmounts);
+
+        assertEq(pool._computeTorusInvariant(pool._getTotalReserves()), 19098300562505226445405053386689);
+
+        vm.startPrank(bob);
+        tokens[0].approve(address(pool), 1000 * 1e18);
+        assertEq(pool.swap(0, 1, 1000 * 1e18, 0), 977508480891032805851);
+        vm.stopPrank();
+    }
+
+    function test_SwapOutput_ParityVectors_TwoTicks() public {
+        uint256 k1 = _calculateValidK(testAmounts1);
+        _approveTokens(alice, testAmounts1);
+        vm.prank(alice);
+        pool.addLiquidity(k1, testAmounts1);
+
+        uint256 k2 = _calculateValidK(testAmounts2);
+        assertEq(k2, 1989810991426965595887);
+        _approveTokens(bob, testAmounts2);
+        vm.prank(bob);
+        pool.addLiquidity(k2, testAmounts2);
+
+        assertEq(pool._computeTorusInvariant(pool._getTotalReserves()), 22847163506676557997812142376);
+
+        vm.startPrank(charlie);
+        tokens[4].approve(address(pool), 250 * 1e18);
+        assertEq(pool.swap(4, 0, 250 * 1e18, 0), 173956031173665232057);
+        vm.stopPrank();
+    }
+
     // ========== HELPER FUNCTION TESTS ==========
     
     function test_GetTickInfo() public {